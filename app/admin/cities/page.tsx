@@ -0,0 +1,313 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import MapPicker from '~/components/MapPicker';
+
+interface CityRow {
+    key: string;
+    normalizedName: string;
+    displayName: string;
+    lat: number;
+    lng: number;
+    region?: string;
+    countryCode?: string;
+    lastUpdated?: string;
+    source?: 'static' | 'geocoded' | 'manual';
+}
+
+interface Draft {
+    displayName: string;
+    region: string;
+    countryCode: string;
+    lat: number;
+    lng: number;
+}
+
+const EMPTY_DRAFT: Draft = { displayName: '', region: '', countryCode: '', lat: 0, lng: 0 };
+
+/**
+ * Cities Admin Page - Lists, adds, corrects and deletes known cities
+ *
+ * Replaces hand-editing cities.json (and rebuilding) to fix a city placed
+ * in the wrong spot.
+ *
+ * User Workflow:
+ * 1. Filter the list by name, key or country
+ * 2. Click "Edit" to correct a city's name or coordinates: type them, or
+ *    click the spot on the map
+ * 3. Click "Save" (PATCH /api/cities/{key}) or "Cancel"
+ * 4. "Add city" works the same way, with region and country (POST /api/cities)
+ * 5. Click "Delete" to remove a city (confirms first)
+ *
+ * Architecture:
+ * - All data comes from /api/cities (no direct file access)
+ * - The server stamps each change with lastUpdated and source 'manual'
+ *   and backs the city store up before writing
+ */
+export default function CitiesAdminPage() {
+    // ===== Component State =====
+    const [cities, setCities] = useState<CityRow[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [filter, setFilter] = useState('');
+    // Key of the city being edited; null while adding a city
+    const [editing, setEditing] = useState<{ key: string | null } | null>(null);
+    const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        void reload();
+    }, []);
+
+    // ===== Event Handlers =====
+
+    /**
+     * Fetches every known city
+     */
+    async function reload() {
+        setLoading(true);
+        try {
+            const response = await fetch('/api/cities');
+            if (!response.ok) {
+                throw new Error(`Failed to load cities: ${response.status}`);
+            }
+            const data = await response.json() as { cities: CityRow[] };
+            setCities(data.cities);
+            setError(null);
+        } catch (err) {
+            console.error('Error loading cities:', err);
+            setError('Could not load cities.');
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    function startEdit(city: CityRow) {
+        setEditing({ key: city.key });
+        setDraft({
+            displayName: city.displayName,
+            region: city.region ?? '',
+            countryCode: city.countryCode ?? '',
+            lat: city.lat,
+            lng: city.lng,
+        });
+    }
+
+    function startAdd() {
+        setEditing({ key: null });
+        setDraft(EMPTY_DRAFT);
+    }
+
+    /**
+     * Saves the form: PATCH /api/cities/{key} for an edit, POST /api/cities for a new city
+     */
+    async function saveDraft() {
+        if (!editing) return;
+        setSaving(true);
+        try {
+            const { displayName, region, countryCode, lat, lng } = draft;
+            const response = editing.key
+                ? await fetch(`/api/cities/${encodeURIComponent(editing.key)}`, {
+                    method: 'PATCH',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ displayName, lat, lng }),
+                })
+                : await fetch('/api/cities', {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        displayName,
+                        lat,
+                        lng,
+                        ...(region.trim() ? { region: region.trim() } : {}),
+                        ...(countryCode.trim() ? { countryCode: countryCode.trim() } : {}),
+                    }),
+                });
+            const data = await response.json() as { success: boolean; error?: string; details?: string };
+            if (!response.ok || !data.success) {
+                alert(data.details ?? data.error ?? `Failed to save: ${response.status}`);
+                return;
+            }
+            setEditing(null);
+            await reload();
+        } finally {
+            setSaving(false);
+        }
+    }
+
+    /**
+     * Deletes a city after confirmation
+     */
+    async function removeCity(city: CityRow) {
+        if (!confirm(`Delete ${city.displayName} (${city.key})? Members there will show as unknown cities.`)) return;
+
+        const response = await fetch(`/api/cities/${encodeURIComponent(city.key)}`, { method: 'DELETE' });
+        if (!response.ok) {
+            const data = await response.json() as { error?: string };
+            alert(data.error ?? `Failed to delete: ${response.status}`);
+            return;
+        }
+        await reload();
+    }
+
+    const needle = filter.trim().toLowerCase();
+    const visible = needle
+        ? cities.filter(c => c.key.includes(needle) || c.displayName.toLowerCase().includes(needle))
+        : cities;
+
+    // ===== Render =====
+    return (
+        <main className="flex flex-col items-center min-h-screen bg-gray-950 text-white p-4">
+            <h1 className="text-3xl font-bold mb-4">🏙️ Cities</h1>
+
+            <div className="flex w-full max-w-xl gap-2 mb-4">
+                {/* Filter Input */}
+                <input
+                    type="text"
+                    value={filter}
+                    onChange={(e) => setFilter(e.target.value)}
+                    placeholder="Filter by name, key or country"
+                    className="flex-1 p-2 rounded bg-gray-800 text-white placeholder-gray-500"
+                />
+                <button
+                    onClick={startAdd}
+                    className="bg-orange-500 hover:bg-orange-600 px-3 py-1 rounded"
+                >
+                    Add city
+                </button>
+            </div>
+
+            {/* Edit / Add Form */}
+            {editing && (
+                <section className="w-full max-w-xl bg-gray-900 rounded p-4 mb-4">
+                    <h2 className="font-bold mb-2">{editing.key ? `Edit ${editing.key}` : 'Add a city'}</h2>
+                    <div className="grid grid-cols-2 gap-2 mb-2 text-sm">
+                        <label className="col-span-2">
+                            Name
+                            <input
+                                value={draft.displayName}
+                                onChange={(e) => setDraft({ ...draft, displayName: e.target.value })}
+                                className="w-full p-1 rounded bg-gray-800"
+                            />
+                        </label>
+                        {/* Region and country are part of the key, so only new cities set them */}
+                        {!editing.key && (
+                            <>
+                                <label>
+                                    Region (optional)
+                                    <input
+                                        value={draft.region}
+                                        onChange={(e) => setDraft({ ...draft, region: e.target.value })}
+                                        placeholder="TX"
+                                        className="w-full p-1 rounded bg-gray-800"
+                                    />
+                                </label>
+                                <label>
+                                    Country code
+                                    <input
+                                        value={draft.countryCode}
+                                        onChange={(e) => setDraft({ ...draft, countryCode: e.target.value })}
+                                        placeholder="US"
+                                        maxLength={2}
+                                        className="w-full p-1 rounded bg-gray-800"
+                                    />
+                                </label>
+                            </>
+                        )}
+                        <label>
+                            Latitude
+                            <input
+                                type="number"
+                                step="any"
+                                min={-90}
+                                max={90}
+                                value={draft.lat}
+                                onChange={(e) => setDraft({ ...draft, lat: Number(e.target.value) })}
+                                className="w-full p-1 rounded bg-gray-800"
+                            />
+                        </label>
+                        <label>
+                            Longitude
+                            <input
+                                type="number"
+                                step="any"
+                                min={-180}
+                                max={180}
+                                value={draft.lng}
+                                onChange={(e) => setDraft({ ...draft, lng: Number(e.target.value) })}
+                                className="w-full p-1 rounded bg-gray-800"
+                            />
+                        </label>
+                    </div>
+                    <MapPicker lat={draft.lat} lng={draft.lng} onPick={(coords) => setDraft({ ...draft, ...coords })} />
+                    <div className="flex gap-2 justify-end mt-2">
+                        <button
+                            onClick={saveDraft}
+                            disabled={saving || !draft.displayName.trim()}
+                            className="bg-orange-500 hover:bg-orange-600 px-3 py-1 rounded disabled:opacity-50"
+                        >
+                            Save
+                        </button>
+                        <button
+                            onClick={() => setEditing(null)}
+                            className="bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded"
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                </section>
+            )}
+
+            {error && <p className="text-red-400 mb-4">{error}</p>}
+            {loading && <p className="text-gray-400 mb-4">Loading…</p>}
+
+            {/* City Table */}
+            <table className="w-full max-w-5xl text-left text-sm">
+                <thead className="text-gray-400 border-b border-gray-700">
+                    <tr>
+                        <th className="p-2">City</th>
+                        <th className="p-2">Region</th>
+                        <th className="p-2">Country</th>
+                        <th className="p-2 text-right">Lat, Lng</th>
+                        <th className="p-2">Source</th>
+                        <th className="p-2">Updated</th>
+                        <th className="p-2" />
+                    </tr>
+                </thead>
+                <tbody>
+                    {visible.map(city => (
+                        <tr key={city.key} className={`border-b border-gray-800 ${editing?.key === city.key ? 'bg-gray-900' : ''}`}>
+                            <td className="p-2">
+                                {city.displayName}
+                                <div className="text-xs text-gray-500">{city.key}</div>
+                            </td>
+                            <td className="p-2">{city.region ?? '—'}</td>
+                            <td className="p-2">{city.countryCode ?? '—'}</td>
+                            <td className="p-2 text-right font-mono">{city.lat}, {city.lng}</td>
+                            <td className="p-2">{city.source ?? 'static'}</td>
+                            <td className="p-2">{city.lastUpdated?.slice(0, 10) ?? '—'}</td>
+                            <td className="p-2 flex gap-2 justify-end">
+                                <button
+                                    onClick={() => startEdit(city)}
+                                    className="bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded"
+                                >
+                                    Edit
+                                </button>
+                                <button
+                                    onClick={() => removeCity(city)}
+                                    className="bg-red-700 hover:bg-red-600 px-3 py-1 rounded"
+                                >
+                                    Delete
+                                </button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            {!loading && visible.length === 0 && (
+                <p className="text-gray-400 mt-4">No cities found.</p>
+            )}
+        </main>
+    );
+}
@@ -0,0 +1,244 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface MemberRow {
+    id: string;
+    name: string;
+    city: string;
+    cityHistory?: Array<{ city: string; until: string }>;
+    createdAt: string;
+    attendanceCount: number;
+    lastSeen: string | null;
+    cityKnown: boolean;
+}
+
+interface Draft {
+    name: string;
+    city: string;
+    retroactive: boolean;
+}
+
+/**
+ * Members Admin Page - Lists and edits the member registry
+ *
+ * Replaces hand-editing members.json. Each row shows the member's city,
+ * how many meetings they attended and when they were last seen.
+ *
+ * User Workflow:
+ * 1. Filter the list by name or city
+ * 2. Click "Edit" to rename a member or change their city inline
+ *    (a city change counts as a move unless "Correction" is ticked, so
+ *    past meetings keep the old city)
+ * 3. Click "Save" (PATCH /api/members/{id}) or "Cancel"
+ * 4. Click "Delete" to remove a member (confirms first if they attended meetings)
+ *
+ * Architecture:
+ * - All data comes from /api/members (no direct file access)
+ * - Server enforces (name, city) uniqueness and reports conflicts
+ */
+export default function MembersAdminPage() {
+    // ===== Component State =====
+    const [members, setMembers] = useState<MemberRow[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [filter, setFilter] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draft, setDraft] = useState<Draft>({ name: '', city: '', retroactive: false });
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        void reload();
+    }, []);
+
+    // ===== Event Handlers =====
+
+    /**
+     * Fetches the member list with attendance statistics
+     */
+    async function reload() {
+        setLoading(true);
+        try {
+            const response = await fetch('/api/members');
+            if (!response.ok) {
+                throw new Error(`Failed to load members: ${response.status}`);
+            }
+            const data = await response.json() as { members: MemberRow[] };
+            setMembers(data.members);
+            setError(null);
+        } catch (err) {
+            console.error('Error loading members:', err);
+            setError('Could not load members.');
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    function startEdit(member: MemberRow) {
+        setEditingId(member.id);
+        setDraft({ name: member.name, city: member.city, retroactive: false });
+    }
+
+    /**
+     * Saves the inline edit via PATCH /api/members/{id}
+     */
+    async function saveEdit(id: string) {
+        setSaving(true);
+        try {
+            const response = await fetch(`/api/members/${encodeURIComponent(id)}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(draft),
+            });
+            const data = await response.json() as { success: boolean; error?: string };
+            if (!response.ok || !data.success) {
+                alert(data.error ?? `Failed to save: ${response.status}`);
+                return;
+            }
+            setEditingId(null);
+            await reload();
+        } finally {
+            setSaving(false);
+        }
+    }
+
+    /**
+     * Deletes a member, removing them from their meetings after confirmation
+     */
+    async function removeMember(member: MemberRow) {
+        const question = member.attendanceCount > 0
+            ? `${member.name} attended ${member.attendanceCount} meeting(s). Delete and remove them from those meetings?`
+            : `Delete ${member.name}?`;
+        if (!confirm(question)) return;
+
+        const query = member.attendanceCount > 0 ? '?removeFromMeetings=true' : '';
+        const response = await fetch(`/api/members/${encodeURIComponent(member.id)}${query}`, {
+            method: 'DELETE',
+        });
+        if (!response.ok) {
+            const data = await response.json() as { error?: string };
+            alert(data.error ?? `Failed to delete: ${response.status}`);
+            return;
+        }
+        await reload();
+    }
+
+    const needle = filter.trim().toLowerCase();
+    const visible = needle
+        ? members.filter(m => m.name.toLowerCase().includes(needle) || m.city.toLowerCase().includes(needle))
+        : members;
+
+    // ===== Render =====
+    return (
+        <main className="flex flex-col items-center min-h-screen bg-gray-950 text-white p-4">
+            <h1 className="text-3xl font-bold mb-4">👥 Members</h1>
+
+            {/* Filter Input */}
+            <input
+                type="text"
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="Filter by name or city"
+                className="w-full max-w-xl p-2 rounded bg-gray-800 text-white placeholder-gray-500 mb-4"
+            />
+
+            {error && <p className="text-red-400 mb-4">{error}</p>}
+            {loading && <p className="text-gray-400 mb-4">Loading…</p>}
+
+            {/* Member Table */}
+            <table className="w-full max-w-5xl text-left text-sm">
+                <thead className="text-gray-400 border-b border-gray-700">
+                    <tr>
+                        <th className="p-2">Name</th>
+                        <th className="p-2">City</th>
+                        <th className="p-2 text-right">Meetings</th>
+                        <th className="p-2">Last seen</th>
+                        <th className="p-2" />
+                    </tr>
+                </thead>
+                <tbody>
+                    {visible.map(member => editingId === member.id ? (
+                        <tr key={member.id} className="border-b border-gray-800 bg-gray-900">
+                            <td className="p-2">
+                                <input
+                                    value={draft.name}
+                                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                                    className="w-full p-1 rounded bg-gray-800"
+                                />
+                            </td>
+                            <td className="p-2">
+                                <input
+                                    value={draft.city}
+                                    onChange={(e) => setDraft({ ...draft, city: e.target.value })}
+                                    className="w-full p-1 rounded bg-gray-800"
+                                />
+                                {draft.city.trim().toLowerCase() !== member.city.toLowerCase() && (
+                                    <label className="flex items-center gap-1 mt-1 text-xs text-gray-400">
+                                        <input
+                                            type="checkbox"
+                                            checked={draft.retroactive}
+                                            onChange={(e) => setDraft({ ...draft, retroactive: e.target.checked })}
+                                        />
+                                        Correction (also changes past meetings)
+                                    </label>
+                                )}
+                            </td>
+                            <td className="p-2 text-right">{member.attendanceCount}</td>
+                            <td className="p-2">{member.lastSeen ?? '—'}</td>
+                            <td className="p-2 flex gap-2 justify-end">
+                                <button
+                                    onClick={() => saveEdit(member.id)}
+                                    disabled={saving}
+                                    className="bg-orange-500 hover:bg-orange-600 px-3 py-1 rounded disabled:opacity-50"
+                                >
+                                    Save
+                                </button>
+                                <button
+                                    onClick={() => setEditingId(null)}
+                                    className="bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded"
+                                >
+                                    Cancel
+                                </button>
+                            </td>
+                        </tr>
+                    ) : (
+                        <tr key={member.id} className="border-b border-gray-800">
+                            <td className="p-2">{member.name}</td>
+                            <td className="p-2">
+                                {member.city}
+                                {!member.cityKnown && (
+                                    <span className="text-red-400 ml-2" title="No coordinates in cities.json">⚠</span>
+                                )}
+                                {member.cityHistory?.map(past => (
+                                    <div key={past.until} className="text-xs text-gray-500">
+                                        {past.city} until {past.until}
+                                    </div>
+                                ))}
+                            </td>
+                            <td className="p-2 text-right">{member.attendanceCount}</td>
+                            <td className="p-2">{member.lastSeen ?? '—'}</td>
+                            <td className="p-2 flex gap-2 justify-end">
+                                <button
+                                    onClick={() => startEdit(member)}
+                                    className="bg-gray-700 hover:bg-gray-600 px-3 py-1 rounded"
+                                >
+                                    Edit
+                                </button>
+                                <button
+                                    onClick={() => removeMember(member)}
+                                    className="bg-red-700 hover:bg-red-600 px-3 py-1 rounded"
+                                >
+                                    Delete
+                                </button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            {!loading && visible.length === 0 && (
+                <p className="text-gray-400 mt-4">No members found.</p>
+            )}
+        </main>
+    );
+}
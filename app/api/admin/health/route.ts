@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { checkHealth } from "~/lib/doctor";
+
+/**
+ * GET /api/admin/health
+ * Runs the data consistency checks (same as `npm run doctor`)
+ * 
+ * Response (200 when no error-level issues, 503 otherwise):
+ * {
+ *   ok: boolean,
+ *   checkedAt: string,
+ *   counts: { members: number, meetings: number, backups: number },
+ *   issues: Array<{
+ *     code: string,                  // e.g. 'orphan-participant'
+ *     severity: 'error' | 'warning',
+ *     message: string,
+ *     fixable: boolean,              // repaired by `npm run doctor -- --fix`
+ *     subject: string                // member ID, meeting ID or file
+ *   }>
+ * }
+ * 
+ * Read-only; repairs are only made from the CLI.
+ */
+export async function GET() {
+  try {
+    const report = checkHealth();
+    return NextResponse.json(report, { status: report.ok ? 200 : 503 });
+  } catch (error) {
+    console.error('Error checking data health:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
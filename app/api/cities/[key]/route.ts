@@ -0,0 +1,140 @@
+import { NextResponse } from "next/server";
+import { validateUpdateCityInput, type City } from "~/lib/validation";
+import { getCityKey } from "~/lib/cities";
+import { CuratedCityError, deleteCity, findCityByKey, updateCity } from "~/lib/cityEditor";
+
+interface RouteParams {
+  params: Promise<{ key: string }>;
+}
+
+const withKey = (city: City) => ({ key: getCityKey(city), ...city });
+
+/**
+ * GET /api/cities/[key]
+ * Returns a single city by key, URL-encoded (e.g. /api/cities/paris%2C%20tx%2C%20us)
+ * 
+ * Response:
+ * {
+ *   city: City & { key: string }
+ * }
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { key } = await params;
+
+    const city = findCityByKey(key);
+    if (!city) {
+      return NextResponse.json(
+        { error: 'City not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ city: withKey(city) });
+  } catch (error) {
+    console.error('Error getting city:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/cities/[key]
+ * Corrects a city's display name or coordinates (source becomes 'manual')
+ * 
+ * Request Body (at least one):
+ * {
+ *   displayName?: string,
+ *   lat?: number,
+ *   lng?: number
+ * }
+ * 
+ * Name, region and country make up the key and can't be changed here (400);
+ * add the city under the new key and delete the old one instead.
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const { key } = await params;
+    const body: unknown = await request.json();
+    const changes = validateUpdateCityInput(body);
+
+    const city = updateCity(key, changes);
+    if (!city) {
+      return NextResponse.json(
+        { success: false, error: 'City not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, city: withKey(city) });
+  } catch (error) {
+    console.error('Error updating city:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON' },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/cities/[key]
+ * Removes a city from the city store
+ * 
+ * Members in the city show up as unknown cities again (see /admin/members).
+ * Returns 409 for a curated city that only the bundled data holds.
+ * 
+ * Response:
+ * {
+ *   success: true,
+ *   city: City & { key: string }   // the deleted city
+ * }
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { key } = await params;
+
+    const city = deleteCity(key);
+    if (!city) {
+      return NextResponse.json(
+        { success: false, error: 'City not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, city: withKey(city) });
+  } catch (error) {
+    console.error('Error deleting city:', error);
+
+    if (error instanceof CuratedCityError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { NextResponse } from "next/server";
+import { validateAddCityAliasInput } from "~/lib/validation";
+import { addCityAlias, CityAliasConflictError, listCityAliases, removeCityAlias } from "~/lib/cityAliases";
+
+/**
+ * GET /api/cities/aliases
+ * Lists city aliases (abbreviations, local and former names, misspellings)
+ * 
+ * Query Parameters:
+ * - city: only this city's aliases, by city key (e.g. "new york, us")
+ * 
+ * Response:
+ * {
+ *   aliases: Array<{ city: string, name: string, kind: 'abbreviation' | 'local' | 'former' | 'misspelling' }>
+ * }
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    return NextResponse.json({ aliases: listCityAliases(searchParams.get('city') ?? undefined) });
+  } catch (error) {
+    console.error('Error listing city aliases:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/cities/aliases
+ * Adds an alias to a city (replacing an alias with the same name)
+ * 
+ * Request Body:
+ * { city: string, name: string, kind: 'abbreviation' | 'local' | 'former' | 'misspelling' }
+ * 
+ * Returns 201 with { success: true, city }, 404 for an unknown city key, or
+ * 409 with existingCity if the name already finds another city.
+ */
+export async function POST(request: Request) {
+  try {
+    const body: unknown = await request.json();
+    const { city: cityKey, ...alias } = validateAddCityAliasInput(body);
+
+    const city = addCityAlias(cityKey, alias);
+    if (!city) {
+      return NextResponse.json(
+        { success: false, error: 'City not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, city }, { status: 201 });
+  } catch (error) {
+    console.error('Error adding city alias:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON' },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof CityAliasConflictError) {
+      return NextResponse.json(
+        { success: false, error: error.message, existingCity: error.existingCity },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/cities/aliases
+ * Removes an alias from a city
+ * 
+ * Query Parameters:
+ * - city: city key (required)
+ * - name: the alias (required)
+ * 
+ * Returns { success: true, city }, or 404 if the city has no such alias.
+ */
+export async function DELETE(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const cityKey = searchParams.get('city');
+    const name = searchParams.get('name');
+
+    if (!cityKey || !name) {
+      return NextResponse.json(
+        { success: false, error: 'city and name are required' },
+        { status: 400 }
+      );
+    }
+
+    const city = removeCityAlias(cityKey, name);
+    if (!city) {
+      return NextResponse.json(
+        { success: false, error: 'Alias not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, city });
+  } catch (error) {
+    console.error('Error removing city alias:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
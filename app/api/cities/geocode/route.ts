@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { validateGeocodeCityInput } from "~/lib/validation";
+import { resolveCity, toCityOption, toCityReference, UnknownCountryError } from "~/lib/cityCache";
+import { findCities } from "~/lib/cities";
+
+/**
+ * POST /api/cities/geocode
+ * Looks up a city nobody has used yet, so it can be checked before a meeting
+ * is saved
+ * 
+ * Request Body:
+ * { city: string, region?: string, country?: string }
+ * 
+ * Response:
+ * - found:     { found: true, city: { key, displayName, region?, countryCode?, lat, lng } }
+ * - not found: { found: false, source: 'none' | 'pending' | 'ambiguous' }
+ * 
+ * A city the geocoder finds is saved like one geocoded for a meeting (see
+ * resolveCity); known cities are returned without asking the geocoder.
+ */
+export async function POST(request: Request) {
+  try {
+    const body: unknown = await request.json();
+    const reference = toCityReference(validateGeocodeCityInput(body));
+
+    const result = await resolveCity(reference);
+    const [city, ...others] = findCities(reference);
+    if (!result.found || !city || others.length > 0) {
+      return NextResponse.json({ found: false, source: result.found ? 'ambiguous' : result.source });
+    }
+
+    return NextResponse.json({ found: true, city: toCityOption(city) });
+  } catch (error) {
+    console.error('Error geocoding city:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: 'Invalid JSON' },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof UnknownCountryError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
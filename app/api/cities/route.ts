@@ -0,0 +1,123 @@
+import { NextResponse } from "next/server";
+import { validateCitySearchQuery, validateCreateCityInput, type City } from "~/lib/validation";
+import { getAllCities, getCityKey } from "~/lib/cities";
+import { toCityReference, UnknownCountryError } from "~/lib/cityCache";
+import { createCity, DuplicateCityError, findCityByKey } from "~/lib/cityEditor";
+import { searchCities } from "~/lib/citySearch";
+
+const withKey = (city: City) => ({ key: getCityKey(city), ...city });
+
+/**
+ * GET /api/cities
+ * Lists the known cities, or searches them
+ * 
+ * Query Parameters (all optional):
+ * - q: search for this city, as in GET /api/cities/search; without it every
+ *   city is listed, sorted by key
+ * - region, country, limit: as in GET /api/cities/search (only with q)
+ * 
+ * Response:
+ * {
+ *   cities: Array<City & { key: string }>   // best match first when searching
+ * }
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    if (!searchParams.has('q')) {
+      const cities = getAllCities().map(withKey).sort((a, b) => a.key.localeCompare(b.key));
+      return NextResponse.json({ cities });
+    }
+
+    const { q, region, country, limit } = validateCitySearchQuery(Object.fromEntries(searchParams));
+    const cities = searchCities(toCityReference({ city: q, region, country }), { limit })
+      .map(suggestion => findCityByKey(suggestion.key))
+      .filter((city): city is City => city !== null)
+      .map(withKey);
+
+    return NextResponse.json({ cities });
+  } catch (error) {
+    console.error('Error listing cities:', error);
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof UnknownCountryError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/cities
+ * Adds a city by hand (source 'manual')
+ * 
+ * Request Body:
+ * {
+ *   displayName: string,      // e.g. "Paris"
+ *   normalizedName?: string,  // default: displayName in lower case
+ *   region?: string,          // e.g. "TX"
+ *   countryCode?: string,     // two-letter code, e.g. "US"
+ *   lat: number,
+ *   lng: number
+ * }
+ * 
+ * Response:
+ * {
+ *   success: true,
+ *   city: City & { key: string }
+ * }
+ * 
+ * Returns 409 with the existing city if one already has the same key.
+ */
+export async function POST(request: Request) {
+  try {
+    const body: unknown = await request.json();
+    const city = createCity(validateCreateCityInput(body));
+
+    return NextResponse.json({ success: true, city: withKey(city) }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating city:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON' },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof DuplicateCityError) {
+      return NextResponse.json(
+        { success: false, error: error.message, existing: withKey(error.existing) },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
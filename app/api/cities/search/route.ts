@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { validateCitySearchQuery } from "~/lib/validation";
+import { toCityReference, UnknownCountryError } from "~/lib/cityCache";
+import { findCities } from "~/lib/cities";
+import { searchCities } from "~/lib/citySearch";
+
+/**
+ * GET /api/cities/search
+ * Suggests known cities for a city as typed (typos, accents, abbreviations)
+ * 
+ * Query Parameters:
+ * - q: the city, or a reference like "Paris, FR" (required)
+ * - region, country: as in POST /api/meetings participants (optional)
+ * - limit: most suggestions, 1-20 (default 5)
+ * 
+ * Response:
+ * {
+ *   query: string,      // the city reference searched for
+ *   known: boolean,     // the reference already names a known city (or several)
+ *   suggestions: Array<{ key, displayName, region?, countryCode?, lat, lng, score, alias? }>
+ * }
+ * 
+ * Sending a suggestion's key as the participant's city picks that city.
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const { q, region, country, limit } = validateCitySearchQuery(Object.fromEntries(searchParams));
+    const query = toCityReference({ city: q, region, country });
+
+    return NextResponse.json({
+      query,
+      known: findCities(query).length > 0,
+      suggestions: searchCities(query, { limit }),
+    });
+  } catch (error) {
+    console.error('Error searching cities:', error);
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof UnknownCountryError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { renderMeetingDataExport } from "~/lib/exportFormats";
+import { EmptyExportError, renderMeetingExport } from "~/lib/exportRenderer";
+import { renderMeetingMap } from "~/lib/mapRenderer";
+import { renderMeetingOgImage } from "~/lib/ogImage";
+import { validateExportQuery } from "~/lib/validation";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+function fileResponse(body: string | Buffer, contentType: string, filename: string, download: boolean) {
+  return new NextResponse(typeof body === 'string' ? body : new Uint8Array(body), {
+    headers: {
+      'Content-Type': contentType,
+      'Content-Disposition': `${download ? 'attachment' : 'inline'}; filename="${filename}"`,
+    },
+  });
+}
+
+const notFound = () => NextResponse.json({ error: 'Meeting not found' }, { status: 404 });
+
+/**
+ * GET /api/meetings/[id]/export
+ * Renders a stored meeting as a standalone HTML globe, or as data for
+ * other tools
+ * 
+ * Query Parameters (all optional):
+ * - format: "html" (default), "geojson", "kml", "csv", "svg", "png" or
+ *   "og" (1200x630 link preview card)
+ * - arcs: "true" to add arcs as LineStrings (geojson only)
+ * - projection: "equirectangular" (default) or "orthographic" (svg/png)
+ * - width, height: image size in pixels, 200-4000 (svg/png, default 1200x600)
+ * - autoRotate: "true" to spin the globe (default false)
+ * - showTitle: "false" to hide the title overlay (default true)
+ * - offline: "true" to inline the globe library and textures (works with no network)
+ * - textures: "low" for a smaller offline file (default "full")
+ * - download: "true" to send it as an attachment (default: shown inline)
+ * 
+ * Response: text/html, application/geo+json, KML, text/csv or an image.
+ * Content-Disposition carries the suggested file name
+ * ("{Title}-{date}.{format}") either way.
+ * 
+ * Errors (JSON): 400 bad query, 404 unknown meeting,
+ * 422 no participant has a known city (html only)
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const { format, arcs, projection, width, height, download, ...options } = validateExportQuery(
+      Object.fromEntries(searchParams)
+    );
+
+    if (format === 'og') {
+      const card = await renderMeetingOgImage(id);
+      return card ? fileResponse(card.body, card.contentType, card.filename, download) : notFound();
+    }
+    if (format === 'svg' || format === 'png') {
+      const image = await renderMeetingMap(id, format, { projection, width, height, showTitle: options.showTitle });
+      return image ? fileResponse(image.body, image.contentType, image.filename, download) : notFound();
+    }
+    if (format !== 'html') {
+      const data = renderMeetingDataExport(id, format, { arcs });
+      return data ? fileResponse(data.body, data.contentType, data.filename, download) : notFound();
+    }
+
+    const rendered = renderMeetingExport(id, options);
+    if (!rendered) {
+      return notFound();
+    }
+
+    return fileResponse(rendered.html, 'text/html; charset=utf-8', rendered.filename, download);
+  } catch (error) {
+    console.error('Error exporting meeting:', error);
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: error.message },
+        { status: 400 }
+      );
+    }
+    if (error instanceof EmptyExportError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 422 }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
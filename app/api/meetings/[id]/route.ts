@@ -0,0 +1,199 @@
+import { NextResponse } from "next/server";
+import { deleteMeeting, loadMeeting, updateMeeting } from "~/lib/meetings";
+import { findOrCreateMember, getMemberCityOn, getMembersByIds } from "~/lib/members";
+import { findAmbiguousCities, pinCityKey, toCityReference, UnknownCountryError } from "~/lib/cityCache";
+import { parseCityReference } from "~/lib/cities";
+import { validateUpdateMeetingInput } from "~/lib/validation";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/meetings/[id]
+ * Returns a stored meeting with its participants resolved to member records
+ *
+ * Response:
+ * {
+ *   meeting: Meeting,
+ *   participants: Array<Member & {
+ *     attendedFrom: string             // member's city on the meeting date
+ *   }>,                                // in participantIds order
+ *   missingParticipantIds: string[]    // IDs with no matching member
+ * }
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const meeting = loadMeeting(id);
+    if (!meeting) {
+      return NextResponse.json(
+        { error: 'Meeting not found' },
+        { status: 404 }
+      );
+    }
+
+    const members = getMembersByIds(meeting.participantIds);
+    const found = new Set(members.map(member => member.id));
+
+    return NextResponse.json({
+      meeting,
+      participants: members.map(member => ({
+        ...member,
+        attendedFrom: getMemberCityOn(member, meeting.date),
+      })),
+      missingParticipantIds: meeting.participantIds.filter(memberId => !found.has(memberId)),
+    });
+  } catch (error) {
+    console.error('Error getting meeting:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/meetings/[id]
+ * Renames, re-dates, or changes the participants of a meeting
+ *
+ * Request Body (at least one field):
+ * {
+ *   title?: string,
+ *   date?: string,                                      // YYYY-MM-DD
+ *   addParticipantIds?: string[],                       // existing member IDs
+ *   addParticipants?: Array<{ name: string, city: string, region?: string, country?: string }>, // found or created like POST /api/meetings
+ *   removeParticipantIds?: string[]
+ * }
+ *
+ * The meeting ID stays the same so existing links keep working. Like
+ * POST /api/meetings, responds 409 with `ambiguousCities` if an added
+ * participant's city fits several known cities.
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   meeting: Meeting
+ * }
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    // ===== Input Validation =====
+    const body: unknown = await request.json();
+    const input = validateUpdateMeetingInput(body);
+
+    if (!loadMeeting(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Meeting not found' },
+        { status: 404 }
+      );
+    }
+
+    // Added IDs must refer to real members
+    const addIds = input.addParticipantIds ?? [];
+    const known = new Set(getMembersByIds(addIds).map(member => member.id));
+    const unknownIds = addIds.filter(memberId => !known.has(memberId));
+    if (unknownIds.length > 0) {
+      return NextResponse.json(
+        { success: false, error: `Unknown member IDs: ${unknownIds.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // ===== City Disambiguation =====
+    const references = (input.addParticipants ?? []).map(participant => toCityReference(participant));
+    const ambiguousCities = findAmbiguousCities(references);
+    if (ambiguousCities.length > 0) {
+      return NextResponse.json(
+        { success: false, error: 'Ambiguous cities', ambiguousCities },
+        { status: 409 }
+      );
+    }
+
+    // ===== Member Creation/Lookup =====
+    for (const [i, participant] of (input.addParticipants ?? []).entries()) {
+      const reference = references[i]!;
+      addIds.push(findOrCreateMember(participant.name, parseCityReference(reference).name, pinCityKey(reference)).id);
+    }
+
+    const meeting = updateMeeting(id, {
+      title: input.title,
+      date: input.date,
+      addParticipantIds: addIds,
+      removeParticipantIds: input.removeParticipantIds,
+    });
+
+    if (!meeting) {
+      return NextResponse.json(
+        { success: false, error: 'Meeting not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, meeting });
+  } catch (error) {
+    console.error('Error updating meeting:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON' },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof UnknownCountryError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/meetings/[id]
+ * Removes a meeting (members who attended it are kept)
+ *
+ * Response:
+ * {
+ *   success: true
+ * }
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    if (!deleteMeeting(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Meeting not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting meeting:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,5 @@
 import { NextResponse } from "next/server";
-import { loadMeeting } from "~/lib/meetings";
-import { getMembersByIds } from "~/lib/members";
-import { getCityCoordinates } from "~/lib/cities";
+import { getMeetingVisualization } from "~/lib/visualization";
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -10,75 +8,46 @@ interface RouteParams {
 /**
  * GET /api/meetings/[id]/visualization
  * Returns computed visualization data for a meeting
- * 
+ *
  * Phase 2 Implementation:
  * - Computes visualization data at runtime
  * - No stored coordinates in response
  * - Clear separation between stored and computed data
+ *
+ * Each member is placed at the city they lived in on the meeting date
+ * (cityHistory), so historical globes don't move when a member relocates.
+ * Computed by src/lib/visualization.ts, which the HTML export shares.
+ * Placed participants are counted per country (the city's country code, or
+ * the bundled outline it lies in) and per continent, most first.
+ *
+ * Response:
+ * {
+ *   meeting: { id, title, date },
+ *   points: Array<{ memberId, memberName, cityName, lat, lng, countryCode? }>,
+ *   arcs: Array<{ startLat, startLng, endLat, endLng }>,
+ *   unplaced: Array<{ memberId, memberName, cityName }>,  // not on the globe
+ *   unknownCities: string[],  // participants' cities without coordinates
+ *   countries: Array<{ countryCode, name, continent, count }>,  // continent null without an outline
+ *   continents: Array<{ continent, count, countries }>
+ * }
  */
 export async function GET(request: Request, { params }: RouteParams) {
   try {
     const { id } = await params;
-    
-    // Load meeting
-    const meeting = loadMeeting(id);
-    if (!meeting) {
+
+    const visualization = getMeetingVisualization(id);
+    if (!visualization) {
       return NextResponse.json(
         { error: 'Meeting not found' },
         { status: 404 }
       );
     }
 
-    // Load members
-    const members = getMembersByIds(meeting.participantIds);
-
-    // Compute points with coordinates
-    const points = members
-      .map(member => {
-        // Get coordinates from cities service (runtime computation)
-        const coords = getCityCoordinates(member.city);
-        
-        if (!coords) {
-          console.warn(`No coordinates found for city: ${member.city}`);
-          return null;
-        }
-
-        return {
-          memberId: member.id,
-          memberName: member.name,
-          cityName: member.city,
-          lat: coords.lat,
-          lng: coords.lng,
-        };
-      })
-      .filter((p): p is NonNullable<typeof p> => p !== null);
-
-    // Compute arcs (all-to-all connections)
-    const arcs = [];
-    for (let i = 0; i < points.length; i++) {
-      for (let j = i + 1; j < points.length; j++) {
-        const pointI = points[i];
-        const pointJ = points[j];
-        if (!pointI || !pointJ) continue;
-        
-        arcs.push({
-          startLat: pointI.lat,
-          startLng: pointI.lng,
-          endLat: pointJ.lat,
-          endLng: pointJ.lng,
-        });
-      }
+    for (const city of visualization.unknownCities) {
+      console.warn(`No coordinates found for city: ${city}`);
     }
 
-    return NextResponse.json({
-      meeting: {
-        id: meeting.id,
-        title: meeting.title,
-        date: meeting.date,
-      },
-      points,
-      arcs,
-    });
+    return NextResponse.json(visualization);
   } catch (error) {
     console.error('Error getting visualization:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -1,7 +1,53 @@
 import { NextResponse } from "next/server";
-import { validateCreateMeetingInput } from "~/lib/validation";
+import { validateCreateMeetingInput, validateListMeetingsQuery } from "~/lib/validation";
 import { findOrCreateMember } from "~/lib/members";
-import { createMeeting } from "~/lib/meetings";
+import { createMeeting, queryMeetings } from "~/lib/meetings";
+import { findAmbiguousCities, pinCityKey, resolveCities, toCityReference, UnknownCountryError } from "~/lib/cityCache";
+import { parseCityReference } from "~/lib/cities";
+import { CorruptDataError } from "~/lib/dataFile";
+import { SchemaVersionError } from "~/lib/schemaVersion";
+
+/**
+ * GET /api/meetings
+ * Lists meetings, most recent first
+ * 
+ * Query Parameters (all optional):
+ * - from, to: inclusive YYYY-MM-DD date range
+ * - q: case-insensitive title search
+ * - page: 1-based page number (default 1)
+ * - pageSize: meetings per page, 1-100 (default 20)
+ * 
+ * Response:
+ * {
+ *   meetings: Meeting[],
+ *   total: number,     // matches across all pages
+ *   page: number,
+ *   pageSize: number
+ * }
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = validateListMeetingsQuery(Object.fromEntries(searchParams));
+
+    return NextResponse.json(queryMeetings(query));
+  } catch (error) {
+    console.error('Error listing meetings:', error);
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: error.message },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
 
 /**
  * POST /api/meetings
@@ -9,21 +55,36 @@ import { createMeeting } from "~/lib/meetings";
  * 
  * This is the main API endpoint for creating meetings. It handles the complete workflow:
  * 1. Validates input (title, participants array)
- * 2. Finds or creates members (automatic deduplication)
- * 3. Creates meeting with participant IDs
- * 4. Persists everything to disk
+ * 2. Stops with 409 if a city name fits several known cities, listing the
+ *    choices; the client resubmits with the participant's country/region
+ * 3. Geocodes cities nobody used before (see cityCache.resolveCities), waiting
+ *    up to 5 seconds; slower lookups finish in the background
+ * 4. Finds or creates members (automatic deduplication), pinned to their city
+ * 5. Creates meeting with participant IDs
+ * 6. Persists everything to disk
  * 
  * Request Body:
  * {
  *   title: string,
- *   participants: Array<{ name: string, city: string }>
+ *   participants: Array<{ name: string, city: string, region?: string, country?: string }>
+ * }
+ * 
+ * 409 Response (nothing is created):
+ * {
+ *   success: false,
+ *   error: 'Ambiguous cities',
+ *   ambiguousCities: Array<{ city: string, options: CityOption[] }>
  * }
  * 
  * Response:
  * {
  *   success: true,
+ *   meetingId: string,   // ID actually assigned ("-2", "-3"... appended on same-day title collisions)
  *   meeting: Meeting,
- *   warnings?: string[]  // If any participants failed to add
+ *   warnings?: string[]        // If any participants failed to add
+ *   geocodedCities?: string[]  // New cities placed by the geocoder
+ *   pendingCities?: string[]   // Still being looked up - fetch the visualization again shortly
+ *   unknownCities?: string[]   // The geocoder found no such place
  * }
  * 
  * Phase 2 Design:
@@ -39,15 +100,31 @@ export async function POST(request: Request) {
     const validatedInput = validateCreateMeetingInput(body);
     const { title, participants } = validatedInput;
 
+    // ===== City Disambiguation =====
+    // "Paris" could be Paris, FR or Paris, TX, US - let the user pick first
+    const references = participants.map(participant => toCityReference(participant));
+    const ambiguousCities = findAmbiguousCities(references);
+    if (ambiguousCities.length > 0) {
+      return NextResponse.json(
+        { success: false, error: 'Ambiguous cities', ambiguousCities },
+        { status: 409 }
+      );
+    }
+
+    // ===== Geocoding =====
+    // Place participants from cities that aren't in the city data yet
+    const cities = await resolveCities(references);
+
     // ===== Member Creation/Lookup =====
     // For each participant, find existing member or create new one
     // Collects member IDs for the meeting record
     const memberIds: string[] = [];
     const warnings: string[] = [];
 
-    for (const participant of participants) {
+    for (const [i, participant] of participants.entries()) {
       try {
-        const member = findOrCreateMember(participant.name, participant.city);
+        const reference = references[i]!;
+        const member = findOrCreateMember(participant.name, parseCityReference(reference).name, pinCityKey(reference));
         
         // Ensure member has an ID (should always be the case)
         if (!member.id) {
@@ -56,6 +133,10 @@ export async function POST(request: Request) {
         
         memberIds.push(member.id);
       } catch (error) {
+        // A corrupted or outdated registry affects every participant - abort
+        // instead of creating a meeting with nobody in it
+        if (error instanceof CorruptDataError || error instanceof SchemaVersionError) throw error;
+
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         warnings.push(`Failed to add participant ${participant.name}: ${errorMessage}`);
       }
@@ -63,26 +144,46 @@ export async function POST(request: Request) {
 
     // ===== Meeting Creation =====
     // Create meeting record with participant IDs (not full objects)
+    // The ID may carry a suffix if the same title was already used today
     const meeting = createMeeting(title, memberIds);
 
     // ===== Response =====
     // Return meeting data, include warnings if any participants failed
+    const nonEmpty = (list: string[]) => (list.length > 0 ? list : undefined);
     return NextResponse.json({
       success: true,
+      meetingId: meeting.id,
       meeting,
-      warnings: warnings.length > 0 ? warnings : undefined,
+      warnings: nonEmpty(warnings),
+      geocodedCities: nonEmpty(cities.geocoded),
+      pendingCities: nonEmpty(cities.pending),
+      unknownCities: nonEmpty(cities.unknown),
     });
   } catch (error) {
     // ===== Error Handling =====
     // Log error and return appropriate HTTP status
     console.error('Error creating meeting:', error);
     
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON' },
+        { status: 400 }
+      );
+    }
+
     if (error instanceof Error && error.name === 'ZodError') {
       return NextResponse.json(
         { success: false, error: 'Invalid input data', details: error.message },
         { status: 400 }
       );
     }
+
+    if (error instanceof UnknownCountryError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
     
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     return NextResponse.json(
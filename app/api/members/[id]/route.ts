@@ -0,0 +1,165 @@
+import { NextResponse } from "next/server";
+import { validateUpdateMemberInput } from "~/lib/validation";
+import { deleteMember, DuplicateMemberError, findMemberById, updateMember } from "~/lib/members";
+import { getAttendanceByMember, removeParticipantFromMeetings } from "~/lib/meetings";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/members/[id]
+ * Returns a single member with attendance statistics
+ * 
+ * Response:
+ * {
+ *   member: Member,
+ *   attendanceCount: number,
+ *   lastSeen: string | null
+ * }
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const member = findMemberById(id);
+    if (!member) {
+      return NextResponse.json(
+        { error: 'Member not found' },
+        { status: 404 }
+      );
+    }
+
+    const attendance = getAttendanceByMember().get(id);
+    return NextResponse.json({
+      member,
+      attendanceCount: attendance?.count ?? 0,
+      lastSeen: attendance?.lastSeen ?? null,
+    });
+  } catch (error) {
+    console.error('Error getting member:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/members/[id]
+ * Renames a member and/or changes their city
+ * 
+ * Request Body (name and/or city):
+ * {
+ *   name?: string,
+ *   city?: string,
+ *   movedOn?: string,      // YYYY-MM-DD the move took effect (default today)
+ *   retroactive?: boolean  // city fix that should also apply to past meetings
+ * }
+ * 
+ * The member ID is unchanged, so all meetings they attended pick up a rename.
+ * A city change is recorded in cityHistory unless retroactive is set, so
+ * meetings before the move keep the old city.
+ * Returns 409 if another member already has the resulting name + city
+ * (use the merge tool to combine them instead).
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body: unknown = await request.json();
+    const changes = validateUpdateMemberInput(body);
+
+    const member = updateMember(id, changes);
+    if (!member) {
+      return NextResponse.json(
+        { success: false, error: 'Member not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, member });
+  } catch (error) {
+    console.error('Error updating member:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON' },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof DuplicateMemberError) {
+      return NextResponse.json(
+        { success: false, error: error.message, existing: error.existing },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/members/[id]
+ * Removes a member from the registry
+ * 
+ * Query Parameters:
+ * - removeFromMeetings=true: also drop the member from every meeting they attended.
+ *   Without it, deleting a member who attended meetings returns 409 so historical
+ *   meetings don't silently lose participants.
+ * 
+ * Response:
+ * {
+ *   success: true,
+ *   meetingsUpdated: number
+ * }
+ */
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const removeFromMeetings = searchParams.get('removeFromMeetings') === 'true';
+
+    if (!findMemberById(id)) {
+      return NextResponse.json(
+        { success: false, error: 'Member not found' },
+        { status: 404 }
+      );
+    }
+
+    const attended = getAttendanceByMember().get(id)?.count ?? 0;
+    if (attended > 0 && !removeFromMeetings) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Member attended ${attended} meeting(s); pass removeFromMeetings=true to delete anyway`,
+        },
+        { status: 409 }
+      );
+    }
+
+    const meetingsUpdated = attended > 0 ? removeParticipantFromMeetings(id) : 0;
+    deleteMember(id);
+
+    return NextResponse.json({ success: true, meetingsUpdated });
+  } catch (error) {
+    console.error('Error deleting member:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
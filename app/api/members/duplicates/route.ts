@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { findDuplicateMembers } from "~/lib/memberMerge";
+
+/**
+ * GET /api/members/duplicates
+ * Lists pairs of members that probably represent the same person
+ * 
+ * Query Parameters:
+ * - threshold: minimum name similarity between 0 and 1 (default 0.8)
+ * 
+ * Response:
+ * {
+ *   candidates: Array<{
+ *     members: [Member, Member],
+ *     nameSimilarity: number,
+ *     cityMatch: 'same' | 'nearby' | 'different',
+ *     reason: string
+ *   }>
+ * }
+ * 
+ * Nothing is changed; use POST /api/members/merge to act on a candidate.
+ */
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const rawThreshold = searchParams.get('threshold');
+    const threshold = rawThreshold === null ? undefined : Number(rawThreshold);
+
+    if (threshold !== undefined && !(threshold >= 0 && threshold <= 1)) {
+      return NextResponse.json(
+        { error: 'threshold must be a number between 0 and 1' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ candidates: findDuplicateMembers(undefined, { threshold }) });
+  } catch (error) {
+    console.error('Error finding duplicate members:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { validateMergeMembersInput } from "~/lib/validation";
+import { mergeMembers, MergeInputError } from "~/lib/memberMerge";
+
+/**
+ * POST /api/members/merge
+ * Merges duplicate members into one surviving member
+ * 
+ * Request Body:
+ * {
+ *   survivorId: string,    // member ID to keep
+ *   mergeIds: string[],    // member IDs folded into the survivor, then deleted
+ *   dryRun?: boolean       // preview only (default false)
+ * }
+ * 
+ * Response:
+ * {
+ *   success: true,
+ *   plan: {
+ *     survivor: Member,
+ *     removed: Member[],
+ *     meetings: Array<{ meetingId, before: string[], after: string[] }>,
+ *     dryRun: boolean
+ *   }
+ * }
+ */
+export async function POST(request: Request) {
+  try {
+    const body: unknown = await request.json();
+    const { survivorId, mergeIds, dryRun } = validateMergeMembersInput(body);
+
+    const plan = mergeMembers(survivorId, mergeIds, { dryRun });
+    return NextResponse.json({ success: true, plan });
+  } catch (error) {
+    console.error('Error merging members:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON' },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof MergeInputError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import { validateAddMemberInput } from "~/lib/validation";
+import { createMember, DuplicateMemberError, loadMembers } from "~/lib/members";
+import { getAttendanceByMember } from "~/lib/meetings";
+import { getLocationCity } from "~/lib/cities";
+
+/**
+ * GET /api/members
+ * Lists every member with attendance statistics
+ * 
+ * Response:
+ * {
+ *   members: Array<Member & {
+ *     attendanceCount: number,   // meetings attended
+ *     lastSeen: string | null,   // date of most recent meeting (YYYY-MM-DD)
+ *     cityKnown: boolean         // city has coordinates in cities.json
+ *   }>
+ * }
+ */
+export async function GET() {
+  try {
+    const attendance = getAttendanceByMember();
+
+    const members = loadMembers().map(member => ({
+      ...member,
+      attendanceCount: attendance.get(member.id)?.count ?? 0,
+      lastSeen: attendance.get(member.id)?.lastSeen ?? null,
+      cityKnown: getLocationCity(member) !== null,
+    }));
+
+    return NextResponse.json({ members });
+  } catch (error) {
+    console.error('Error listing members:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/members
+ * Adds a member without creating a meeting
+ * 
+ * Request Body:
+ * {
+ *   name: string,
+ *   city: string
+ * }
+ * 
+ * Response:
+ * {
+ *   success: true,
+ *   member: Member
+ * }
+ * 
+ * Returns 409 with the existing member if the (name, city) pair is taken.
+ */
+export async function POST(request: Request) {
+  try {
+    const body: unknown = await request.json();
+    const { name, city } = validateAddMemberInput(body);
+
+    const member = createMember(name, city);
+    return NextResponse.json({ success: true, member }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating member:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON' },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof DuplicateMemberError) {
+      return NextResponse.json(
+        { success: false, error: error.message, existing: error.existing },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof Error && error.name === 'ZodError') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid input data', details: error.message },
+        { status: 400 }
+      );
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
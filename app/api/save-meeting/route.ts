@@ -1,58 +1,95 @@
 import { NextResponse } from "next/server";
-import fs from "fs";
-import path from "path";
+import { EmptyExportError } from "~/lib/exportRenderer";
+import { ExportExistsError, ExportTooLargeError, publishMeetingExport } from "~/lib/exportPublisher";
+import { validateSaveExportInput } from "~/lib/validation";
 
-interface SaveMeetingRequest {
-  html: string;
-  filename: string;
-}
+/** The request only carries a meeting ID and a few options */
+const MAX_REQUEST_BYTES = 4 * 1024;
 
 /**
- * Sanitize filename to prevent path traversal attacks
+ * POST /api/save-meeting
+ * Publishes a meeting's globe to public/exports/ (served on GitHub Pages)
+ *
+ * The HTML is rendered on the server from stored data; client-supplied
+ * markup is never written. A link preview card ({Title}-{date}.og.png) is
+ * saved next to it, and each export is recorded in
+ * public/exports/manifest.json.
+ *
+ * Request Body:
+ * {
+ *   meetingId: string,
+ *   autoRotate?: boolean,
+ *   showTitle?: boolean,
+ *   offline?: boolean,
+ *   textures?: "full" | "low",
+ *   overwrite?: boolean   // replace an existing export (default false)
+ * }
+ *
+ * Response:
+ * {
+ *   success: true,
+ *   path: "/exports/{Title}-{date}.html",
+ *   export: { filename, meetingId, exportedAt, bytes, pointCount, image, options }
+ * }
+ *
+ * Errors: 400 invalid body, 404 unknown meeting, 409 export exists,
+ * 413 body or export too large, 422 no participant has a known city
  */
-function sanitizeFilename(filename: string): string {
-  // Remove any path separators and only keep the base filename
-  const basename = path.basename(filename);
-  // Remove any non-alphanumeric characters except dash, underscore, and dot
-  return basename.replace(/[^a-z0-9.\-_]/gi, '_');
-}
-
 export async function POST(request: Request) {
   try {
-    const body = (await request.json()) as SaveMeetingRequest;
-    const { html, filename } = body;
-
-    // Sanitize the filename to prevent path traversal
-    const safeFilename = sanitizeFilename(filename);
-    
-    // Validate that we have a safe filename
-    if (!safeFilename?.length) {
+    const text = await request.text();
+    if (Buffer.byteLength(text) > MAX_REQUEST_BYTES) {
       return NextResponse.json(
-        { success: false, error: "Invalid filename" },
-        { status: 400 },
+        { success: false, error: "Request body too large" },
+        { status: 413 },
       );
     }
 
-    // write file to /public/exports/
-    const exportDir = path.join(process.cwd(), "public", "exports");
-    const filePath = path.join(exportDir, safeFilename);
-    
-    // Additional security check: ensure resolved path is still within exportDir
-    const resolvedPath = path.resolve(filePath);
-    const resolvedExportDir = path.resolve(exportDir);
-    if (!resolvedPath.startsWith(resolvedExportDir)) {
+    const { meetingId, overwrite, ...options } = validateSaveExportInput(JSON.parse(text));
+
+    const record = await publishMeetingExport(meetingId, options, { overwrite });
+    if (!record) {
       return NextResponse.json(
-        { success: false, error: "Invalid file path" },
-        { status: 400 },
+        { success: false, error: "Meeting not found" },
+        { status: 404 },
       );
     }
 
-    fs.mkdirSync(exportDir, { recursive: true });
-    fs.writeFileSync(filePath, html, "utf8");
-
-    return NextResponse.json({ success: true, path: `/exports/${safeFilename}` });
+    return NextResponse.json({ success: true, path: `/exports/${record.filename}`, export: record });
   } catch (error) {
     console.error("Save failed", error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: "Invalid JSON" },
+        { status: 400 },
+      );
+    }
+    if (error instanceof Error && error.name === "ZodError") {
+      return NextResponse.json(
+        { success: false, error: "Invalid input", details: error.message },
+        { status: 400 },
+      );
+    }
+    if (error instanceof ExportExistsError) {
+      return NextResponse.json(
+        { success: false, error: error.message, filename: error.filename },
+        { status: 409 },
+      );
+    }
+    if (error instanceof ExportTooLargeError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 413 },
+      );
+    }
+    if (error instanceof EmptyExportError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 422 },
+      );
+    }
+
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
     return NextResponse.json(
       { success: false, error: errorMessage },
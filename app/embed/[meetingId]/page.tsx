@@ -0,0 +1,80 @@
+import { type Metadata } from "next";
+import { headers } from "next/headers";
+import { notFound } from "next/navigation";
+import EmbeddedGlobe from "../../../src/components/EmbeddedGlobe";
+import { anonymizePoints } from "~/lib/embed";
+import { EmbedQuerySchema } from "~/lib/validation";
+import { describeMeeting, getMeetingVisualization, getVisualizationStats } from "~/lib/visualization";
+
+interface EmbedPageProps {
+    params: Promise<{ meetingId: string }>;
+    searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+// Reads the store on every request
+export const dynamic = 'force-dynamic';
+
+/**
+ * Link preview for a shared embed URL, using the meeting's preview card
+ */
+export async function generateMetadata({ params }: EmbedPageProps): Promise<Metadata> {
+    const { meetingId } = await params;
+    const visualization = getMeetingVisualization(meetingId);
+    if (!visualization) {
+        return {};
+    }
+
+    // Preview images need an absolute URL; use the host the page was requested on
+    const requestHeaders = await headers();
+    const host = requestHeaders.get('x-forwarded-host') ?? requestHeaders.get('host');
+    const protocol = requestHeaders.get('x-forwarded-proto') ?? 'https';
+
+    const { meeting } = visualization;
+    const title = `${meeting.title} — ${meeting.date}`;
+    const description = describeMeeting(getVisualizationStats(visualization));
+    const image = `/api/meetings/${encodeURIComponent(meeting.id)}/export?format=og`;
+    return {
+        ...(host ? { metadataBase: new URL(`${protocol}://${host}`) } : {}),
+        title,
+        description,
+        openGraph: { title, description, images: [{ url: image, width: 1200, height: 630 }] },
+        twitter: { card: 'summary_large_image', title, description, images: [image] },
+    };
+}
+
+/**
+ * Embed Page - a meeting's globe with no page chrome, for iframes
+ *
+ * Query parameters (all optional; unknown values fall back to the default):
+ * - autoRotate: "false" to keep the globe still (default true)
+ * - theme: "dark" (default) or "light"
+ * - labels: "true" to print city names on the globe
+ * - hideNames: "true" to leave member names out of the page entirely
+ *
+ * Framing is allowed by the frame-ancestors header set in next.config.js.
+ * Host pages can push participants or fly the camera with postMessage - see
+ * src/lib/embed.ts for the protocol.
+ */
+export default async function EmbedPage({ params, searchParams }: EmbedPageProps) {
+    const { meetingId } = await params;
+    const visualization = getMeetingVisualization(meetingId);
+    if (!visualization) {
+        notFound();
+    }
+
+    // Repeated parameters: the first one wins
+    const query = Object.fromEntries(
+        Object.entries(await searchParams).map(([key, value]) => [key, Array.isArray(value) ? value[0] : value])
+    );
+    const options = EmbedQuerySchema.parse(query);
+    const points = options.hideNames ? anonymizePoints(visualization.points) : visualization.points;
+
+    return (
+        <main
+            className="h-screen w-screen overflow-hidden"
+            style={{ background: options.theme === 'light' ? '#f8fafc' : '#000000' }}
+        >
+            <EmbeddedGlobe meetingId={visualization.meeting.id} initialPoints={points} options={options} />
+        </main>
+    );
+}
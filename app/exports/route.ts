@@ -0,0 +1,25 @@
+import { renderExportGallery } from "~/lib/exportGallery";
+
+// Reads the manifest on every request
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /exports
+ * Gallery of published exports (public/exports/manifest.json)
+ *
+ * The static site gets the same page as exports/index.html, written by
+ * scripts/build-exports-index.ts during `npm run export`.
+ *
+ * Response: text/html
+ */
+export async function GET() {
+  try {
+    return new Response(renderExportGallery(undefined, { exportsUrl: '/exports/' }), {
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    });
+  } catch (error) {
+    console.error('Error rendering exports gallery:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(errorMessage, { status: 500 });
+  }
+}
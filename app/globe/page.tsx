@@ -1,12 +1,51 @@
 'use client';
 
-import { geocodeCity } from "~/lib/geocode";
 import MeetingGlobe from "../../src/components/MeetingGlobe";
+import { siteConfig } from "~/lib/siteConfig";
+import type { AmbiguousCity, CityOption } from "~/lib/cityCache";
+import type { CitySuggestion } from "~/lib/citySearch";
+import type { MeetingVisualization } from "~/lib/visualization";
 import { useState } from 'react';
 
 interface Participant {
     name: string;
     city: string;
+    region?: string;
+    country?: string;
+}
+
+/**
+ * A city as typed that isn't known, with the known cities it may mean
+ * choice is the picked suggestion's key, or '' to add the city as typed
+ * (it's geocoded when the meeting is saved).
+ */
+interface UnknownCity {
+    city: string;
+    participants: number[];
+    suggestions: CityOption[];
+    choice: string;
+    lookup?: 'searching' | 'found' | 'none' | 'unavailable';
+}
+
+/**
+ * Unknown cities to resolve before the meeting is saved
+ */
+interface CityCheck {
+    participants: Participant[];
+    cities: UnknownCity[];
+}
+
+/** Suggestions at least this close are picked for the user */
+const AUTO_PICK_SCORE = 0.8;
+
+/**
+ * Cities the server couldn't tell apart, with the user's pick for each
+ * (index into options), for the participants that were submitted
+ */
+interface Disambiguation {
+    participants: Participant[];
+    cities: AmbiguousCity[];
+    choices: number[];
 }
 
 /**
@@ -18,25 +57,36 @@ interface Participant {
  * 
  * User Workflow:
  * 1. Enter optional meeting name
- * 2. Add participants in "Name, City" format (one per line)
- * 3. Click "Render Globe" to create meeting and show visualization
- * 4. Click "Export Globe" to save as standalone HTML file
- * 5. Click "Clear" to reset and create another meeting
+ * 2. Add participants in "Name, City" format (one per line), or
+ *    "Name, City, Country" / "Name, City, Region, Country" to be specific
+ * 3. Click "Render Globe" to create meeting and show visualization; if a
+ *    city isn't known, pick a suggestion ("Talin" → Tallinn) or look it up
+ *    as a new place, and if a city name fits several places, pick the right
+ *    one and continue
+ * 4. Optionally tick "Shade countries" to color countries by attendee count
+ *    (the headline "N participants from X countries" is shown below the globe)
+ * 5. Click "Export Globe" to save as standalone HTML file
+ * 6. Click "Clear" to reset and create another meeting
  * 
  * Architecture:
- * - Client-side validation for unknown cities
  * - Server-side persistence via /api/meetings
+ * - Points, arcs, unknown cities and per-country counts from
+ *   /api/meetings/{id}/visualization
  * - Real-time 3D visualization with react-globe.gl
- * - Self-contained HTML exports with embedded coordinates
+ * - Self-contained HTML exports rendered by /api/meetings/{id}/export
  */
 export default function GlobePage() {
     // ===== Component State =====
-    const [unknownCities, setUnknownCities] = useState<string[]>([]);
     const [inputText, setInputText] = useState('');
-    const [participants, setParticipants] = useState<Participant[]>([]);
+    const [meetingId, setMeetingId] = useState<string | null>(null);
+    const [visualization, setVisualization] = useState<MeetingVisualization | null>(null);
     const [loading, setLoading] = useState(false);
     const [meetingName, setMeetingName] = useState('');
     const [lastExportUrl, setLastExportUrl] = useState<string | null>(null);
+    const [pendingCities, setPendingCities] = useState<string[]>([]);
+    const [disambiguation, setDisambiguation] = useState<Disambiguation | null>(null);
+    const [cityCheck, setCityCheck] = useState<CityCheck | null>(null);
+    const [showCountries, setShowCountries] = useState(false);
 
     // ===== Event Handlers =====
     
@@ -44,39 +94,75 @@ export default function GlobePage() {
      * Creates a new meeting with participants via API
      * 
      * Workflow:
-     * 1. Parse and validate participant input
-     * 2. Check for unknown cities (client-side)
+     * 1. Parse participant input (or take the ones waiting for a city pick)
+     * 2. Unless already checked, look for unknown cities and stop to let the
+     *    user resolve them
      * 3. POST to /api/meetings (server creates members + meeting)
-     * 4. Update state to trigger globe rendering
+     * 4. If a city is ambiguous (409), ask which one was meant and stop
+     * 5. Fetch the meeting's visualization (points, arcs, unknown cities)
+     * 6. Update state to trigger globe rendering
+     * 7. If new cities are still being geocoded, fetch it again until they're placed
      */
-    async function handleRender() {
+    async function handleRender(
+        participants: Participant[] = parseParticipantInput(inputText),
+        { checked = false }: { checked?: boolean } = {}
+    ) {
         setLoading(true);
         
-        const parsed = parseParticipantInput(inputText);
-        const missing = parsed.filter(p => !geocodeCity(p.city)).map(p => p.city);
-        setUnknownCities(missing);
+        const parsed = participants;
 
         try {
+            if (!checked) {
+                // Suggestions are a convenience: if the search fails, save as typed
+                const unknown = await findUnknownCities(parsed).catch((err: unknown) => {
+                    console.warn('City search failed:', err);
+                    return [];
+                });
+                if (unknown.length > 0) {
+                    setCityCheck({ participants: parsed, cities: unknown });
+                    return;
+                }
+            }
+
             const response = await fetch('/api/meetings', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
-                    title: meetingName || 'Untitled Meeting',
+                    title: meetingName || siteConfig.defaultMeetingTitle,
                     participants: parsed,
                 }),
             });
 
+            if (response.status === 409) {
+                const conflict = await response.json() as { ambiguousCities: AmbiguousCity[] };
+                setDisambiguation({
+                    participants: parsed,
+                    cities: conflict.ambiguousCities,
+                    choices: conflict.ambiguousCities.map(() => 0),
+                });
+                return;
+            }
+
             if (!response.ok) {
                 throw new Error(`Failed to create meeting: ${response.status}`);
             }
 
-            const data = await response.json() as { meeting: { id: string }; warnings?: string[] };
+            const data = await response.json() as {
+                meeting: { id: string };
+                warnings?: string[];
+                pendingCities?: string[];
+            };
             
             if (data.warnings?.length) {
                 console.warn('Meeting creation warnings:', data.warnings);
             }
 
-            setParticipants(parsed);
+            setDisambiguation(null);
+            setMeetingId(data.meeting.id);
+            setVisualization(await fetchVisualization(data.meeting.id));
+            if (data.pendingCities?.length) {
+                void waitForPendingCities(data.meeting.id, data.pendingCities);
+            }
         } catch (err) {
             console.error('Error creating meeting:', err);
             alert('Failed to create meeting. Please try again.');
@@ -85,39 +171,149 @@ export default function GlobePage() {
         }
     }
 
+    /**
+     * Continues with the cities picked for unknown ones
+     * A picked suggestion's key replaces the city of the participants using it;
+     * cities left as typed are geocoded by the server.
+     */
+    function handleUnknownCityChoices() {
+        if (!cityCheck) return;
+        const participants = [...cityCheck.participants];
+        for (const unknown of cityCheck.cities) {
+            if (!unknown.choice) continue;
+            for (const index of unknown.participants) {
+                const participant = participants[index];
+                if (participant) {
+                    participants[index] = { name: participant.name, city: unknown.choice };
+                }
+            }
+        }
+        setCityCheck(null);
+        void handleRender(participants, { checked: true });
+    }
+
+    /**
+     * Asks the geocoder about an unknown city and picks it if found
+     */
+    async function handleLookup(index: number) {
+        const unknown = cityCheck?.cities[index];
+        const participant = unknown && cityCheck.participants[unknown.participants[0]!];
+        if (!unknown || !participant) return;
+
+        const update = (changes: Partial<UnknownCity>) => setCityCheck(current => current && {
+            ...current,
+            cities: current.cities.map((city, i) => (i === index ? { ...city, ...changes } : city)),
+        });
+
+        update({ lookup: 'searching' });
+        try {
+            const result = await geocodeCity(participant);
+            if (result.found) {
+                update({
+                    lookup: 'found',
+                    suggestions: [result.city, ...unknown.suggestions.filter(option => option.key !== result.city.key)],
+                    choice: result.city.key,
+                });
+            } else {
+                update({ lookup: result.source === 'pending' ? 'unavailable' : 'none' });
+            }
+        } catch (err) {
+            console.warn('City lookup failed:', err);
+            update({ lookup: 'unavailable' });
+        }
+    }
+
+    /**
+     * Resubmits with the picked cities
+     * Each picked option's key replaces the ambiguous city of the participants using it.
+     */
+    function handleCityChoices() {
+        if (!disambiguation) return;
+        const participants = [...disambiguation.participants];
+        disambiguation.cities.forEach((ambiguous, i) => {
+            const option = ambiguous.options[disambiguation.choices[i] ?? 0];
+            if (!option) return;
+            for (const index of ambiguous.participants) {
+                const participant = participants[index];
+                if (participant) {
+                    participants[index] = { name: participant.name, city: option.key };
+                }
+            }
+        });
+        void handleRender(participants, { checked: true });
+    }
+
+    /**
+     * Re-fetches the visualization while the server geocodes new cities
+     * Stops once they're all placed, or after about 15 seconds.
+     */
+    async function waitForPendingCities(id: string, cities: string[]) {
+        setPendingCities(cities);
+        try {
+            for (let attempt = 0; attempt < 5; attempt++) {
+                await new Promise(resolve => setTimeout(resolve, 3000));
+                const refreshed = await fetchVisualization(id);
+                setVisualization(refreshed);
+                const unknown = new Set(refreshed.unknownCities.map(city => city.trim().toLowerCase()));
+                // Pending cities may carry a country ("Paris, US"); the visualization lists names
+                if (!cities.some(city => unknown.has(city.split(',')[0]!.trim().toLowerCase()))) {
+                    break;
+                }
+            }
+        } catch (err) {
+            console.warn('Could not refresh the visualization:', err);
+        } finally {
+            setPendingCities([]);
+        }
+    }
+
     /**
      * Exports current globe as standalone HTML file
      * 
      * Export Strategy:
-     * 1. Build self-contained HTML with embedded coordinates
-     * 2. Try to save to server (for GitHub Pages hosting)
-     * 3. Fall back to browser download if server save fails
+     * 1. Ask the server to render and publish it (for GitHub Pages hosting);
+     *    if that file name is taken, confirm before overwriting
+     * 2. Fall back to downloading the server-rendered HTML if publishing fails
      */
     async function handleExport() {
-        if (participants.length === 0) {
+        if (!meetingId || !visualization?.points.length) {
             alert('Nothing to export!');
             return;
         }
 
-        const { title, filename, exportPath } = buildExportMetadata(meetingName);
-        const html = buildGlobeHTML(participants, title);
-
         try {
-            await saveToServer(html, filename);
-            setLastExportUrl(exportPath);
-            alert(`✅ Saved to server: ${exportPath}`);
+            let saved = await saveToServer(meetingId, false);
+            if (saved.status === 'exists') {
+                if (!confirm(`${saved.filename} has already been exported. Overwrite it?`)) {
+                    return;
+                }
+                saved = await saveToServer(meetingId, true);
+            }
+            if (saved.status === 'saved') {
+                const exportPath = `${siteConfig.exportsUrl}${saved.filename}`;
+                setLastExportUrl(exportPath);
+                alert(`✅ Saved to server: ${exportPath}`);
+                return;
+            }
         } catch (err) {
             console.warn('Save to server failed, using browser download:', err);
+        }
+
+        try {
+            const { html, filename } = await fetchExport(meetingId);
             downloadInBrowser(html, filename);
-            setLastExportUrl(exportPath);
+            setLastExportUrl(`${siteConfig.exportsUrl}${filename}`);
             alert(`💾 Downloaded ${filename}`);
+        } catch (err) {
+            console.error('Error rendering export:', err);
+            alert('Failed to render export. Please try again.');
         }
     }
 
     // ===== Render =====
     return (
         <main className="flex flex-col items-center justify-center min-h-screen bg-gray-950 text-white p-4">
-            <h1 className="text-3xl font-bold mb-4">🌍 Global Presence Map</h1>
+            <h1 className="text-3xl font-bold mb-4">🌍 {siteConfig.communityName}</h1>
             
             {/* Meeting Name Input */}
             <input
@@ -132,14 +328,103 @@ export default function GlobePage() {
             <textarea
                 value={inputText}
                 onChange={(e) => setInputText(e.target.value)}
-                placeholder="Paste your members here: e.g. Lewis, Taipei"
+                placeholder="Paste your members here: e.g. Lewis, Taipei (or Lewis, Paris, France)"
                 className="w-full max-w-xl h-48 p-3 rounded bg-gray-800 text-white mb-4"
             />
+
+            {/* Unknown Cities */}
+            {cityCheck && (
+                <div className="w-full max-w-xl mb-4 p-3 rounded bg-gray-800 border border-red-400">
+                    <p className="mb-2">Some cities aren&apos;t known yet. Pick what you meant, or look them up as new places.</p>
+                    {cityCheck.cities.map((unknown, i) => (
+                        <div key={unknown.city} className="flex items-center gap-2 mb-2">
+                            <span className="w-40 truncate">{unknown.city}</span>
+                            <select
+                                value={unknown.choice}
+                                onChange={(e) => setCityCheck({
+                                    ...cityCheck,
+                                    cities: cityCheck.cities.map((city, j) => (j === i ? { ...city, choice: e.target.value } : city)),
+                                })}
+                                className="flex-1 p-1 rounded bg-gray-700 text-white"
+                            >
+                                {unknown.suggestions.map(option => (
+                                    <option key={option.key} value={option.key}>{describeCityOption(option)}</option>
+                                ))}
+                                <option value="">Add &quot;{unknown.city}&quot; as a new place</option>
+                            </select>
+                            <button
+                                onClick={() => void handleLookup(i)}
+                                disabled={unknown.lookup === 'searching'}
+                                className="bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded disabled:opacity-50"
+                            >
+                                Look up
+                            </button>
+                            {unknown.lookup && (
+                                <span className="text-sm text-gray-400 w-24">{LOOKUP_STATUS[unknown.lookup]}</span>
+                            )}
+                        </div>
+                    ))}
+                    <div className="flex gap-4">
+                        <button
+                            onClick={handleUnknownCityChoices}
+                            disabled={loading}
+                            className="bg-orange-500 hover:bg-orange-600 text-white px-4 py-1 rounded disabled:opacity-50"
+                        >
+                            Continue
+                        </button>
+                        <button
+                            onClick={() => setCityCheck(null)}
+                            className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-1 rounded"
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* City Disambiguation */}
+            {disambiguation && (
+                <div className="w-full max-w-xl mb-4 p-3 rounded bg-gray-800 border border-orange-500">
+                    <p className="mb-2">Some cities match more than one place. Which one did you mean?</p>
+                    {disambiguation.cities.map((ambiguous, i) => (
+                        <label key={ambiguous.city} className="flex items-center gap-2 mb-2">
+                            <span className="w-40 truncate">{ambiguous.city}</span>
+                            <select
+                                value={disambiguation.choices[i] ?? 0}
+                                onChange={(e) => setDisambiguation({
+                                    ...disambiguation,
+                                    choices: disambiguation.choices.map((choice, j) => (j === i ? Number(e.target.value) : choice)),
+                                })}
+                                className="flex-1 p-1 rounded bg-gray-700 text-white"
+                            >
+                                {ambiguous.options.map((option, j) => (
+                                    <option key={option.key} value={j}>{describeCityOption(option)}</option>
+                                ))}
+                            </select>
+                        </label>
+                    ))}
+                    <div className="flex gap-4">
+                        <button
+                            onClick={handleCityChoices}
+                            disabled={loading}
+                            className="bg-orange-500 hover:bg-orange-600 text-white px-4 py-1 rounded disabled:opacity-50"
+                        >
+                            Continue
+                        </button>
+                        <button
+                            onClick={() => setDisambiguation(null)}
+                            className="bg-gray-700 hover:bg-gray-600 text-white px-4 py-1 rounded"
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            )}
             
             {/* Action Buttons */}
             <div className="flex gap-4">
                 <button
-                    onClick={handleRender}
+                    onClick={() => void handleRender()}
                     disabled={loading}
                     className="bg-orange-500 hover:bg-orange-600 text-white px-6 py-2 rounded disabled:opacity-50"
                 >
@@ -148,9 +433,11 @@ export default function GlobePage() {
                 <button
                     onClick={() => {
                         setInputText('');
-                        setParticipants([]);
-                        setUnknownCities([]);
+                        setMeetingId(null);
+                        setVisualization(null);
                         setMeetingName('');
+                        setDisambiguation(null);
+                        setCityCheck(null);
                     }}
                     className="bg-gray-700 hover:bg-gray-600 text-white px-6 py-2 rounded"
                 >
@@ -158,16 +445,16 @@ export default function GlobePage() {
                 </button>
                 <button
                     onClick={handleExport}
-                    disabled={participants.length === 0}
+                    disabled={!visualization?.points.length}
                     className="bg-green-600 hover:bg-green-700 text-white px-6 py-2 rounded disabled:opacity-50"
                 >
                     Export Globe
                 </button>
             </div>
 
-            {/* Export Link */}
-            {lastExportUrl && (
-                <div className="mt-6">
+            {/* Export Links */}
+            <div className="mt-6 flex gap-6">
+                {lastExportUrl && (
                     <a
                         href={lastExportUrl}
                         target="_blank"
@@ -176,22 +463,66 @@ export default function GlobePage() {
                     >
                         🌍 View Last Exported Globe
                     </a>
-                </div>
-            )}
+                )}
+                <a
+                    href={siteConfig.exportsUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-gray-400 hover:text-gray-300 underline"
+                >
+                    🗂️ Browse All Exports
+                </a>
+            </div>
 
             {/* Globe Visualization */}
-            {participants.length > 0 && (
+            {visualization && visualization.points.length > 0 && (
                 <div className="flex w-full justify-center mt-6">
                     <div className="w-full max-w-5xl aspect-video sm:aspect-[16/9] rounded-lg overflow-hidden shadow-lg">
-                        <MeetingGlobe participants={participants} />
+                        <MeetingGlobe
+                            points={visualization.points}
+                            arcs={visualization.arcs}
+                            countries={showCountries ? visualization.countries : null}
+                        />
                     </div>
                 </div>
             )}
+
+            {/* Countries */}
+            {visualization && visualization.countries.length > 0 && (
+                <div className="w-full max-w-5xl mt-4">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                        <p className="text-lg font-semibold">{describeCountries(visualization)}</p>
+                        <label className="flex items-center gap-2 text-sm text-gray-300">
+                            <input
+                                type="checkbox"
+                                checked={showCountries}
+                                onChange={(e) => setShowCountries(e.target.checked)}
+                            />
+                            Shade countries
+                        </label>
+                    </div>
+                    <p className="text-sm text-gray-400 mt-1">
+                        {visualization.countries.map(country => `${country.name} ${country.count}`).join(' · ')}
+                    </p>
+                    {visualization.continents.length > 1 && (
+                        <p className="text-sm text-gray-400 mt-1">
+                            {visualization.continents.map(continent => `${continent.continent} ${continent.count}`).join(' · ')}
+                        </p>
+                    )}
+                </div>
+            )}
             
+            {/* Cities Still Being Geocoded */}
+            {pendingCities.length > 0 && (
+                <p className="text-gray-400 mt-2">
+                    Locating {pendingCities.join(', ')}…
+                </p>
+            )}
+
             {/* Unknown Cities Warning */}
-            {unknownCities.length > 0 && (
+            {visualization && visualization.unknownCities.length > 0 && pendingCities.length === 0 && (
                 <p className="text-red-400 mt-2">
-                    Unknown cities: {unknownCities.join(', ')} — Run `npm run fill-cities` to add them automatically
+                    Unknown cities: {visualization.unknownCities.join(', ')} — Check the spelling, or run `npm run fill-cities` to retry them
                 </p>
             )}
         </main>
@@ -204,162 +535,148 @@ export default function GlobePage() {
 
 /**
  * Parses participant input text into structured format
- * Expected format: "Name, City" on each line
+ * Expected format on each line: "Name, City", "Name, City, Country" or
+ * "Name, City, Region, Country" (country as a code or a name)
  */
 function parseParticipantInput(inputText: string): Participant[] {
     return inputText
         .trim()
         .split('\n')
         .map(line => {
-            const [name, city] = line.split(',').map(s => s.trim());
+            const [name, city, ...rest] = line.split(',').map(s => s.trim()).filter(Boolean);
             if (!name || !city) return null;
-            return { name, city };
+            const country = rest.pop();
+            const region = rest.join(', ');
+            return { name, city, ...(region ? { region } : {}), ...(country ? { country } : {}) };
         })
         .filter((p): p is Participant => p !== null);
 }
 
 /**
- * Builds export metadata (title, filename, path)
+ * Headline for the country counts, e.g. "12 participants from 6 countries"
  */
-function buildExportMetadata(meetingName: string) {
-    const now = new Date();
-    const dateStr = now.toISOString().split('T')[0]!;
-    const title = meetingName || 'Untitled Meeting';
-    const safeName = title.replace(/\s+/g, '-');
-    const filename = `${safeName}-${dateStr}.html`;
-    const exportPath = `https://newman5.github.io/Global-Presence-Map/exports/${filename}`;
-    
-    return { title, filename, exportPath, dateStr };
+function describeCountries({ countries }: MeetingVisualization): string {
+    const total = countries.reduce((sum, country) => sum + country.count, 0);
+    const participants = `${total} ${total === 1 ? 'participant' : 'participants'}`;
+    return `${participants} from ${countries.length} ${countries.length === 1 ? 'country' : 'countries'}`;
 }
 
 /**
- * Builds standalone HTML file with embedded globe visualization
- * Resolves coordinates at export time for self-contained file
+ * Label for a city choice, e.g. "Paris, TX, US" or "New York, US (NYC)"
  */
-function buildGlobeHTML(participants: Participant[], title: string): string {
-    const { dateStr } = buildExportMetadata(title);
-    const points = buildGlobePoints(participants);
-    
-    if (points.length === 0) {
-        throw new Error('No valid cities to export');
-    }
+function describeCityOption(option: CityOption & { alias?: string }): string {
+    const label = [option.displayName, option.region, option.countryCode].filter(Boolean).join(', ');
+    return option.alias ? `${label} (${option.alias})` : label;
+}
 
-    return `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="utf-8" />
-  <title>${title}</title>
-  <meta name="viewport" content="width=device-width, initial-scale=1" />
-  <style>
-    html, body {
-      margin: 0;
-      height: 100%;
-      background: black;
-      display: flex;
-      flex-direction: column;
-    }
-    .container {
-      position: relative;
-      display: flex;
-      flex: 1 1 auto;
-      align-items: stretch;
-      justify-content: center;
-      min-height: 0;
-    }
-    #globe {
-      width: 100%;
-      height: 100%;
-      max-height: 100dvh;
-      min-height: 40vh;
-      overflow: hidden;
-      flex: 1 1 auto;
-      position: relative;
-    }
-    .overlay {
-      position: absolute;
-      top: 12px;
-      left: 12px;
-      color: white;
-      font-family: sans-serif;
-      font-weight: bold;
-      background: rgba(0,0,0,0.35);
-      padding: 6px 8px;
-      border-radius: 6px;
-      z-index: 2;
-      font-size: clamp(12px, 2.5vw, 16px);
-      pointer-events: none;
-    }
-    @media (max-width: 420px) {
-      .overlay { left: 8px; top: 8px; padding: 4px 6px; }
-      #globe { min-height: 50vh; }
+const LOOKUP_STATUS: Record<NonNullable<UnknownCity['lookup']>, string> = {
+    searching: 'Looking…',
+    found: 'Found',
+    none: 'Not found',
+    unavailable: 'Try later',
+};
+
+/**
+ * Finds the participants' cities that aren't known, with suggestions
+ * Participants typing the same city share one entry.
+ */
+async function findUnknownCities(participants: Participant[]): Promise<UnknownCity[]> {
+    const uses = new Map<string, number[]>();
+    participants.forEach((participant, i) => {
+        const key = [participant.city, participant.region, participant.country].join('|').toLowerCase();
+        uses.set(key, [...(uses.get(key) ?? []), i]);
+    });
+
+    const checked = await Promise.all([...uses.values()].map(async (indexes): Promise<UnknownCity | null> => {
+        const participant = participants[indexes[0]!]!;
+        const params = new URLSearchParams({ q: participant.city });
+        if (participant.region) params.set('region', participant.region);
+        if (participant.country) params.set('country', participant.country);
+
+        const response = await fetch(`/api/cities/search?${params.toString()}`);
+        // e.g. an unknown country: leave it for the meeting request to report
+        if (!response.ok) return null;
+        const result = await response.json() as { known: boolean; suggestions: CitySuggestion[] };
+        if (result.known) return null;
+
+        const best = result.suggestions[0];
+        return {
+            city: [participant.city, participant.region, participant.country].filter(Boolean).join(', '),
+            participants: indexes,
+            suggestions: result.suggestions,
+            choice: best && best.score >= AUTO_PICK_SCORE ? best.key : '',
+        };
+    }));
+    return checked.filter((city): city is UnknownCity => city !== null);
+}
+
+/**
+ * Asks the server to geocode a city (saved for later lookups if found)
+ */
+async function geocodeCity(
+    participant: Participant
+): Promise<{ found: true; city: CityOption } | { found: false; source: string }> {
+    const response = await fetch('/api/cities/geocode', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ city: participant.city, region: participant.region, country: participant.country }),
+    });
+    if (!response.ok) {
+        throw new Error(`City lookup failed with ${response.status}`);
     }
-  </style>
-  <script src="https://unpkg.com/globe.gl"></script>
-</head>
-<body>
-  <section class="container">
-    <div id="globe"></div>
-    <div class="overlay">${title} — ${dateStr}</div>
-  </section>
-  <script>
-    const points = ${JSON.stringify(points)};
-    const arcs = [];
-    for (let i = 0; i < points.length; i++) {
-      for (let j = i + 1; j < points.length; j++) {
-        arcs.push({
-          startLat: points[i].lat,
-          startLng: points[i].lng,
-          endLat: points[j].lat,
-          endLng: points[j].lng,
-          color: ['#ffaa00', '#ff6600']
-        });
-      }
+    return await response.json() as { found: true; city: CityOption } | { found: false; source: string };
+}
+
+/**
+ * Fetches a meeting's points, arcs and unknown cities
+ */
+async function fetchVisualization(meetingId: string): Promise<MeetingVisualization> {
+    const response = await fetch(`/api/meetings/${meetingId}/visualization`);
+    if (!response.ok) {
+        throw new Error(`Failed to load visualization: ${response.status}`);
     }
-    const globe = Globe()
-      .globeImageUrl('https://unpkg.com/three-globe/example/img/earth-blue-marble.jpg')
-      .backgroundImageUrl('https://unpkg.com/three-globe/example/img/night-sky.png')
-      .pointsData(points).pointColor('color').pointLabel('label')
-      .arcsData(arcs).arcColor('color').arcAltitude(0.2).arcDashLength(0.5).arcDashGap(0.02).arcDashAnimateTime(3000);
-    globe(document.getElementById('globe'));
-  </script>
-</body>
-</html>`;
+    return await response.json() as MeetingVisualization;
 }
 
 /**
- * Converts participants to globe point data with coordinates
- * Filters out participants with unknown cities
+ * Fetches the server-rendered standalone HTML for a meeting
+ * The file name comes from the Content-Disposition header.
  */
-function buildGlobePoints(participants: Participant[]) {
-    return participants
-        .map(p => {
-            const coords = geocodeCity(p.city);
-            if (!coords || isNaN(coords.lat) || isNaN(coords.lng)) {
-                return null;
-            }
-            return {
-                lat: coords.lat,
-                lng: coords.lng,
-                label: `${p.name} (${p.city})`,
-                color: 'green'
-            };
-        })
-        .filter((p): p is NonNullable<typeof p> => p !== null);
+async function fetchExport(meetingId: string): Promise<{ html: string; filename: string }> {
+    const response = await fetch(`/api/meetings/${meetingId}/export`);
+    if (!response.ok) {
+        throw new Error(`Export failed with ${response.status}`);
+    }
+
+    const disposition = response.headers.get('Content-Disposition') ?? '';
+    const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `${meetingId}.html`;
+    return { html: await response.text(), filename };
 }
 
 /**
- * Saves HTML file to server via API
+ * Asks the server to render and publish a meeting's export
+ * "exists" means the file is already published and overwrite wasn't set.
  */
-async function saveToServer(html: string, filename: string): Promise<void> {
+async function saveToServer(
+    meetingId: string,
+    overwrite: boolean
+): Promise<{ status: 'saved' | 'exists'; filename: string }> {
     const response = await fetch('/api/save-meeting', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ html, filename }),
+        body: JSON.stringify({ meetingId, overwrite }),
     });
 
+    if (response.status === 409) {
+        const data = await response.json() as { filename: string };
+        return { status: 'exists', filename: data.filename };
+    }
     if (!response.ok) {
         throw new Error(`Server responded with ${response.status}`);
     }
+
+    const data = await response.json() as { export: { filename: string } };
+    return { status: 'saved', filename: data.export.filename };
 }
 
 /**
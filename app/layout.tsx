@@ -3,12 +3,17 @@ import "~/styles/globals.css";
 import { type Metadata } from "next";
 // import { Geist } from "next/font/google";
 
+import { siteConfig } from "~/lib/siteConfig";
 import { TRPCReactProvider } from "~/trpc/react";
 
+const description = "See where your meeting's participants are, on a 3D globe";
+
 export const metadata: Metadata = {
-  title: "Create T3 App",
-  description: "Generated by create-t3-app",
+  title: siteConfig.communityName,
+  description,
   icons: [{ rel: "icon", url: "/favicon.ico" }],
+  openGraph: { type: "website", siteName: siteConfig.communityName, title: siteConfig.communityName, description },
+  twitter: { card: "summary", title: siteConfig.communityName, description },
 };
 
 // const geist = Geist({
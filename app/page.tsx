@@ -1,4 +1,5 @@
 import Link from "next/link";
+import { siteConfig } from "~/lib/siteConfig";
 
 
 export default async function Home() {
@@ -8,7 +9,7 @@ export default async function Home() {
       <main className="flex min-h-screen flex-col items-center justify-center bg-gradient-to-b from-[#2e026d] to-[#15162c] text-white">
         <div className="container flex flex-col items-center justify-center gap-12 px-4 py-16">
           <h1 className="text-3xl font-extrabold tracking-tight sm:text-[5rem]">
-            Global Presence Map
+            {siteConfig.communityName}
           </h1>
         <h3 className="text-xl">A visualization of global presence in community</h3>
           <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 md:gap-8">
@@ -19,6 +20,18 @@ export default async function Home() {
               <h3 className="text-2xl font-bold">View Globe →</h3>
 
             </Link>
+            <Link
+              className="flex max-w-xs flex-col gap-4 rounded-xl bg-white/10 p-4 hover:bg-white/20"
+              href="/admin/members"
+            >
+              <h3 className="text-2xl font-bold">Manage Members →</h3>
+            </Link>
+            <Link
+              className="flex max-w-xs flex-col gap-4 rounded-xl bg-white/10 p-4 hover:bg-white/20"
+              href="/admin/cities"
+            >
+              <h3 className="text-2xl font-bold">Manage Cities →</h3>
+            </Link>
 
           </div>
         
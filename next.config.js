@@ -1,17 +1,51 @@
 import 'dotenv/config';
+import fs from 'fs';
+// Validates the environment at build and start (see src/env.js)
+import { env } from './src/env.js';
 
-const isExport =
-    process.env.NEXT_PUBLIC_EXPORT_MODE === 'true' ||
-    process.env.EXPORT_MODE === 'true';
+const isExport = env.NEXT_PUBLIC_EXPORT_MODE === 'true' || env.EXPORT_MODE === 'true';
+
+/**
+ * Site settings (validated by src/lib/siteConfig.ts, which the app loads)
+ */
+const site = JSON.parse(fs.readFileSync(new URL('./site.config.json', import.meta.url), 'utf8'));
+
+/** The static site is served under the path of the public URL */
+const basePath = new URL(env.NEXT_PUBLIC_SITE_URL || site.publicUrl).pathname.replace(/\/+$/, '');
+
+/**
+ * Sites allowed to put /embed/* in an iframe (CSP frame-ancestors syntax,
+ * space-separated). Every other page may only be framed by the app itself.
+ */
+const embedFrameAncestors = env.EMBED_FRAME_ANCESTORS || site.embedFrameAncestors || '*';
 
 const config = {
     ...(isExport
         ? {
             output: 'export',
-            basePath: '/Global-Presence-Map',
-            assetPrefix: '/Global-Presence-Map/',
+            basePath,
+            assetPrefix: `${basePath}/`,
         }
-        : {}),
+        : {
+            // Static hosting can't send headers (and has no /embed route)
+            async headers() {
+                return [
+                    {
+                        source: '/embed/:path*',
+                        headers: [
+                            { key: 'Content-Security-Policy', value: `frame-ancestors ${embedFrameAncestors}` },
+                        ],
+                    },
+                    {
+                        source: '/((?!embed/).*)',
+                        headers: [
+                            { key: 'Content-Security-Policy', value: "frame-ancestors 'self'" },
+                            { key: 'X-Frame-Options', value: 'SAMEORIGIN' },
+                        ],
+                    },
+                ];
+            },
+        }),
 };
 
 export default config;
@@ -0,0 +1,21 @@
+// scripts/build-exports-index.ts
+/**
+ * Writes the exports gallery into the static site
+ *
+ * Usage (run by `npm run export` after `next build`):
+ *   tsx scripts/build-exports-index.ts            # writes out/exports/index.html
+ *   tsx scripts/build-exports-index.ts <dir>      # writes <dir>/index.html
+ *
+ * The page is built from public/exports/manifest.json, the same as /exports
+ * in the running app. Links are relative, so it works under any base path.
+ */
+import fs from "fs";
+import path from "path";
+import { renderExportGallery } from "../src/lib/exportGallery";
+
+const outputDir = process.argv[2] ?? path.join(process.cwd(), "out", "exports");
+
+fs.mkdirSync(outputDir, { recursive: true });
+const outPath = path.join(outputDir, "index.html");
+fs.writeFileSync(outPath, renderExportGallery());
+console.log(`✅ Exports gallery: ${outPath}`);
@@ -1,16 +1,23 @@
 #!/usr/bin/env node
 /**
- * Cleanup after static export by restoring the API directory
+ * Cleanup after static export by restoring the server-only directories
  */
 
 const fs = require('fs');
 const path = require('path');
 
-const apiDir = path.join(__dirname, '..', 'app', 'api');
-const apiDirBackup = path.join(__dirname, '..', '.api-backup');
+const root = path.join(__dirname, '..');
+const SERVER_ONLY_DIRS = [
+  { dir: path.join(root, 'app', 'api'), backup: path.join(root, '.api-backup') },
+  { dir: path.join(root, 'app', 'embed'), backup: path.join(root, '.embed-backup') },
+  { dir: path.join(root, 'app', 'exports'), backup: path.join(root, '.exports-backup') },
+];
 
-if (fs.existsSync(apiDirBackup) && !fs.existsSync(apiDir)) {
-  console.log('🔄 Restoring API directory after export...');
-  fs.renameSync(apiDirBackup, apiDir);
-  console.log('✅ API directory restored');
+for (const { dir, backup } of SERVER_ONLY_DIRS) {
+  if (fs.existsSync(backup) && !fs.existsSync(dir)) {
+    const name = path.relative(root, dir);
+    console.log(`🔄 Restoring ${name} after export...`);
+    fs.renameSync(backup, dir);
+    console.log(`✅ ${name} restored`);
+  }
 }
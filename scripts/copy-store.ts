@@ -0,0 +1,37 @@
+// scripts/copy-store.ts
+/**
+ * Copies members, meetings and geocoded cities from one storage backend to another
+ *
+ * Usage:
+ *   npm run copy-store                 # JSON (DATA_DIR) -> SQLite (SQLITE_PATH)
+ *   npm run copy-store -- --to-json    # SQLite -> JSON
+ *
+ * The target is overwritten: its members are replaced and every source
+ * meeting and city is saved (existing target meetings and cities with other
+ * names are kept).
+ */
+import { createStores, getStoreConfig } from "../src/lib/store";
+
+const toJson = process.argv.includes("--to-json");
+const config = getStoreConfig();
+
+const source = createStores({ ...config, kind: toJson ? "sqlite" : "json" });
+const target = createStores({ ...config, kind: toJson ? "json" : "sqlite" });
+
+const members = source.members.list();
+target.members.replaceAll(members);
+
+const meetings = source.meetings.list();
+for (const meeting of meetings) {
+  target.meetings.save(meeting);
+}
+
+const cities = source.cities.list();
+for (const city of cities) {
+  target.cities.upsert(city);
+}
+
+const from = toJson ? config.sqlitePath : config.dataDir;
+const to = toJson ? config.dataDir : config.sqlitePath;
+console.log(`✅ Copied ${members.length} members, ${meetings.length} meetings and ${cities.length} cities`);
+console.log(`   ${from} -> ${to}`);
@@ -0,0 +1,48 @@
+// scripts/doctor.ts
+/**
+ * Checks the data files for consistency problems
+ *
+ * Usage:
+ *   npm run doctor            # report issues (exit code 1 if any are errors)
+ *   npm run doctor -- --fix   # also apply safe repairs, then re-check
+ *
+ * Safe repairs: dropping exact duplicate member records, removing unknown or
+ * repeated participant IDs from meetings, and pruning old *.bak.* files.
+ * Everything else is reported for a person to resolve.
+ */
+import { checkHealth, repairHealth, type HealthReport } from "../src/lib/doctor";
+
+const fix = process.argv.includes("--fix");
+
+function printReport(report: HealthReport) {
+  const { members, meetings, backups } = report.counts;
+  console.log(`Checked ${members} members, ${meetings} meetings, ${backups} backup files\n`);
+
+  if (report.issues.length === 0) {
+    console.log("✅ No issues found.");
+    return;
+  }
+
+  for (const issue of report.issues) {
+    const icon = issue.severity === "error" ? "❌" : "⚠️ ";
+    console.log(`${icon} [${issue.code}] ${issue.message}${issue.fixable ? " (fixable)" : ""}`);
+  }
+
+  const fixable = report.issues.filter(issue => issue.fixable).length;
+  if (fixable > 0 && !fix) {
+    console.log(`\n${fixable} issue(s) can be repaired with: npm run doctor -- --fix`);
+  }
+}
+
+let report = checkHealth();
+
+if (fix && report.issues.some(issue => issue.fixable)) {
+  const repairs = repairHealth(report);
+  console.log("🔧 Repairs:");
+  repairs.forEach(repair => console.log(`  ${repair}`));
+  console.log();
+  report = checkHealth();
+}
+
+printReport(report);
+process.exit(report.ok ? 0 : 1);
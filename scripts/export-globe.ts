@@ -1,78 +1,128 @@
 // scripts/export-globe.ts
+/**
+ * Exports a stored meeting as a standalone HTML globe
+ *
+ * Usage:
+ *   npm run export-globe -- <meetingId>                  # write exports/{Title}-{date}.html
+ *   npm run export-globe -- <meetingId> --auto-rotate    # spinning globe
+ *   npm run export-globe -- <meetingId> --no-title       # hide the title overlay
+ *   npm run export-globe -- <meetingId> --offline        # inline library + textures (no network needed)
+ *   npm run export-globe -- <meetingId> --offline --low-res  # smaller offline file
+ *   npm run export-globe -- <meetingId> --publish [--overwrite]  # publish to the exports directory + gallery
+ *   npm run export-globe -- <meetingId> --format geojson [--arcs]  # also: kml, csv
+ *   npm run export-globe -- <meetingId> --format png [--orthographic]  # also: svg
+ *   npm run export-globe -- <meetingId> --format og      # link preview card (PNG)
+ *   npm run export-globe                                 # list recent meetings
+ *
+ * Uses the same renderers as GET /api/meetings/{id}/export, so the file is
+ * identical to what the globe page's Export button (or ?format=...) produces.
+ */
 import fs from "fs";
 import path from "path";
+import { renderMeetingDataExport, type DataExportFormat } from "../src/lib/exportFormats";
+import { defaultExportDir, ExportExistsError, publishMeetingExport } from "../src/lib/exportPublisher";
+import { EmptyExportError, renderMeetingExport, type ExportOptions } from "../src/lib/exportRenderer";
+import { renderMeetingMap } from "../src/lib/mapRenderer";
+import { listMeetings } from "../src/lib/meetings";
+import { renderMeetingOgImage } from "../src/lib/ogImage";
 
-// Path to your meeting data
-const dataPath = path.join(process.cwd(), "src", "data", "sample-meeting.json");
-const data = JSON.parse(fs.readFileSync(dataPath, "utf8"));
+const FORMATS = ["html", "geojson", "kml", "csv", "svg", "png", "og"];
 
-const titleSafe = data.title?.replace(/\s+/g, "-") ?? "meeting";
-const filename = `${titleSafe}-${data.date}.html`;
+const args = process.argv.slice(2);
+const formatIndex = args.indexOf("--format");
+const format = formatIndex >= 0 ? args[formatIndex + 1] : "html";
+const meetingId = args.find((arg, i) => !arg.startsWith("--") && !(formatIndex >= 0 && i === formatIndex + 1));
 
-// --- HTML template ---
-const html = `
-<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="utf-8" />
-  <title>${data.title}</title>
-  <meta name="viewport" content="width=device-width, initial-scale=1" />
-  <style>
-    html,body { margin:0; height:100%; background:black; }
-    #globe { width:100vw; height:100vh; overflow:hidden; }
-  </style>
-  <script src="https://unpkg.com/three"></script>
-  <script src="https://unpkg.com/globe.gl"></script>
-</head>
-<body>
-  <div id="globe"></div>
-  <script>
-    const meeting = ${JSON.stringify(data)};
+if (!meetingId || !format || !FORMATS.includes(format)) {
+  console.log("Usage: npm run export-globe -- <meetingId> [--auto-rotate] [--no-title] [--offline [--low-res]]");
+  console.log(`       npm run export-globe -- <meetingId> --publish [--overwrite] [globe options]`);
+  console.log(`       npm run export-globe -- <meetingId> --format geojson|kml|csv [--arcs]`);
+  console.log(`       npm run export-globe -- <meetingId> --format svg|png [--orthographic] [--no-title]`);
+  console.log(`       npm run export-globe -- <meetingId> --format og\n`);
+  const recent = listMeetings().slice(0, 10);
+  if (recent.length > 0) {
+    console.log("Recent meetings:");
+    recent.forEach(meeting => console.log(`  ${meeting.id}  ${meeting.date}  ${meeting.title}`));
+  }
+  process.exit(1);
+}
 
-    const points = meeting.participants.map(p => ({
-      lat: p.lat,
-      lng: p.lng,
-      label: p.name + ' (' + p.city + ')',
-      color: 'orange'
-    }));
+const globeOptions: ExportOptions = {
+  autoRotate: args.includes("--auto-rotate"),
+  showTitle: !args.includes("--no-title"),
+  offline: args.includes("--offline"),
+  textures: args.includes("--low-res") ? "low" : "full",
+};
 
-    const arcs = [];
-    for (let i = 0; i < points.length; i++) {
-      for (let j = i + 1; j < points.length; j++) {
-        arcs.push({
-          startLat: points[i].lat,
-          startLng: points[i].lng,
-          endLat: points[j].lat,
-          endLng: points[j].lng,
-          color: ['#ffaa00', '#ff6600']
-        });
-      }
-    }
+/**
+ * Publishes the globe like the globe page's Export button does
+ * (exports directory + manifest, so it shows up in the exports gallery)
+ */
+async function publish(id: string) {
+  const record = await publishMeetingExport(id, globeOptions, { overwrite: args.includes("--overwrite") });
+  if (!record) {
+    console.error(`❌ Meeting not found: ${id}`);
+    process.exit(1);
+  }
+  const published = path.relative(process.cwd(), path.join(defaultExportDir(), record.filename));
+  console.log(`✅ Published: ${published} (preview card: ${record.image})`);
+}
 
-    const globe = Globe()
-      .globeImageUrl('//unpkg.com/three-globe/example/img/earth-blue-marble.jpg')
-      .backgroundImageUrl('//unpkg.com/three-globe/example/img/night-sky.png')
-      .pointsData(points)
-      .pointColor('color')
-      .pointLabel('label')
-      .pointAltitude(0.3)
-      .arcsData(arcs)
-      .arcColor('color')
-      .arcAltitude(0.2)
-      .arcDashLength(0.5)
-      .arcDashGap(0.02)
-      .arcDashAnimateTime(3000);
+/**
+ * Renders the requested format as { filename, content, unknownCities }
+ */
+async function render(id: string) {
+  if (format === "og") {
+    const card = await renderMeetingOgImage(id);
+    return card && { filename: card.filename, content: card.body, unknownCities: card.unknownCities };
+  }
+  if (format === "svg" || format === "png") {
+    const image = await renderMeetingMap(id, format, {
+      projection: args.includes("--orthographic") ? "orthographic" : "equirectangular",
+      showTitle: !args.includes("--no-title"),
+    });
+    return image && { filename: image.filename, content: image.body, unknownCities: image.unknownCities };
+  }
+  if (format !== "html") {
+    const data = renderMeetingDataExport(id, format as DataExportFormat, { arcs: args.includes("--arcs") });
+    return data && { filename: data.filename, content: data.body, unknownCities: data.unknownCities };
+  }
 
-    globe(document.getElementById('globe'));
-  </script>
-</body>
-</html>
-`;
+  const result = renderMeetingExport(id, globeOptions);
+  return result && { filename: result.filename, content: result.html, unknownCities: result.unknownCities };
+}
 
-const outputDir = path.join(process.cwd(), "exports");
-if (!fs.existsSync(outputDir)) fs.mkdirSync(outputDir);
+try {
+  if (args.includes("--publish")) {
+    await publish(meetingId);
+    process.exit(0);
+  }
 
-const outPath = path.join(outputDir, filename);
-fs.writeFileSync(outPath, html);
+  const result = await render(meetingId);
+  if (!result) {
+    console.error(`❌ Meeting not found: ${meetingId}`);
+    process.exit(1);
+  }
 
-console.log(`✅ Exported globe: ${outPath}`);
+  const outputDir = path.join(process.cwd(), "exports");
+  fs.mkdirSync(outputDir, { recursive: true });
+
+  const outPath = path.join(outputDir, result.filename);
+  fs.writeFileSync(outPath, result.content);
+
+  const size = (Buffer.byteLength(result.content) / 1024).toFixed(0);
+  console.log(`✅ Exported ${format} (${size} KB): ${outPath}`);
+  if (result.unknownCities.length > 0) {
+    console.warn(`⚠️  No coordinates for: ${result.unknownCities.join(", ")} - run "npm run fill-cities"`);
+  }
+} catch (error) {
+  if (error instanceof ExportExistsError) {
+    console.error(`❌ ${error.filename} is already published - add --overwrite to replace it`);
+    process.exit(1);
+  }
+  if (error instanceof EmptyExportError) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+  throw error;
+}
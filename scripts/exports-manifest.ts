@@ -0,0 +1,24 @@
+// scripts/exports-manifest.ts
+/**
+ * Brings public/exports/manifest.json up to date with the published pages
+ *
+ * Usage:
+ *   npm run exports-manifest
+ *
+ * Adds pages that have no entry (including ones published before the
+ * manifest existed), fills in missing titles, dates and participant counts,
+ * renders missing thumbnails and drops entries whose page was deleted.
+ * See src/lib/exportIndex.ts.
+ */
+import { indexExports } from "../src/lib/exportIndex";
+
+const result = await indexExports();
+
+for (const filename of result.added) console.log(`  + ${filename}`);
+for (const filename of result.updated) console.log(`  ~ ${filename}`);
+for (const filename of result.removed) console.log(`  - ${filename}`);
+for (const filename of result.skipped) console.warn(`  ⚠️  ${filename}: no "Title — date" overlay, left out`);
+
+console.log(
+  `✅ Manifest: ${result.added.length} added, ${result.updated.length} updated, ${result.removed.length} removed`
+);
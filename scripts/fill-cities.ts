@@ -0,0 +1,181 @@
+// scripts/fill-cities.ts
+/**
+ * Adds the cities members live in that src/data/cities.json is missing
+ *
+ * Usage:
+ *   npm run fill-cities                      # member coordinates if given, else the geocoder
+ *   npm run fill-cities -- --force-api       # always ask the geocoder
+ *   npm run fill-cities -- --verify-member   # check member coordinates against the geocoder
+ *
+ * Member cities are matched the way the app matches them (matchCities in
+ * src/lib/cities.ts), aliases included, so "Newyork" is New York. Missing
+ * cities are looked up with the app's geocoder (GEOCODER, see geocode.ts),
+ * which keeps to Nominatim's rate limit. Coordinates stored on a member are
+ * used when present; with --verify-member they're replaced when the
+ * geocoder puts the city more than 200km away.
+ *
+ * cities.json is backed up to src/data/backups/ and written through the
+ * JSON city store: under its lock and atomically, so a running app can keep
+ * saving cities to it and picks the new ones up.
+ */
+import path from "path";
+import { formatCityReference, matchCities, normalizeCityName, parseCityReference, type CityQuery } from "../src/lib/cities";
+import { readJsonFile, withFileLock } from "../src/lib/dataFile";
+import { getGeocoder, type GeocodedPlace } from "../src/lib/geocode";
+import { distanceKm } from "../src/lib/geo";
+import { createJsonCityStore } from "../src/lib/jsonStore";
+import { assertSchemaVersion, SchemaVersionError } from "../src/lib/schemaVersion";
+import type { City, CityCoord } from "../src/lib/validation";
+
+/** Member coordinates further than this from the geocoder's are overridden with --verify-member */
+const MAX_MEMBER_OFFSET_KM = 200;
+
+const forceApi = process.argv.includes("--force-api");
+const verifyMember = process.argv.includes("--verify-member");
+
+const membersPath = path.join(process.cwd(), "src", "data", "members.json");
+const citiesPath = path.join(process.cwd(), "src", "data", "cities.json");
+
+/** members.json entries; members written by old versions may carry coordinates */
+type StoredMember = { city: string; lat?: unknown; lng?: unknown };
+
+interface MissingCity {
+  query: CityQuery;
+  /** First member coordinates given for the city, and that member's index */
+  fromMember?: CityCoord & { index: number };
+}
+
+/**
+ * "new york" -> "New York"
+ */
+function toDisplayName(name: string): string {
+  return name.replace(/(^|\s)(\S)/g, (_, space: string, letter: string) => space + letter.toUpperCase());
+}
+
+function readMembers(): StoredMember[] {
+  const data = readJsonFile(membersPath);
+  if (data === undefined) {
+    console.error(`❌ members.json not found at ${membersPath}`);
+    process.exit(1);
+  }
+  assertSchemaVersion("members", membersPath, data);
+  return (data as { members: StoredMember[] }).members;
+}
+
+/**
+ * Member cities no known city matches, by key
+ */
+function findMissingCities(members: StoredMember[], known: City[]): Map<string, MissingCity> {
+  const missing = new Map<string, MissingCity>();
+  members.forEach((member, index) => {
+    const query = parseCityReference(member.city);
+    if (!query.name || matchCities(known, query).length > 0) return;
+
+    const key = normalizeCityName(formatCityReference(query));
+    const entry = missing.get(key) ?? { query };
+    const lat = Number(member.lat);
+    const lng = Number(member.lng);
+    if (!entry.fromMember && member.lat !== undefined && Number.isFinite(lat) && Number.isFinite(lng)) {
+      entry.fromMember = { lat: Number(lat.toFixed(4)), lng: Number(lng.toFixed(4)), index };
+    }
+    missing.set(key, entry);
+  });
+  return missing;
+}
+
+async function geocode(reference: string): Promise<GeocodedPlace | null> {
+  try {
+    return await getGeocoder().geocode(reference);
+  } catch (error) {
+    console.warn(`⚠️  Could not look up '${reference}': ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+/**
+ * Coordinates for a missing city, or null if none were found
+ */
+async function resolveMissingCity({ query, fromMember }: MissingCity): Promise<{ city: City; note: string } | null> {
+  const reference = formatCityReference(query);
+  const place = !fromMember || forceApi || verifyMember ? await geocode(reference) : null;
+
+  let coords: CityCoord;
+  let note: string;
+  let source: City["source"];
+  if (fromMember && !forceApi && !(place && distanceKm(fromMember, place) > MAX_MEMBER_OFFSET_KM)) {
+    coords = { lat: fromMember.lat, lng: fromMember.lng };
+    note = `from members.json#${fromMember.index}`;
+    source = "manual";
+  } else if (place) {
+    coords = { lat: place.lat, lng: place.lng };
+    note = fromMember && !forceApi
+      ? `overrode member coords (Δ≈${distanceKm(fromMember, place).toFixed(0)}km) with the geocoder`
+      : "geocoded";
+    source = "geocoded";
+  } else {
+    return null;
+  }
+
+  const region = query.region ?? place?.region;
+  const countryCode = query.countryCode ?? place?.countryCode;
+  const city: City = {
+    normalizedName: normalizeCityName(query.name),
+    displayName: source === "geocoded" && place ? place.displayName : toDisplayName(query.name.trim()),
+    ...coords,
+    ...(region ? { region } : {}),
+    ...(countryCode ? { countryCode } : {}),
+    lastUpdated: new Date().toISOString(),
+    source,
+  };
+  return { city, note };
+}
+
+async function main() {
+  const store = createJsonCityStore(citiesPath);
+  const missing = findMissingCities(readMembers(), store.list());
+  if (missing.size === 0) {
+    console.log("✅ All cities already have coordinates.");
+    return;
+  }
+
+  console.log(`🌍 Found ${missing.size} missing ${missing.size === 1 ? "city" : "cities"}:`);
+  console.log([...missing.keys()].join(", "));
+  console.log("\n🔍 Resolving coordinates (members.json first, else the geocoder)...\n");
+
+  const resolved: City[] = [];
+  for (const [key, entry] of missing) {
+    const result = await resolveMissingCity(entry);
+    if (!result) {
+      console.warn(`⚠️  No coordinates found for '${key}'`);
+      continue;
+    }
+    const { city, note } = result;
+    resolved.push(city);
+    console.log(`✅ ${key}: ${note} lat=${city.lat}, lng=${city.lng}, country=${city.countryCode ?? "?"}`);
+  }
+
+  if (resolved.length === 0) {
+    console.log("\nNo new coordinates to add.");
+    return;
+  }
+
+  const backupPath = withFileLock(citiesPath, () => {
+    const backup = store.backup();
+    resolved.forEach(city => store.upsert(city));
+    return backup;
+  });
+
+  console.log(`\n📝 Added ${resolved.length} ${resolved.length === 1 ? "city" : "cities"} to ${citiesPath}`);
+  if (backupPath) {
+    console.log(`🗄️  Backup created at ${backupPath}`);
+  }
+}
+
+main().catch((error: unknown) => {
+  if (error instanceof SchemaVersionError) {
+    console.error(`❌ ${error.message} - run \`npm run migrate\` first`);
+  } else {
+    console.error("💥 Error:", error);
+  }
+  process.exit(1);
+});
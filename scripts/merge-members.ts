@@ -0,0 +1,64 @@
+// scripts/merge-members.ts
+/**
+ * Finds and merges duplicate members
+ *
+ * Usage:
+ *   npm run merge-members                                   # list likely duplicates
+ *   npm run merge-members -- --threshold 0.9                # stricter name matching
+ *   npm run merge-members -- <survivorId> <dupId>... --dry-run  # preview a merge
+ *   npm run merge-members -- <survivorId> <dupId>...        # merge
+ *
+ * Merging rewrites participantIds in every meeting that lists a duplicate,
+ * then deletes the duplicates from the member registry.
+ */
+import { findDuplicateMembers, mergeMembers, MergeInputError } from "../src/lib/memberMerge";
+
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+const thresholdIndex = args.indexOf("--threshold");
+const threshold = thresholdIndex >= 0 ? Number(args[thresholdIndex + 1]) : undefined;
+const ids = args.filter((arg, i) => !arg.startsWith("--") && !(thresholdIndex >= 0 && i === thresholdIndex + 1));
+
+function listDuplicates() {
+  const candidates = findDuplicateMembers(undefined, { threshold });
+  if (candidates.length === 0) {
+    console.log("✅ No likely duplicates found.");
+    return;
+  }
+
+  console.log(`🔍 Found ${candidates.length} possible duplicate ${candidates.length === 1 ? "pair" : "pairs"}:\n`);
+  for (const { members: [a, b], nameSimilarity, reason } of candidates) {
+    console.log(`• ${a.name} (${a.city})  ↔  ${b.name} (${b.city})`);
+    console.log(`  ${reason} - name similarity ${(nameSimilarity * 100).toFixed(0)}%`);
+    console.log(`  npm run merge-members -- ${a.id} ${b.id} --dry-run\n`);
+  }
+}
+
+function merge(survivorId: string, duplicateIds: string[]) {
+  const plan = mergeMembers(survivorId, duplicateIds, { dryRun });
+
+  console.log(`${dryRun ? "🧪 Dry run - nothing written" : "🔀 Merged"}`);
+  console.log(`Keeping:  ${plan.survivor.name} (${plan.survivor.city}) ${plan.survivor.id}`);
+  for (const member of plan.removed) {
+    console.log(`Removing: ${member.name} (${member.city}) ${member.id}`);
+  }
+  console.log(`\n${plan.meetings.length} meeting(s) ${dryRun ? "would be updated" : "updated"}:`);
+  for (const change of plan.meetings) {
+    console.log(`  ${change.meetingId}: ${change.before.length} -> ${change.after.length} participants`);
+  }
+}
+
+try {
+  const [survivorId, ...duplicateIds] = ids;
+  if (survivorId) {
+    merge(survivorId, duplicateIds);
+  } else {
+    listDuplicates();
+  }
+} catch (error) {
+  if (error instanceof MergeInputError) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+  throw error;
+}
@@ -0,0 +1,52 @@
+// scripts/migrate.ts
+/**
+ * Upgrades data files to the current schema version
+ *
+ * Usage:
+ *   npm run migrate               # migrate members.json, cities.json and meetings/*.json
+ *   npm run migrate -- --dry-run  # show what would change without writing
+ *
+ * Runs against DATA_DIR (default src/data) plus the bundled src/data/cities.json.
+ * Every rewritten file is backed up first to a backups/ directory next to it.
+ * The SQLite store migrates itself when opened (see sqliteStore.ts).
+ */
+import path from "path";
+import { migrateDataDir, migrateFile, type MigrationResult } from "../src/lib/migrations";
+import { SchemaVersionError } from "../src/lib/schemaVersion";
+import { CorruptDataError } from "../src/lib/dataFile";
+import { getStoreConfig } from "../src/lib/store";
+
+const dryRun = process.argv.includes("--dry-run");
+const { dataDir } = getStoreConfig();
+const bundledCities = path.join(process.cwd(), "src", "data", "cities.json");
+
+try {
+  const results: MigrationResult[] = migrateDataDir(dataDir, { dryRun, citiesFiles: [bundledCities] });
+  if (path.dirname(bundledCities) !== dataDir) {
+    const cities = migrateFile("cities", bundledCities, { dryRun });
+    if (cities) results.push(cities);
+  }
+
+  const pending = results.filter(result => result.from !== result.to);
+  if (pending.length === 0) {
+    console.log(`✅ All ${results.length} data files are up to date.`);
+    process.exit(0);
+  }
+
+  console.log(`${dryRun ? "🧪 Dry run - nothing written" : "🔧 Migrated"}: ${pending.length} of ${results.length} data files\n`);
+  for (const result of pending) {
+    console.log(`• ${path.relative(process.cwd(), result.filePath)}: v${result.from} -> v${result.to}`);
+    for (const step of result.applied) {
+      console.log(`    ${step}`);
+    }
+    if (result.backupPath) {
+      console.log(`    backup: ${path.relative(process.cwd(), result.backupPath)}`);
+    }
+  }
+} catch (error) {
+  if (error instanceof CorruptDataError || error instanceof SchemaVersionError) {
+    console.error(`❌ ${error.message}`);
+    process.exit(1);
+  }
+  throw error;
+}
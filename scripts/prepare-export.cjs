@@ -1,30 +1,39 @@
 #!/usr/bin/env node
 /**
- * Prepare for static export by temporarily renaming the API directory
- * This prevents Next.js from trying to include server-side API routes in the static export
+ * Prepare for static export by temporarily renaming the server-only directories
+ * This prevents Next.js from trying to include server-side API routes (and the
+ * /embed pages and /exports gallery, which read data per request) in the
+ * static export. The gallery is written as exports/index.html instead.
  */
 
 const fs = require('fs');
 const path = require('path');
 
-const apiDir = path.join(__dirname, '..', 'app', 'api');
-const apiDirBackup = path.join(__dirname, '..', '.api-backup');
+const root = path.join(__dirname, '..');
+const SERVER_ONLY_DIRS = [
+  { dir: path.join(root, 'app', 'api'), backup: path.join(root, '.api-backup') },
+  { dir: path.join(root, 'app', 'embed'), backup: path.join(root, '.embed-backup') },
+  { dir: path.join(root, 'app', 'exports'), backup: path.join(root, '.exports-backup') },
+];
 
 const isExportMode = process.env.NEXT_PUBLIC_EXPORT_MODE === 'true' || process.env.EXPORT_MODE === 'true';
 
-if (isExportMode) {
-  if (fs.existsSync(apiDir)) {
-    console.log('📦 Export mode detected: Temporarily moving API directory...');
-    if (fs.existsSync(apiDirBackup)) {
-      fs.rmSync(apiDirBackup, { recursive: true, force: true });
+for (const { dir, backup } of SERVER_ONLY_DIRS) {
+  const name = path.relative(root, dir);
+  if (isExportMode) {
+    if (fs.existsSync(dir)) {
+      console.log(`📦 Export mode detected: Temporarily moving ${name}...`);
+      if (fs.existsSync(backup)) {
+        fs.rmSync(backup, { recursive: true, force: true });
+      }
+      fs.renameSync(dir, backup);
+      console.log(`✅ ${name} moved outside app folder`);
+    }
+  } else {
+    if (fs.existsSync(backup) && !fs.existsSync(dir)) {
+      console.log(`🔄 Restoring ${name} from backup...`);
+      fs.renameSync(backup, dir);
+      console.log(`✅ ${name} restored`);
     }
-    fs.renameSync(apiDir, apiDirBackup);
-    console.log('✅ API directory moved outside app folder');
-  }
-} else {
-  if (fs.existsSync(apiDirBackup) && !fs.existsSync(apiDir)) {
-    console.log('🔄 Restoring API directory from backup...');
-    fs.renameSync(apiDirBackup, apiDir);
-    console.log('✅ API directory restored');
   }
 }
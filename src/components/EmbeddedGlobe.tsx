@@ -0,0 +1,78 @@
+'use client';
+import { useEffect, useMemo, useState } from 'react';
+import MeetingGlobe, { type GlobeView } from './MeetingGlobe';
+import { resolveEmbedParticipants, resolveFlyTo, type EmbedEvent } from '~/lib/embed';
+import { arcsBetween } from '~/lib/geo';
+import { EmbedMessageSchema, type EmbedQuery } from '~/lib/validation';
+import type { VisualizationPoint } from '~/lib/visualization';
+
+/**
+ * Globe for /embed/[meetingId], driven by postMessage from the host page
+ * (protocol in src/lib/embed.ts)
+ */
+export default function EmbeddedGlobe({ meetingId, initialPoints, options }: {
+    meetingId: string;
+    initialPoints: VisualizationPoint[];
+    options: EmbedQuery;
+}) {
+    const [points, setPoints] = useState(initialPoints);
+    const [view, setView] = useState<GlobeView | null>(null);
+    const arcs = useMemo(() => arcsBetween(points), [points]);
+
+    useEffect(() => {
+        // Only a page that frames us can drive the globe
+        if (window.parent === window) {
+            return;
+        }
+        const post = (event: EmbedEvent, origin = '*') => window.parent.postMessage(event, origin);
+
+        function onMessage(event: MessageEvent) {
+            if (event.source !== window.parent) {
+                return;
+            }
+            const parsed = EmbedMessageSchema.safeParse(event.data);
+            if (!parsed.success) {
+                const type: unknown = (event.data as { type?: unknown } | null)?.type;
+                if (typeof type === 'string' && type.startsWith('gpm:')) {
+                    post({ type: 'gpm:error', error: `Invalid ${type} message: ${parsed.error.message}` }, event.origin);
+                }
+                return;
+            }
+
+            const message = parsed.data;
+            if (message.type === 'gpm:flyTo') {
+                const target = resolveFlyTo(message);
+                if (target) {
+                    setView(target);
+                } else {
+                    post({ type: 'gpm:error', error: `Unknown city: ${message.city ?? '(none)'}` }, event.origin);
+                }
+                return;
+            }
+
+            const resolved = resolveEmbedParticipants(message.participants, options.hideNames);
+            const replace = message.type === 'gpm:setParticipants';
+            setPoints(current => (replace ? resolved.points : [...current, ...resolved.points]));
+            post(
+                { type: 'gpm:participantsUpdated', count: resolved.points.length, unknownCities: resolved.unknownCities },
+                event.origin
+            );
+        }
+
+        window.addEventListener('message', onMessage);
+        post({ type: 'gpm:ready', meetingId });
+        return () => window.removeEventListener('message', onMessage);
+    }, [meetingId, options.hideNames]);
+
+    return (
+        <MeetingGlobe
+            points={points}
+            arcs={arcs}
+            autoRotate={options.autoRotate}
+            theme={options.theme}
+            showLabels={options.labels}
+            hideNames={options.hideNames}
+            view={view}
+        />
+    );
+}
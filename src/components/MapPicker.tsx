@@ -0,0 +1,41 @@
+'use client';
+import type { MouseEvent } from 'react';
+import { siteConfig } from '~/lib/siteConfig';
+
+const round = (value: number) => Number(value.toFixed(4));
+
+/**
+ * Small world map for picking coordinates by clicking
+ * The globe texture is an equirectangular projection, so x maps straight
+ * to longitude and y to latitude.
+ */
+export default function MapPicker({ lat, lng, onPick }: {
+    lat: number;
+    lng: number;
+    onPick: (coords: { lat: number; lng: number }) => void;
+}) {
+    function handleClick(event: MouseEvent<HTMLDivElement>) {
+        const rect = event.currentTarget.getBoundingClientRect();
+        const x = (event.clientX - rect.left) / rect.width;
+        const y = (event.clientY - rect.top) / rect.height;
+        onPick({
+            lat: round(Math.min(90, Math.max(-90, 90 - y * 180))),
+            lng: round(Math.min(180, Math.max(-180, x * 360 - 180))),
+        });
+    }
+
+    return (
+        <div
+            onClick={handleClick}
+            className="relative w-full max-w-xl aspect-[2/1] cursor-crosshair rounded overflow-hidden bg-gray-800 bg-cover"
+            style={{ backgroundImage: `url(${siteConfig.textures.globeLight})` }}
+            title="Click to set the coordinates"
+        >
+            {/* Marker at the current coordinates */}
+            <div
+                className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full border-2 border-white bg-orange-500 pointer-events-none"
+                style={{ left: `${((lng + 180) / 360) * 100}%`, top: `${((90 - lat) / 180) * 100}%` }}
+            />
+        </div>
+    );
+}
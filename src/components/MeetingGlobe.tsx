@@ -1,16 +1,14 @@
 'use client';
-import { useEffect, useRef, useMemo } from 'react';
+import { useEffect, useRef, useMemo, useState } from 'react';
 import dynamic from "next/dynamic";
-import { geocodeCity } from '~/lib/geocode';
+import { countryTooltip, pointTooltip } from '~/lib/globeLabels';
+import { siteConfig } from '~/lib/siteConfig';
+import type { CountryCount, VisualizationArc, VisualizationPoint } from '~/lib/visualization';
+import type { Country } from '~/lib/worldMap';
 
 // Lazy load the globe library to avoid SSR issues
 const Globe = dynamic(() => import("react-globe.gl"), { ssr: false });
 
-interface Participant {
-    name: string;
-    city?: string;
-}
-
 interface PointData {
     lat: number;
     lng: number;
@@ -27,63 +25,187 @@ interface ArcData {
     color: string[];
 }
 
-export default function MeetingGlobe({ participants }: { participants: Participant[] }) {
+interface LabelData {
+    lat: number;
+    lng: number;
+    text: string;
+}
+
+interface PolygonData {
+    geometry: { type: 'MultiPolygon'; coordinates: Country['polygons'] };
+    color: string;
+    label: string;
+}
+
+export type GlobeTheme = 'dark' | 'light';
+
+/** Camera target; set it to fly there */
+export interface GlobeView {
+    lat: number;
+    lng: number;
+    altitude?: number;
+}
+
+const THEMES = {
+    dark: {
+        globeImageUrl: siteConfig.textures.globe,
+        backgroundImageUrl: siteConfig.textures.background,
+        backgroundColor: '#000000',
+        labelColor: 'rgba(255, 255, 255, 0.85)',
+        // Countries are filled with this color, more opaque the more participants
+        countryColor: siteConfig.colors.country,
+        countryStroke: 'rgba(255, 255, 255, 0.4)',
+    },
+    light: {
+        globeImageUrl: siteConfig.textures.globeLight,
+        backgroundImageUrl: null,
+        backgroundColor: '#f8fafc',
+        labelColor: 'rgba(15, 23, 42, 0.85)',
+        countryColor: siteConfig.colors.countryLight,
+        countryStroke: 'rgba(15, 23, 42, 0.4)',
+    },
+} as const;
+
+/**
+ * A hex color ("#f90", "#ff9900") at some opacity, as rgba()
+ */
+function withOpacity(hex: string, opacity: number): string {
+    const digits = hex.slice(1).replace(/^(.)(.)(.)$/, '$1$1$2$2$3$3');
+    const [r, g, b] = [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16));
+    return `rgba(${r}, ${g}, ${b}, ${opacity.toFixed(2)})`;
+}
+
+/**
+ * Interactive 3D globe for a meeting
+ * Takes the server-computed points/arcs from /api/meetings/{id}/visualization,
+ * the same data the HTML export embeds.
+ *
+ * Options (used by the /embed route):
+ * - autoRotate: spin slowly (default true); paused once `view` is set
+ * - theme: 'dark' (default) or 'light'
+ * - showLabels: print city names on the globe
+ * - hideNames: hover labels show the city only
+ * - view: camera target - the globe flies there whenever it changes
+ * - countries: per-country counts (MeetingVisualization.countries); when
+ *   given, those countries are shaded by attendee count. The outlines
+ *   (worldMap.ts) are loaded on first use, so they stay out of the main bundle.
+ */
+export default function MeetingGlobe({
+    points: placed,
+    arcs: links,
+    autoRotate = true,
+    theme = 'dark',
+    showLabels = false,
+    hideNames = false,
+    view = null,
+    countries = null,
+}: {
+    points: VisualizationPoint[];
+    arcs: VisualizationArc[];
+    autoRotate?: boolean;
+    theme?: GlobeTheme;
+    showLabels?: boolean;
+    hideNames?: boolean;
+    view?: GlobeView | null;
+    countries?: CountryCount[] | null;
+}) {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const globeRef = useRef<any>(null);
+    // The globe loads lazily, so controls exist only after onGlobeReady
+    const [ready, setReady] = useState(false);
+    const [outlines, setOutlines] = useState<Country[] | null>(null);
+    const showCountries = !!countries?.length;
 
     useEffect(() => {
-        if (globeRef.current) {
+        if (ready && globeRef.current) {
             // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
-            globeRef.current.controls().autoRotate = true;
+            globeRef.current.controls().autoRotate = autoRotate && !view;
             // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
             globeRef.current.controls().autoRotateSpeed = 0.5;
         }
-    }, []);
+    }, [ready, autoRotate, view]);
 
-    // --- Points ---
-    const points = useMemo(() => {
-        return participants
-            .map((p): PointData | null => {
-                const coords = geocodeCity(p.city);
-                if (!coords) return null;
-                return {
-                    lat: coords.lat,
-                    lng: coords.lng,
-                    size: 0.5,
-                    color: 'orange',
-                    label: `${p.name} (${p.city ?? 'Unknown'})`,
-                };
+    useEffect(() => {
+        if (ready && globeRef.current && view) {
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+            globeRef.current.pointOfView({ lat: view.lat, lng: view.lng, altitude: view.altitude ?? 1.5 }, 1000);
+        }
+    }, [ready, view]);
+
+    useEffect(() => {
+        if (!showCountries || outlines) {
+            return;
+        }
+        let cancelled = false;
+        import('~/lib/worldMap')
+            .then(({ getCountries }) => {
+                if (!cancelled) setOutlines(getCountries());
             })
-            .filter((p): p is PointData => p !== null);
-    }, [participants]);
+            .catch(err => console.warn('Could not load country outlines:', err));
+        return () => {
+            cancelled = true;
+        };
+    }, [showCountries, outlines]);
+
+    // --- Points ---
+    const points = useMemo((): PointData[] => {
+        return placed.map(p => ({
+            lat: p.lat,
+            lng: p.lng,
+            size: 0.5,
+            color: siteConfig.colors.point,
+            label: pointTooltip(p, hideNames),
+        }));
+    }, [placed, hideNames]);
 
     // --- Arcs ---
     const arcs = useMemo((): ArcData[] => {
-        if (points.length < 2) return [];
-        const links: ArcData[] = [];
-        for (let i = 0; i < points.length; i++) {
-            for (let j = i + 1; j < points.length; j++) {
-                const pointI = points[i];
-                const pointJ = points[j];
-                if (!pointI || !pointJ) continue;
-                links.push({
-                    startLat: pointI.lat,
-                    startLng: pointI.lng,
-                    endLat: pointJ.lat,
-                    endLng: pointJ.lng,
-                    color: ['#ffaa00', '#ff6600']
-                });
-            }
+        return links.map(arc => ({ ...arc, color: [siteConfig.colors.arcStart, siteConfig.colors.arcEnd] }));
+    }, [links]);
+
+    // --- City labels (one per city) ---
+    const labels = useMemo((): LabelData[] => {
+        if (!showLabels) {
+            return [];
+        }
+        const byCity = new Map<string, LabelData>();
+        for (const p of placed) {
+            byCity.set(p.cityName.trim().toLowerCase(), { lat: p.lat, lng: p.lng, text: p.cityName });
         }
-        return links;
-    }, [points]);
+        return [...byCity.values()];
+    }, [placed, showLabels]);
+
+    const colors = THEMES[theme];
+
+    // --- Countries (shaded by participants, relative to the busiest) ---
+    const polygons = useMemo((): PolygonData[] => {
+        if (!outlines || !countries?.length) {
+            return [];
+        }
+        const counts = new Map(countries.map(entry => [entry.countryCode, entry]));
+        const most = Math.max(...countries.map(entry => entry.count));
+        return outlines.flatMap(country => {
+            const entry = country.iso ? counts.get(country.iso) : undefined;
+            if (!entry) {
+                return [];
+            }
+            const opacity = 0.25 + 0.5 * (entry.count / most);
+            return [{
+                geometry: { type: 'MultiPolygon' as const, coordinates: country.polygons },
+                color: withOpacity(colors.countryColor, opacity),
+                label: countryTooltip(entry),
+            }];
+        });
+    }, [outlines, countries, colors]);
 
     return (
         <div className="w-full h-full">
             <Globe
                 ref={globeRef}
-                globeImageUrl="//unpkg.com/three-globe/example/img/earth-blue-marble.jpg"
-                backgroundImageUrl="//unpkg.com/three-globe/example/img/night-sky.png"
+                onGlobeReady={() => setReady(true)}
+                globeImageUrl={colors.globeImageUrl}
+                backgroundImageUrl={colors.backgroundImageUrl}
+                backgroundColor={colors.backgroundColor}
                 pointsData={points}
                 pointAltitude="size"
                 pointColor="color"
@@ -94,6 +216,18 @@ export default function MeetingGlobe({ participants }: { participants: Participa
                 arcDashLength={0.5}
                 arcDashGap={0.02}
                 arcDashAnimateTime={3000}
+                labelsData={labels}
+                labelText="text"
+                labelSize={1.2}
+                labelDotRadius={0.4}
+                labelColor={() => colors.labelColor}
+                labelResolution={2}
+                polygonsData={polygons}
+                polygonCapColor="color"
+                polygonSideColor={() => 'rgba(0, 0, 0, 0)'}
+                polygonStrokeColor={() => colors.countryStroke}
+                polygonAltitude={0.006}
+                polygonLabel="label"
             />
         </div>
     );
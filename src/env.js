@@ -7,7 +7,17 @@ export const env = createEnv({
    * isn't built with invalid env vars.
    */
   server: {
-    NODE_ENV: z.enum(["development", "test", "production"]),
+    // Scripts run through tsx don't set it
+    NODE_ENV: z.enum(["development", "test", "production"]).default("development"),
+    DATA_STORE: z.enum(["json", "sqlite"]).default("json"),
+    DATA_DIR: z.string().optional(),
+    SQLITE_PATH: z.string().optional(),
+    EXPORT_DIR: z.string().optional(),
+    EMBED_FRAME_ANCESTORS: z.string().optional(),
+    GEOCODER: z.enum(["nominatim", "fixtures", "none"]).default("nominatim"),
+    GEOCODER_FIXTURES: z.string().optional(),
+    NOMINATIM_URL: z.string().url().optional(),
+    EXPORT_MODE: z.enum(["true", "false"]).optional(),
   },
 
   /**
@@ -16,7 +26,8 @@ export const env = createEnv({
    * `NEXT_PUBLIC_`.
    */
   client: {
-    // NEXT_PUBLIC_CLIENTVAR: z.string(),
+    NEXT_PUBLIC_SITE_URL: z.string().url().optional(),
+    NEXT_PUBLIC_EXPORT_MODE: z.enum(["true", "false"]).optional(),
   },
 
   /**
@@ -25,7 +36,17 @@ export const env = createEnv({
    */
   runtimeEnv: {
     NODE_ENV: process.env.NODE_ENV,
-    // NEXT_PUBLIC_CLIENTVAR: process.env.NEXT_PUBLIC_CLIENTVAR,
+    DATA_STORE: process.env.DATA_STORE,
+    DATA_DIR: process.env.DATA_DIR,
+    SQLITE_PATH: process.env.SQLITE_PATH,
+    EXPORT_DIR: process.env.EXPORT_DIR,
+    EMBED_FRAME_ANCESTORS: process.env.EMBED_FRAME_ANCESTORS,
+    GEOCODER: process.env.GEOCODER,
+    GEOCODER_FIXTURES: process.env.GEOCODER_FIXTURES,
+    NOMINATIM_URL: process.env.NOMINATIM_URL,
+    EXPORT_MODE: process.env.EXPORT_MODE,
+    NEXT_PUBLIC_SITE_URL: process.env.NEXT_PUBLIC_SITE_URL,
+    NEXT_PUBLIC_EXPORT_MODE: process.env.NEXT_PUBLIC_EXPORT_MODE,
   },
   /**
    * Run `build` or `dev` with `SKIP_ENV_VALIDATION` to skip env validation. This is especially
@@ -0,0 +1,71 @@
+// src/lib/backups.ts
+/**
+ * Data File Backups
+ *
+ * Backups are named {file}.bak.{timestamp} and live in a backups/ directory
+ * next to the file they copy. migrate and the SQLite store write one before
+ * upgrading a file, the app before each city edit; writeBackup prunes them,
+ * so only the newest KEEP_BACKUPS of each file stay around.
+ *
+ * doctor.ts reports and prunes the ones older versions left next to the
+ * data files.
+ */
+import fs from 'fs';
+import path from 'path';
+import { writeFileAtomic } from './dataFile';
+
+/** Newest backups kept per data file; older ones are reported and pruned */
+export const KEEP_BACKUPS = 3;
+
+/** Backup files written by fill-cities, migrate, the stores and the city editor */
+const BACKUP_FILE = /^(.+)\.bak\.(\d+)$/;
+
+/**
+ * Directory the app writes its backups to, next to a data file
+ */
+export function getBackupDir(dataFilePath: string): string {
+  return path.join(path.dirname(dataFilePath), 'backups');
+}
+
+/**
+ * Backup files grouped by the file they back up, newest first
+ */
+export function findBackups(dirs: string[]): Map<string, string[]> {
+  const byOriginal = new Map<string, Array<{ file: string; time: number }>>();
+
+  for (const dir of new Set(dirs.map(d => path.resolve(d)))) {
+    if (!fs.existsSync(dir)) continue;
+    for (const name of fs.readdirSync(dir)) {
+      const match = BACKUP_FILE.exec(name);
+      if (!match) continue;
+      const original = path.join(dir, match[1]!);
+      const list = byOriginal.get(original) ?? [];
+      list.push({ file: path.join(dir, name), time: Number(match[2]) });
+      byOriginal.set(original, list);
+    }
+  }
+
+  return new Map(
+    [...byOriginal].map(([original, list]) => [original, list.sort((a, b) => b.time - a.time).map(b => b.file)])
+  );
+}
+
+/**
+ * Writes a backup to a directory and deletes all but the newest
+ * KEEP_BACKUPS backups of the same file there
+ *
+ * @param dir - Backup directory (created if missing)
+ * @param fileName - Name of the file backed up, e.g. "cities.json"
+ * @param content - What to back up
+ * @returns Path of the new backup
+ */
+export function writeBackup(dir: string, fileName: string, content: string | Buffer): string {
+  let time = Date.now();
+  while (fs.existsSync(path.join(dir, `${fileName}.bak.${time}`))) time++;
+  const backupPath = path.join(dir, `${fileName}.bak.${time}`);
+  writeFileAtomic(backupPath, content);
+
+  const stale = findBackups([dir]).get(path.join(path.resolve(dir), fileName))?.slice(KEEP_BACKUPS) ?? [];
+  stale.forEach(file => fs.rmSync(file, { force: true }));
+  return backupPath;
+}
@@ -0,0 +1,150 @@
+// src/lib/cities.test.ts
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  formatCityReference,
+  getCityByName,
+  getCityKey,
+  invalidateCities,
+  matchCities,
+  normalizeCityName,
+  parseCityReference,
+  rememberCity,
+  setCitiesLoader,
+} from './cities';
+import type { City } from './validation';
+
+const paris: City = {
+  normalizedName: 'paris',
+  displayName: 'Paris',
+  lat: 48.8566,
+  lng: 2.3522,
+  countryCode: 'FR',
+  lastUpdated: '2026-01-01',
+};
+const parisIdf: City = { ...paris, region: 'IDF' };
+const parisTexas: City = { ...paris, lat: 33.6609, lng: -95.5555, region: 'TX', countryCode: 'US' };
+const parisKentucky: City = { ...paris, lat: 38.2098, lng: -84.2530, region: 'KY', countryCode: 'US' };
+
+describe('normalizeCityName', () => {
+  it('should lowercase and trim but keep the spaces between words', () => {
+    expect(normalizeCityName('  NEW YORK ')).toBe('new york');
+    expect(normalizeCityName('New   York')).toBe('new york');
+  });
+
+  it('should drop wrapping quotes', () => {
+    expect(normalizeCityName('"Prince Of Wales Island"')).toBe('prince of wales island');
+    expect(normalizeCityName("'Paris'")).toBe('paris');
+  });
+
+  it('should handle empty string', () => {
+    expect(normalizeCityName('')).toBe('');
+  });
+});
+
+describe('city references', () => {
+  it('should read name, region and country', () => {
+    expect(parseCityReference('Paris')).toEqual({ name: 'Paris' });
+    expect(parseCityReference(' Paris , us ')).toEqual({ name: 'Paris', countryCode: 'US' });
+    expect(parseCityReference('Paris, TX, US')).toEqual({ name: 'Paris', region: 'TX', countryCode: 'US' });
+  });
+
+  it('should treat a last part that is not a code as a region', () => {
+    expect(parseCityReference('Paris, Texas')).toEqual({ name: 'Paris', region: 'Texas' });
+  });
+
+  it('should format what it parses', () => {
+    expect(formatCityReference({ name: 'Paris', region: 'TX', countryCode: 'us' })).toBe('Paris, TX, US');
+    expect(formatCityReference(parseCityReference('Paris,FR'))).toBe('Paris, FR');
+  });
+
+  it('should key cities by name, region and country', () => {
+    expect(getCityKey(paris)).toBe('paris, fr');
+    expect(getCityKey(parisTexas)).toBe('paris, tx, us');
+    expect(getCityKey({ normalizedName: 'x' })).toBe('x');
+  });
+});
+
+describe('matchCities', () => {
+  const cities = [paris, parisTexas, parisKentucky];
+
+  it('should narrow by country and region', () => {
+    expect(matchCities(cities, { name: 'PARIS' })).toHaveLength(3);
+    expect(matchCities(cities, { name: 'Paris', countryCode: 'US' })).toEqual([parisTexas, parisKentucky]);
+    expect(matchCities(cities, { name: 'Paris', region: 'tx', countryCode: 'US' })).toEqual([parisTexas]);
+  });
+
+  it('should let a city without a region match any region', () => {
+    expect(matchCities(cities, { name: 'Paris', region: 'IDF', countryCode: 'FR' })).toEqual([paris]);
+  });
+
+  it('should find cities by alias unless another city has the name itself', () => {
+    const york: City = { ...paris, normalizedName: 'york', displayName: 'York', countryCode: 'GB' };
+    const newYork: City = {
+      ...paris,
+      normalizedName: 'new york',
+      displayName: 'New York',
+      countryCode: 'US',
+      aliases: [{ name: 'NYC', kind: 'abbreviation' }, { name: 'York', kind: 'misspelling' }],
+    };
+
+    expect(matchCities([york, newYork], { name: ' nyc ' })).toEqual([newYork]);
+    expect(matchCities([york, newYork], { name: 'York' })).toEqual([york]);
+    expect(matchCities([york, newYork], { name: 'NYC', countryCode: 'GB' })).toEqual([]);
+  });
+
+  it('should prefer the city keyed exactly as asked', () => {
+    expect(matchCities([paris, parisIdf], { name: 'Paris', countryCode: 'FR' })).toEqual([paris]);
+  });
+});
+
+describe('getCityByName', () => {
+  it('should only answer for names that fit one city', () => {
+    expect(getCityByName('Paris')?.countryCode).toBe('FR');
+    expect(getCityByName('Paris, GB')).toBeNull();
+  });
+});
+
+describe('loaded cities', () => {
+  afterEach(() => {
+    setCitiesLoader(null);
+  });
+
+  it('should use the bundled snapshot without a loader', () => {
+    expect(getCityByName('Tokyo')?.countryCode).toBe('JP');
+  });
+
+  it('should load once and again after invalidation', () => {
+    let loads = 0;
+    let cities = [paris];
+    setCitiesLoader(() => {
+      loads++;
+      return cities;
+    });
+
+    expect(getCityByName('Paris')).toEqual(paris);
+    expect(getCityByName('Tokyo')).toBeNull();
+    cities = [paris, parisTexas];
+    expect(getCityByName('Paris')).toEqual(paris);
+    expect(loads).toBe(1);
+
+    invalidateCities();
+
+    expect(getCityByName('Paris')).toBeNull();
+    expect(loads).toBe(2);
+  });
+
+  it('should let later cities replace earlier ones with the same key', () => {
+    setCitiesLoader(() => [paris, { ...paris, lat: 1 }]);
+
+    expect(getCityByName('Paris')?.lat).toBe(1);
+  });
+
+  it('should add remembered cities to the loaded ones', () => {
+    setCitiesLoader(() => [paris]);
+    getCityByName('Paris');
+
+    rememberCity(parisTexas);
+
+    expect(getCityByName('Paris, TX, US')).toEqual(parisTexas);
+  });
+});
@@ -5,43 +5,194 @@
  * This module provides the single source of truth for city coordinates.
  * All coordinate lookups should go through this service to ensure consistency.
  * 
- * Data Source: src/data/cities.json
+ * Data Sources:
+ * - src/data/cities.json ({ schemaVersion, cities }, see migrations.ts),
+ *   bundled as a snapshot so client components can look cities up too
+ * - on the server, the curated cities as they are on disk now plus the
+ *   cities in the active CityStore (geocoded, added or corrected at
+ *   runtime), loaded through the loader store.ts registers
  * 
  * Key Features:
- * - In-memory caching for fast lookups
+ * - In-memory caching for fast lookups, dropped by invalidateCities()
+ *   when the data changes (store.ts watches the files)
  * - Case-insensitive city name matching
  * - Consistent normalization (lowercase, trimmed)
  * - Lazy initialization of cache
+ *
+ * City References:
+ * Cities are keyed by name + country code, plus a region where one is known
+ * ("paris, fr", "paris, tx, us"), so several cities can share a name.
+ * Lookups take a reference in the same form - "Paris", "Paris, FR",
+ * "Portland, OR, US" - and only succeed when exactly one city matches;
+ * a bare "Paris" is ambiguous once both Parises are known. A city key is
+ * itself a reference that matches exactly its own city.
+ *
+ * Aliases:
+ * A city can list other names it goes by (abbreviations, local-language and
+ * former names, common misspellings), so "NYC" or "Talin" find it too. A
+ * city's own name wins over another city's alias. Every lookup normalizes
+ * names with normalizeCityName, so all paths agree on what matches.
  */
-import citiesData from '~/data/cities.json';
+import citiesFile from '~/data/cities.json';
+import { assertSchemaVersion } from './schemaVersion';
+import { foldCompact } from './textMatch';
 import { type City } from './validation';
 
-// ===== In-Memory Cache =====
-// Stores cities loaded from cities.json for fast lookups
-// Initialized on first access, persists for application lifetime
-const citiesCache: Map<string, City> = new Map<string, City>();
+// ===== Bundled Snapshot =====
+// cities.json as it was at build time, by city key. All the browser knows;
+// initialized on first access.
+const bundledCities: Map<string, City> = new Map<string, City>();
+
+// ===== Loaded Cities =====
+// On the server, the cities as they are now, from loader (see store.ts).
+// Loaded on first lookup and kept until invalidateCities() drops them.
+let citiesLoader: (() => City[]) | null = null;
+let loadedCities: Map<string, City> | null = null;
+
+/**
+ * Sets where the server loads its cities from, dropping any already loaded
+ * Called by store.ts whenever the active stores change. Without a loader
+ * (in the browser) lookups use the bundled snapshot.
+ *
+ * @param loader - Returns every city; for duplicate keys the last one wins
+ */
+export function setCitiesLoader(loader: (() => City[]) | null): void {
+  citiesLoader = loader;
+  loadedCities = null;
+}
+
+/**
+ * Drops the loaded cities, so the next lookup loads them again
+ * Called when city data changes outside this process (see store.ts) or in
+ * ways rememberCity can't express, e.g. a deletion.
+ */
+export function invalidateCities(): void {
+  loadedCities = null;
+}
+
+function getCitiesByKey(): Map<string, City> {
+  if (!citiesLoader) {
+    initializeBundledCities();
+    return bundledCities;
+  }
+  // Map.set keeps the first position of a key, so overrides stay in place
+  loadedCities ??= citiesLoader().reduce((cities, city) => cities.set(getCityKey(city), city), new Map<string, City>());
+  return loadedCities;
+}
+
+/**
+ * Makes a city just saved to the CityStore known without reloading
+ */
+export function rememberCity(city: City): void {
+  if (loadedCities) {
+    loadedCities.set(getCityKey(city), city);
+  }
+}
 
 // ===== Normalization Utilities =====
 /**
  * Normalize city name for consistent lookup
- * Converts to lowercase and trims whitespace while preserving spaces
- * Example: "New York" -> "new york", "  Paris  " -> "paris"
+ * Converts to lowercase, trims whitespace and wrapping quotes, and collapses
+ * runs of whitespace while preserving the spaces between words
+ * Example: "New  York" -> "new york", ' "Paris" ' -> "paris"
+ */
+export function normalizeCityName(cityName: string): string {
+  return cityName
+    .trim()
+    .replace(/^(["'])(.*)\1$/, '$2')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+// ===== City References =====
+
+/**
+ * What a city reference asks for
+ */
+export interface CityQuery {
+  name: string;
+  /** State/province code or name, e.g. "TX" */
+  region?: string;
+  /** ISO 3166-1 alpha-2, e.g. "US" */
+  countryCode?: string;
+}
+
+/**
+ * Formats a query as a reference: "Paris, TX, US"
+ */
+export function formatCityReference({ name, region, countryCode }: CityQuery): string {
+  return [name.trim(), region?.trim(), countryCode?.trim().toUpperCase()].filter(Boolean).join(', ');
+}
+
+/**
+ * Splits a reference into name, region and country
+ * The last part counts as the country when it's a two-letter code;
+ * anything else between the name and the country is the region.
+ * Example: "Portland, OR, US" -> { name: "Portland", region: "OR", countryCode: "US" }
+ */
+export function parseCityReference(reference: string): CityQuery {
+  const [name = '', ...rest] = reference.split(',').map(part => part.trim()).filter(Boolean);
+  const last = rest[rest.length - 1];
+  const countryCode = last && /^[a-z]{2}$/i.test(last) ? last.toUpperCase() : undefined;
+  const region = (countryCode ? rest.slice(0, -1) : rest).join(', ');
+  return { name, ...(region ? { region } : {}), ...(countryCode ? { countryCode } : {}) };
+}
+
+/**
+ * Key of a city in cities.json: its normalized reference ("paris, fr")
  */
-function normalizeCityName(cityName: string): string {
-  return cityName.toLowerCase().trim();
+export function getCityKey(city: Pick<City, 'normalizedName' | 'region' | 'countryCode'>): string {
+  return normalizeCityName(
+    formatCityReference({ name: city.normalizedName, region: city.region, countryCode: city.countryCode })
+  );
+}
+
+/**
+ * Cities among a list that fit a query
+ * A city without a region matches any region asked for, since nothing
+ * tells it apart. Regions are compared folded, so "D.C." matches "DC".
+ * Aliases are only considered when no city has the name itself. A city
+ * whose key is exactly the query wins outright, so a key always names one
+ * city. Duplicate keys are dropped (first one wins).
+ */
+export function matchCities(cities: Iterable<City>, query: CityQuery): City[] {
+  const name = normalizeCityName(query.name);
+  const byName = new Map<string, City>();
+  const byAlias = new Map<string, City>();
+  for (const city of cities) {
+    if (
+      (query.countryCode && city.countryCode?.toUpperCase() !== query.countryCode.toUpperCase()) ||
+      (query.region && city.region && foldCompact(city.region) !== foldCompact(query.region))
+    ) {
+      continue;
+    }
+    const target = normalizeCityName(city.normalizedName) === name
+      ? byName
+      : city.aliases?.some(alias => normalizeCityName(alias.name) === name)
+        ? byAlias
+        : null;
+    const key = getCityKey(city);
+    if (target && !target.has(key)) target.set(key, city);
+  }
+  const matches = byName.size > 0 ? byName : byAlias;
+  const exact = matches.get(normalizeCityName(formatCityReference({ ...query, name })));
+  return exact ? [exact] : [...matches.values()];
 }
 
 // ===== Cache Initialization =====
 /**
- * Initializes the cities cache from cities.json
+ * Initializes the bundled snapshot from cities.json
  * Only runs once per application lifetime (checks if cache is already populated)
- * Loads all cities into memory for fast subsequent lookups
+ *
+ * @throws SchemaVersionError if cities.json needs `npm run migrate`
  */
-function initializeCitiesCache() {
-  if (citiesCache.size > 0) return; // Already initialized
-  
-  Object.values(citiesData).forEach((city) => {
-    citiesCache.set(city.normalizedName, city as City);
+function initializeBundledCities() {
+  if (bundledCities.size > 0) return; // Already initialized
+
+  assertSchemaVersion('cities', 'src/data/cities.json', citiesFile);
+  Object.values(citiesFile.cities).forEach((city) => {
+    bundledCities.set(getCityKey(city as City), city as City);
   });
 }
 
@@ -49,16 +200,35 @@ function initializeCitiesCache() {
 // These functions provide the interface for looking up city data
 
 /**
- * Get city by normalized name
- * Returns complete city data if found, null otherwise
+ * Find every known city that fits a reference
+ * More than one result means the reference is ambiguous.
+ *
+ * @param reference - "Paris", "Paris, FR", "Portland, OR, US" or a city key
+ * @returns Matching cities, curated ones first
+ */
+export function findCities(reference: string): City[] {
+  return matchCities(getAllCities(), parseCityReference(reference));
+}
+
+/**
+ * Get city by name or reference
+ * Returns complete city data if exactly one city fits, null otherwise
  * 
- * @param cityName - City name to look up (case-insensitive)
- * @returns City object with coordinates and metadata, or null if not found
+ * @param cityName - City name or reference to look up (case-insensitive)
+ * @returns City object with coordinates and metadata, or null if unknown or ambiguous
  */
 export function getCityByName(cityName: string): City | null {
-  initializeCitiesCache();
-  const normalized = normalizeCityName(cityName);
-  return citiesCache.get(normalized) ?? null;
+  const matches = findCities(cityName);
+  return matches.length === 1 ? matches[0]! : null;
+}
+
+/**
+ * Get the city a member's location refers to
+ * A pinned cityKey wins over the name, so members keep their city after
+ * another city with the same name is added.
+ */
+export function getLocationCity(location: { city: string; cityKey?: string }): City | null {
+  return getCityByName(location.cityKey ?? location.city);
 }
 
 /**
@@ -74,15 +244,26 @@ export function getCityCoordinates(cityName: string): { lat: number; lng: number
   return { lat: city.lat, lng: city.lng };
 }
 
+/**
+ * Get the curated cities as bundled from src/data/cities.json at build time
+ * Unlike getAllCities, never loads anything at runtime.
+ */
+export function getBundledCities(): City[] {
+  initializeBundledCities();
+  return [...bundledCities.values()];
+}
+
 /**
  * Get all cities from the database
  * Useful for generating city lists or statistics
+ * On the server these are the cities as they are now: the curated ones
+ * with the CityStore's cities added, a stored city replacing the curated
+ * one with the same key. In the browser, the bundled snapshot.
  * 
  * @returns Array of all city objects
  */
 export function getAllCities(): City[] {
-  initializeCitiesCache();
-  return Array.from(citiesCache.values());
+  return [...getCitiesByKey().values()];
 }
 
 /**
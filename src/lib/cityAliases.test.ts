@@ -0,0 +1,56 @@
+// src/lib/cityAliases.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { addCityAlias, CityAliasConflictError, listCityAliases, removeCityAlias } from './cityAliases';
+import { getCityByName } from './cities';
+import { setStores } from './store';
+import { createJsonStores } from './jsonStore';
+
+describe('city aliases', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpm-aliases-'));
+    setStores(createJsonStores(tmpDir));
+  });
+
+  afterEach(() => {
+    setStores(null);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should list the aliases of the bundled cities', () => {
+    expect(listCityAliases('new york, us')).toContainEqual({ city: 'new york, us', name: 'NYC', kind: 'abbreviation' });
+    expect(listCityAliases()).toContainEqual({ city: 'tallinn, ee', name: 'Reval', kind: 'former' });
+  });
+
+  it('should make a city findable by a new alias and save it to the store', () => {
+    const city = addCityAlias('Lagos, NG', { name: 'Eko', kind: 'local' });
+
+    expect(city?.aliases).toEqual([{ name: 'Eko', kind: 'local' }]);
+    expect(getCityByName('eko')?.displayName).toBe('Lagos');
+    const saved = JSON.parse(fs.readFileSync(path.join(tmpDir, 'cities.json'), 'utf8')) as {
+      cities: Record<string, { aliases?: unknown }>;
+    };
+    expect(saved.cities['lagos, ng']?.aliases).toEqual([{ name: 'Eko', kind: 'local' }]);
+  });
+
+  it('should refuse an alias that already finds another city', () => {
+    expect(() => addCityAlias('lagos, ng', { name: 'Paris', kind: 'misspelling' })).toThrow(CityAliasConflictError);
+    expect(() => addCityAlias('lagos, ng', { name: 'NYC', kind: 'abbreviation' })).toThrow('new york, us');
+  });
+
+  it('should remove aliases', () => {
+    addCityAlias('lagos, ng', { name: 'Eko', kind: 'local' });
+
+    expect(removeCityAlias('lagos, ng', 'EKO')?.aliases).toBeUndefined();
+    expect(getCityByName('eko')).toBeNull();
+    expect(removeCityAlias('lagos, ng', 'Eko')).toBeNull();
+  });
+
+  it('should return null for unknown cities', () => {
+    expect(addCityAlias('atlantis, xx', { name: 'Atl', kind: 'abbreviation' })).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+// src/lib/cityAliases.ts
+/**
+ * City Aliases
+ *
+ * Adds and removes the other names a city is found by (City.aliases, see
+ * cities.ts). Aliases live on the city itself in the city store, saved
+ * like any other city edit (see cityEditor.ts).
+ *
+ * An alias may not be a name or alias that already finds another city, so
+ * adding one never makes a lookup ambiguous.
+ */
+import { findCities, getAllCities, getCityKey, normalizeCityName } from './cities';
+import { findCityByKey, saveCity } from './cityEditor';
+import type { City, CityAlias } from './validation';
+
+/**
+ * An alias with the key of the city it belongs to
+ */
+export interface CityAliasEntry extends CityAlias {
+  city: string;
+}
+
+/**
+ * Thrown when an alias already finds a different city
+ */
+export class CityAliasConflictError extends Error {
+  constructor(
+    public readonly alias: string,
+    /** Key of the city the alias finds */
+    public readonly existingCity: string
+  ) {
+    super(`"${alias}" already finds ${existingCity}`);
+    this.name = 'CityAliasConflictError';
+  }
+}
+
+/**
+ * Lists every alias of every known city
+ *
+ * @param cityKey - Only this city's aliases
+ */
+export function listCityAliases(cityKey?: string): CityAliasEntry[] {
+  const cities = cityKey ? [findCityByKey(cityKey)].filter((city): city is City => city !== null) : getAllCities();
+  return cities.flatMap(city => (city.aliases ?? []).map(alias => ({ city: getCityKey(city), ...alias })));
+}
+
+/**
+ * Adds an alias to a city, replacing an alias with the same name
+ *
+ * @returns The updated city, or null if no city has that key
+ * @throws CityAliasConflictError if the alias already finds another city
+ */
+export function addCityAlias(cityKey: string, alias: CityAlias): City | null {
+  const city = findCityByKey(cityKey);
+  if (!city) return null;
+
+  const key = getCityKey(city);
+  const other = findCities(alias.name).find(match => getCityKey(match) !== key);
+  if (other) {
+    throw new CityAliasConflictError(alias.name, getCityKey(other));
+  }
+
+  const name = normalizeCityName(alias.name);
+  return saveCity({
+    ...city,
+    aliases: [
+      ...(city.aliases ?? []).filter(existing => normalizeCityName(existing.name) !== name),
+      { name: alias.name.trim(), kind: alias.kind },
+    ],
+    lastUpdated: new Date().toISOString(),
+  });
+}
+
+/**
+ * Removes an alias from a city
+ *
+ * @returns The updated city, or null if the city or alias doesn't exist
+ */
+export function removeCityAlias(cityKey: string, aliasName: string): City | null {
+  const city = findCityByKey(cityKey);
+  const name = normalizeCityName(aliasName);
+  const aliases = city?.aliases?.filter(alias => normalizeCityName(alias.name) !== name);
+  if (!city || !aliases || aliases.length === city.aliases?.length) return null;
+
+  const updated: City = { ...city, aliases, lastUpdated: new Date().toISOString() };
+  if (aliases.length === 0) delete updated.aliases;
+  return saveCity(updated);
+}
@@ -1,32 +1,23 @@
 // src/lib/cityCache.test.ts
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import {
   lookupCityCoords,
   getCityLookupResult,
-  normalizeCityForLookup,
   hasCityCoords,
   getKnownCities,
+  resolveCity,
+  resolveCities,
+  toCityReference,
+  UnknownCountryError,
+  pinCityKey,
+  findAmbiguousCities,
 } from './cityCache';
-
-describe('normalizeCityForLookup', () => {
-  it('should convert to lowercase', () => {
-    expect(normalizeCityForLookup('Paris')).toBe('paris');
-    expect(normalizeCityForLookup('NEW YORK')).toBe('newyork');
-  });
-
-  it('should remove spaces', () => {
-    expect(normalizeCityForLookup('New York')).toBe('newyork');
-    expect(normalizeCityForLookup('San Francisco')).toBe('sanfrancisco');
-  });
-
-  it('should handle multiple spaces', () => {
-    expect(normalizeCityForLookup('New   York')).toBe('newyork');
-  });
-
-  it('should handle empty string', () => {
-    expect(normalizeCityForLookup('')).toBe('');
-  });
-});
+import { createFixtureGeocoder, GeocoderUnavailableError, type Geocoder } from './geocode';
+import { setStores } from './store';
+import { createJsonStores } from './jsonStore';
 
 describe('lookupCityCoords', () => {
   it('should find coordinates for known city (lowercase no spaces)', () => {
@@ -49,11 +40,10 @@ describe('lookupCityCoords', () => {
     expect(coords?.lng).toBe(-74.006);
   });
 
-  it('should find coordinates with normalized lookup (no spaces)', () => {
-    // cityCoords doesn't have 'newyork' as a key, only 'new york'
-    // This test documents current behavior
-    const coords = lookupCityCoords('newyork');
-    expect(coords).toBeNull();
+  it('should find cities by alias', () => {
+    // 'newyork' is listed as a misspelling of 'new york' in cities.json
+    expect(lookupCityCoords('newyork')).toEqual(lookupCityCoords('new york'));
+    expect(lookupCityCoords('NYC')).toEqual(lookupCityCoords('new york'));
   });
 
   it('should return null for unknown city', () => {
@@ -127,3 +117,152 @@ describe('getKnownCities', () => {
     expect(cities).toContain('new york');
   });
 });
+
+describe('toCityReference', () => {
+  it('should turn the country into a code', () => {
+    expect(toCityReference({ city: 'Paris', country: 'France' })).toBe('Paris, FR');
+    expect(toCityReference({ city: 'Paris', region: 'TX', country: 'usa' })).toBe('Paris, TX, US');
+    expect(toCityReference({ city: 'Paris, TX, US' })).toBe('Paris, TX, US');
+  });
+
+  it('should read an unknown country as a region unless there is one already', () => {
+    expect(toCityReference({ city: 'Paris', country: 'Texas' })).toBe('Paris, Texas');
+    expect(() => toCityReference({ city: 'Paris', region: 'TX', country: 'Texas' })).toThrow(UnknownCountryError);
+  });
+});
+
+describe('resolveCity', () => {
+  let tmpDir: string;
+  const fixtures = createFixtureGeocoder({ Ouagadougou: { lat: 12.3714, lng: -1.5197, countryCode: 'BF' } });
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpm-geocode-'));
+    setStores(createJsonStores(tmpDir));
+  });
+
+  afterEach(() => {
+    setStores(null);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should not ask the geocoder about known cities', async () => {
+    const geocoder: Geocoder = {
+      name: 'unused',
+      geocode: () => Promise.reject(new Error('should not be called')),
+    };
+
+    expect(await resolveCity('Paris', geocoder)).toMatchObject({ found: true, source: 'static' });
+  });
+
+  it('should save geocoded cities so later lookups find them', async () => {
+    expect(await resolveCity('Ouagadougou', fixtures)).toEqual({
+      found: true,
+      coords: { lat: 12.3714, lng: -1.5197 },
+      source: 'geocoded',
+    });
+
+    expect(getCityLookupResult('ouagadougou')).toMatchObject({ found: true, source: 'geocoded' });
+    const saved = JSON.parse(fs.readFileSync(path.join(tmpDir, 'cities.json'), 'utf8')) as { cities: Record<string, unknown> };
+    expect(saved.cities['ouagadougou, bf']).toMatchObject({ displayName: 'Ouagadougou', countryCode: 'BF', source: 'geocoded' });
+  });
+
+  it('should tell unknown places from an unavailable geocoder', async () => {
+    const unavailable: Geocoder = {
+      name: 'down',
+      geocode: () => Promise.reject(new GeocoderUnavailableError('offline')),
+    };
+
+    expect(await resolveCity('Nowhereville', fixtures)).toMatchObject({ found: false, source: 'none' });
+    expect(await resolveCity('Ouagadougou', unavailable)).toMatchObject({ found: false, source: 'pending' });
+    expect(fs.existsSync(path.join(tmpDir, 'cities.json'))).toBe(false);
+  });
+
+  it('should geocode a city once for concurrent lookups', async () => {
+    let calls = 0;
+    const counting: Geocoder = { name: 'counting', geocode: city => (calls++, fixtures.geocode(city)) };
+
+    await Promise.all([resolveCity('Ouagadougou', counting), resolveCity('ouagadougou', counting)]);
+
+    expect(calls).toBe(1);
+  });
+});
+
+describe('resolveCities', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpm-geocode-'));
+    setStores(createJsonStores(tmpDir));
+  });
+
+  afterEach(() => {
+    setStores(null);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should sort unknown cities by outcome and skip known ones', async () => {
+    const geocoder = createFixtureGeocoder({ Ouagadougou: { lat: 12.3714, lng: -1.5197 } });
+
+    expect(await resolveCities(['Paris', 'Ouagadougou', 'OUAGADOUGOU', 'Nowhereville'], { geocoder })).toEqual({
+      geocoded: ['Ouagadougou'],
+      pending: [],
+      unknown: ['Nowhereville'],
+    });
+  });
+
+  it('should report slow lookups as pending and save them when they finish', async () => {
+    let finish!: () => void;
+    const finished = new Promise<void>(resolve => (finish = resolve));
+    const slow: Geocoder = {
+      name: 'slow',
+      geocode: async () => {
+        await finished;
+        return { lat: 12.3714, lng: -1.5197, displayName: 'Ouagadougou' };
+      },
+    };
+
+    expect(await resolveCities(['Ouagadougou'], { geocoder: slow, timeoutMs: 10 })).toEqual({
+      geocoded: [],
+      pending: ['Ouagadougou'],
+      unknown: [],
+    });
+
+    finish();
+    expect(await resolveCity('Ouagadougou', slow)).toMatchObject({ found: true, source: 'geocoded' });
+    expect(hasCityCoords('Ouagadougou')).toBe(true);
+  });
+});
+
+describe('ambiguous cities', () => {
+  let tmpDir: string;
+  const fixtures = createFixtureGeocoder({
+    'Paris, TX, US': { lat: 33.6609, lng: -95.5555, region: 'TX', countryCode: 'US' },
+  });
+
+  beforeEach(async () => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpm-ambiguous-'));
+    setStores(createJsonStores(tmpDir));
+    await resolveCity('Paris, TX, US', fixtures);
+  });
+
+  afterEach(() => {
+    setStores(null);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should list the places a bare name could mean, once per name', () => {
+    const ambiguous = findAmbiguousCities(['Paris', 'Paris, FR', 'paris', 'London']);
+
+    expect(ambiguous).toHaveLength(1);
+    expect(ambiguous[0]).toMatchObject({ city: 'Paris', participants: [0, 2] });
+    expect(ambiguous[0]!.options.map(option => option.key).sort()).toEqual(['paris, fr', 'paris, tx, us']);
+  });
+
+  it('should pin only references that say which city they mean', () => {
+    expect(pinCityKey('Paris')).toBeUndefined();
+    expect(pinCityKey('Paris, TX, US')).toBe('paris, tx, us');
+    expect(pinCityKey('London')).toBe('london, gb');
+    // Not geocoded yet, but specific enough to pin
+    expect(pinCityKey('Springfield, IL, US')).toBe('springfield, il, us');
+  });
+});
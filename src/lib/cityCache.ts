@@ -7,25 +7,40 @@
  * mixing concerns with member data storage.
  * 
  * Phase 2 Improvement: Uses cities.json as single source of truth
+ *
+ * Cities that aren't known yet can be resolved with resolveCity: the active
+ * geocoder (see geocode.ts) looks them up and the result is saved to the
+ * city store with source 'geocoded', so each city is only geocoded once.
+ *
+ * Cities are looked up by reference ("Paris", "Paris, FR", see cities.ts).
+ * A name shared by several known cities is ambiguous: it isn't geocoded,
+ * and findAmbiguousCities lists the choices so the user can pick one.
  */
 
-import { getCityCoordinates, getAllCities, cityExists } from './cities';
-import type { CityCoord } from './validation';
+import {
+  findCities,
+  formatCityReference,
+  getAllCities,
+  getCityCoordinates,
+  getCityKey,
+  cityExists,
+  normalizeCityName,
+  parseCityReference,
+  rememberCity,
+} from './cities';
+import { getGeocoder, type Geocoder } from './geocode';
+import { getCityStore } from './store';
+import type { City, CityCoord, CitySource } from './validation';
+import { findCountryCode } from './worldMap';
 
 /**
  * Result of a city lookup, indicating whether coordinates were found
+ * 'pending' means the geocoder couldn't be asked; the city may still exist.
+ * 'ambiguous' means several known cities have that name.
  */
 export type CityLookupResult =
-  | { found: true; coords: CityCoord; source: 'static' }
-  | { found: false; coords: null; source: 'none' };
-
-/**
- * Normalizes a city name for lookup
- * Converts to lowercase and removes spaces for consistent matching
- */
-export function normalizeCityForLookup(city: string): string {
-  return city.toLowerCase().replace(/\s+/g, '');
-}
+  | { found: true; coords: CityCoord; source: CitySource }
+  | { found: false; coords: null; source: 'none' | 'pending' | 'ambiguous' };
 
 /**
  * Looks up coordinates for a city
@@ -47,23 +62,138 @@ export function lookupCityCoords(city: string): CityCoord | null {
  * @returns Lookup result with found status and coordinates
  */
 export function getCityLookupResult(city: string): CityLookupResult {
-  const coords = lookupCityCoords(city);
+  const matches = city ? findCities(city) : [];
+  const known = matches.length === 1 ? matches[0]! : null;
 
-  if (coords) {
+  if (known) {
     return {
       found: true,
-      coords,
-      source: 'static',
+      coords: { lat: known.lat, lng: known.lng },
+      source: known.source ?? 'static',
     };
   }
 
   return {
     found: false,
     coords: null,
-    source: 'none',
+    source: matches.length > 1 ? 'ambiguous' : 'none',
   };
 }
 
+// ===== Participant Cities =====
+
+/**
+ * Thrown when a participant's country isn't a country code or known name
+ */
+export class UnknownCountryError extends Error {
+  constructor(public readonly country: string) {
+    super(`Unknown country "${country}" - use a two-letter code like "FR" or the English name`);
+    this.name = 'UnknownCountryError';
+  }
+}
+
+/**
+ * Builds the city reference for a participant
+ * The country may be a code or a name ("France", "USA"). An unknown country
+ * without a region is taken as the region ("Portland, Oregon").
+ *
+ * @returns E.g. "Paris, FR" or "Portland, Oregon"
+ * @throws UnknownCountryError if the country is unknown and a region was given too
+ */
+export function toCityReference(participant: { city: string; region?: string; country?: string }): string {
+  const query = parseCityReference(participant.city);
+  const region = participant.region ?? query.region;
+  if (!participant.country) {
+    return formatCityReference({ ...query, region });
+  }
+
+  const countryCode = findCountryCode(participant.country);
+  if (countryCode) {
+    return formatCityReference({ ...query, region, countryCode });
+  }
+  if (region) {
+    throw new UnknownCountryError(participant.country);
+  }
+  return formatCityReference({ ...query, region: participant.country });
+}
+
+/**
+ * City key to pin on a member, so they keep their city once a namesake exists
+ * The key of the city the reference names, or the normalized reference
+ * itself if it says which country or region but the city isn't known yet.
+ */
+export function pinCityKey(reference: string): string | undefined {
+  const matches = findCities(reference);
+  if (matches.length === 1) {
+    return getCityKey(matches[0]!);
+  }
+  const query = parseCityReference(reference);
+  return matches.length === 0 && (query.region ?? query.countryCode) ? normalizeCityName(formatCityReference(query)) : undefined;
+}
+
+/**
+ * One of the cities an ambiguous name (or a misspelled one, see
+ * citySearch.ts) could mean
+ */
+export interface CityOption {
+  key: string;
+  displayName: string;
+  region?: string;
+  countryCode?: string;
+  lat: number;
+  lng: number;
+}
+
+/**
+ * A known city as a choice for the user
+ */
+export function toCityOption(city: City): CityOption {
+  return {
+    key: getCityKey(city),
+    displayName: city.displayName,
+    ...(city.region ? { region: city.region } : {}),
+    ...(city.countryCode ? { countryCode: city.countryCode } : {}),
+    lat: city.lat,
+    lng: city.lng,
+  };
+}
+
+/**
+ * A city reference that fits several known cities
+ */
+export interface AmbiguousCity {
+  /** The reference as given */
+  city: string;
+  /** Indexes of the references (participants) that use it */
+  participants: number[];
+  /** Resubmitting with an option's key as the city picks that city */
+  options: CityOption[];
+}
+
+/**
+ * Lists the references that fit more than one known city, with the choices
+ *
+ * @param references - City references, e.g. from toCityReference
+ */
+export function findAmbiguousCities(references: string[]): AmbiguousCity[] {
+  const uses = new Map<string, number[]>();
+  references.forEach((reference, i) => {
+    const key = normalizeCityName(reference);
+    uses.set(key, [...(uses.get(key) ?? []), i]);
+  });
+
+  return [...uses.values()].flatMap(participants => {
+    const reference = references[participants[0]!]!;
+    const matches = findCities(reference);
+    if (matches.length < 2) return [];
+    return [{
+      city: reference,
+      participants,
+      options: matches.map(toCityOption),
+    }];
+  });
+}
+
 /**
  * Gets all known cities
  * @returns Array of city names that have coordinates
@@ -80,3 +210,127 @@ export function getKnownCities(): string[] {
 export function hasCityCoords(city: string): boolean {
   return cityExists(city);
 }
+
+// ===== Geocoding =====
+
+// Lookups in progress, so concurrent requests for a city share one
+const pendingLookups = new Map<string, Promise<CityLookupResult>>();
+
+/**
+ * Looks up a city, asking the geocoder if it isn't known yet
+ * A place the geocoder finds is saved to the city store (source 'geocoded')
+ * and known to every lookup from then on. Ambiguous names aren't geocoded.
+ *
+ * @param city - City reference as entered ("Paris" or "Paris, FR")
+ * @param geocoder - Defaults to the active geocoder
+ * @returns The lookup result; source 'pending' if the geocoder couldn't be asked
+ */
+export async function resolveCity(city: string, geocoder: Geocoder = getGeocoder()): Promise<CityLookupResult> {
+  const known = getCityLookupResult(city);
+  const key = normalizeCityName(city);
+  if (known.source !== 'none' || !key) {
+    return known;
+  }
+
+  let lookup = pendingLookups.get(key);
+  if (!lookup) {
+    lookup = geocodeAndSave(city, geocoder).finally(() => pendingLookups.delete(key));
+    pendingLookups.set(key, lookup);
+  }
+  return lookup;
+}
+
+async function geocodeAndSave(city: string, geocoder: Geocoder): Promise<CityLookupResult> {
+  let place;
+  try {
+    place = await geocoder.geocode(city);
+  } catch (error) {
+    console.warn(`Could not geocode "${city}" with ${geocoder.name}:`, error instanceof Error ? error.message : error);
+    return { found: false, coords: null, source: 'pending' };
+  }
+  if (!place) {
+    return { found: false, coords: null, source: 'none' };
+  }
+
+  // Saved under the name as entered, so looking it up again finds it
+  const query = parseCityReference(city);
+  const countryCode = place.countryCode ?? query.countryCode;
+  const saved: City = {
+    normalizedName: normalizeCityName(query.name),
+    displayName: place.displayName,
+    lat: place.lat,
+    lng: place.lng,
+    ...(place.region ? { region: place.region } : {}),
+    ...(countryCode ? { countryCode } : {}),
+    lastUpdated: new Date().toISOString(),
+    source: 'geocoded',
+  };
+  getCityStore().upsert(saved);
+  rememberCity(saved);
+  return { found: true, coords: { lat: saved.lat, lng: saved.lng }, source: 'geocoded' };
+}
+
+/**
+ * What resolveCities did with the cities it was given
+ */
+export interface CityResolution {
+  /** Found by the geocoder and saved */
+  geocoded: string[];
+  /** Not answered in time, or the geocoder was unavailable; try again later */
+  pending: string[];
+  /** The geocoder knows no such place */
+  unknown: string[];
+}
+
+/**
+ * Resolves the unknown cities among a list of references, waiting at most timeoutMs
+ * Lookups still running when the time is up are reported as pending; they
+ * carry on and save their result when done, so a later lookup finds them.
+ * Saving failures are logged and reported as pending.
+ */
+export async function resolveCities(
+  cities: string[],
+  { timeoutMs = 5000, geocoder = getGeocoder() }: { timeoutMs?: number; geocoder?: Geocoder } = {}
+): Promise<CityResolution> {
+  const resolution: CityResolution = { geocoded: [], pending: [], unknown: [] };
+  const seen = new Set<string>();
+  const unknownCities = cities.filter(city => {
+    const key = normalizeCityName(city);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return findCities(city).length === 0;
+  });
+  if (unknownCities.length === 0) {
+    return resolution;
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<'timeout'>(resolve => {
+    timer = setTimeout(() => resolve('timeout'), timeoutMs);
+  });
+
+  const results = await Promise.all(
+    unknownCities.map(city =>
+      Promise.race([
+        resolveCity(city, geocoder).catch((error: unknown) => {
+          console.error(`Could not save geocoded city "${city}":`, error);
+          return null;
+        }),
+        timeout,
+      ])
+    )
+  );
+  clearTimeout(timer);
+
+  results.forEach((result, i) => {
+    const city = unknownCities[i]!;
+    if (result === 'timeout' || result === null || result.source === 'pending') {
+      resolution.pending.push(city);
+    } else if (result.found) {
+      resolution.geocoded.push(city);
+    } else {
+      resolution.unknown.push(city);
+    }
+  });
+  return resolution;
+}
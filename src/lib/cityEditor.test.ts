@@ -0,0 +1,79 @@
+// src/lib/cityEditor.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CuratedCityError, createCity, deleteCity, DuplicateCityError, findCityByKey, updateCity } from './cityEditor';
+import { getCityByName } from './cities';
+import { setStores } from './store';
+import { createJsonStores } from './jsonStore';
+
+describe('city editor', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpm-city-editor-'));
+    setStores(createJsonStores(tmpDir));
+  });
+
+  afterEach(() => {
+    setStores(null);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('createCity', () => {
+    it('should add a city marked as entered by hand', () => {
+      const city = createCity({ displayName: ' Lyonesse ', region: 'Cornwall', countryCode: 'gb', lat: 49.95, lng: -6.3 });
+
+      expect(city).toMatchObject({ normalizedName: 'lyonesse', displayName: 'Lyonesse', countryCode: 'GB', source: 'manual' });
+      expect(city.lastUpdated).toBeDefined();
+      expect(getCityByName('Lyonesse, GB')).toEqual(city);
+      expect(findCityByKey('lyonesse, cornwall, gb')).toEqual(city);
+    });
+
+    it('should refuse a key that is taken', () => {
+      expect(() => createCity({ displayName: 'Paris', countryCode: 'FR', lat: 0, lng: 0 })).toThrow(DuplicateCityError);
+    });
+  });
+
+  describe('updateCity', () => {
+    it('should correct a curated city through the store', () => {
+      const city = updateCity('Paris, FR', { lat: 48.85, lng: 2.35 });
+
+      expect(city).toMatchObject({ displayName: 'Paris', lat: 48.85, lng: 2.35, source: 'manual' });
+      expect(getCityByName('paris, fr')?.lat).toBe(48.85);
+      const saved = JSON.parse(fs.readFileSync(path.join(tmpDir, 'cities.json'), 'utf8')) as {
+        cities: Record<string, { lat: number }>;
+      };
+      expect(saved.cities['paris, fr']?.lat).toBe(48.85);
+    });
+
+    it('should back the store up before changing it', () => {
+      updateCity('Paris, FR', { lat: 48.85 });
+      updateCity('Paris, FR', { lat: 48.86 });
+
+      const backups = fs.readdirSync(path.join(tmpDir, 'backups'));
+      expect(backups).toHaveLength(1);
+      expect(fs.readFileSync(path.join(tmpDir, 'backups', backups[0]!), 'utf8')).toContain('48.85');
+    });
+
+    it('should return null for unknown keys', () => {
+      expect(updateCity('nowhere, xx', { lat: 1 })).toBeNull();
+    });
+  });
+
+  describe('deleteCity', () => {
+    it('should delete a stored city', () => {
+      createCity({ displayName: 'Lyonesse', countryCode: 'GB', lat: 49.95, lng: -6.3 });
+
+      expect(deleteCity('lyonesse, gb')?.displayName).toBe('Lyonesse');
+      expect(getCityByName('Lyonesse')).toBeNull();
+      expect(deleteCity('lyonesse, gb')).toBeNull();
+    });
+
+    it('should refuse to delete a city only the bundled data holds', () => {
+      expect(() => deleteCity('paris, fr')).toThrow(CuratedCityError);
+      expect(getCityByName('Paris, FR')).not.toBeNull();
+    });
+  });
+});
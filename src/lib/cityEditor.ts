@@ -0,0 +1,120 @@
+// src/lib/cityEditor.ts
+/**
+ * City Editor
+ *
+ * Adds, corrects and deletes cities by hand, for the city admin page and
+ * /api/cities. Every change stamps the city with lastUpdated and source
+ * 'manual', and the city store is backed up first (CityStore.backup keeps
+ * the newest few copies in a backups/ directory next to the store).
+ *
+ * Editing a curated city saves a copy to the city store that replaces the
+ * curated one (see getAllCities); with the default JSON store, the store is
+ * src/data/cities.json itself.
+ */
+import { getAllCities, getCityKey, invalidateCities, normalizeCityName, rememberCity } from './cities';
+import { getCityStore } from './store';
+import { CitySchema, type City, type CreateCityInput, type UpdateCityInput } from './validation';
+
+/**
+ * Thrown when adding a city whose key is taken
+ */
+export class DuplicateCityError extends Error {
+  constructor(public readonly existing: City) {
+    super(`City ${getCityKey(existing)} already exists`);
+    this.name = 'DuplicateCityError';
+  }
+}
+
+/**
+ * Thrown when deleting a curated city the city store doesn't hold (the
+ * store isn't src/data/cities.json), which only editing that file removes
+ */
+export class CuratedCityError extends Error {
+  constructor(public readonly key: string) {
+    super(`${key} is curated in src/data/cities.json; correct it instead of deleting it`);
+    this.name = 'CuratedCityError';
+  }
+}
+
+/**
+ * Finds a known city by its exact key ("paris, tx, us")
+ */
+export function findCityByKey(cityKey: string): City | null {
+  const key = normalizeCityName(cityKey);
+  return getAllCities().find(city => getCityKey(city) === key) ?? null;
+}
+
+/**
+ * Backs up the city store, then saves a city to it
+ */
+export function saveCity(city: City): City {
+  const store = getCityStore();
+  store.backup();
+  store.upsert(city);
+  rememberCity(city);
+  return city;
+}
+
+/**
+ * Adds a city
+ *
+ * @throws DuplicateCityError if a city with the same key exists
+ * @throws ZodError if the resulting city is invalid
+ */
+export function createCity(input: CreateCityInput): City {
+  const city = CitySchema.parse({
+    ...input,
+    normalizedName: normalizeCityName(input.normalizedName ?? input.displayName),
+    displayName: input.displayName.trim(),
+    ...(input.region ? { region: input.region.trim() } : {}),
+    ...(input.countryCode ? { countryCode: input.countryCode.toUpperCase() } : {}),
+    lastUpdated: new Date().toISOString(),
+    source: 'manual',
+  });
+
+  const existing = findCityByKey(getCityKey(city));
+  if (existing) {
+    throw new DuplicateCityError(existing);
+  }
+  return saveCity(city);
+}
+
+/**
+ * Corrects a city's name or coordinates
+ *
+ * @returns The updated city, or null if no city has that key
+ */
+export function updateCity(cityKey: string, changes: UpdateCityInput): City | null {
+  const city = findCityByKey(cityKey);
+  if (!city) return null;
+
+  return saveCity({
+    ...city,
+    ...changes,
+    ...(changes.displayName ? { displayName: changes.displayName.trim() } : {}),
+    lastUpdated: new Date().toISOString(),
+    source: 'manual',
+  });
+}
+
+/**
+ * Deletes a city
+ *
+ * @returns The deleted city, or null if no city has that key
+ * @throws CuratedCityError if the city is only known from the curated data
+ */
+export function deleteCity(cityKey: string): City | null {
+  const city = findCityByKey(cityKey);
+  if (!city) return null;
+
+  const key = getCityKey(city);
+  const store = getCityStore();
+  if (!store.list().some(stored => getCityKey(stored) === key)) {
+    throw new CuratedCityError(key);
+  }
+  store.backup();
+  store.delete(key);
+  // A curated city the store overrode shows through again
+  invalidateCities();
+  return city;
+}
@@ -0,0 +1,71 @@
+// src/lib/citySearch.test.ts
+import { describe, it, expect } from 'vitest';
+import { scoreCityName, searchCities } from './citySearch';
+import type { City } from './validation';
+
+const city = (displayName: string, countryCode: string, region?: string): City => ({
+  normalizedName: displayName.toLowerCase(),
+  displayName,
+  lat: 0,
+  lng: 0,
+  countryCode,
+  ...(region ? { region } : {}),
+});
+
+describe('scoreCityName', () => {
+  it('should ignore case, accents, punctuation and spaces', () => {
+    expect(scoreCityName('BOGOTA', 'Bogotá')).toBe(1);
+    expect(scoreCityName('Newyork', 'New York')).toBe(0.95);
+  });
+
+  it('should tolerate typos and rank them below exact names', () => {
+    expect(scoreCityName('Talin', 'Tallinn')).toBeGreaterThan(0.6);
+    expect(scoreCityName('Talin', 'Tallinn')).toBeLessThan(scoreCityName('Tallin', 'Tallinn'));
+    expect(scoreCityName('Lagos', 'Tokyo')).toBeLessThan(0.6);
+  });
+
+  it('should match the start of a name, but not from one or two letters', () => {
+    expect(scoreCityName('San Fr', 'San Francisco')).toBeGreaterThan(0.8);
+    expect(scoreCityName('Sa', 'San Francisco')).toBeLessThan(0.6);
+  });
+});
+
+describe('searchCities', () => {
+  it('should suggest the closest known cities first', () => {
+    const suggestions = searchCities('Talin');
+
+    expect(suggestions[0]).toMatchObject({ key: 'tallinn, ee', displayName: 'Tallinn', countryCode: 'EE' });
+  });
+
+  it('should find cities by alias', () => {
+    expect(searchCities('NYC')[0]).toMatchObject({ key: 'new york, us', alias: 'NYC', score: 1 });
+    expect(searchCities('bengaluru')[0]?.displayName).toBe('Bangalore');
+  });
+
+  it('should find cities by local-language aliases in any script', () => {
+    const cities = [
+      { ...city('Moscow', 'RU'), aliases: [{ name: 'Москва', kind: 'local' as const }] },
+      { ...city('Tokyo', 'JP'), aliases: [{ name: '東京', kind: 'local' as const }] },
+    ];
+
+    expect(searchCities('москва', { cities })[0]).toMatchObject({ key: 'moscow, ru', alias: 'Москва', score: 1 });
+    expect(searchCities('東京', { cities })[0]).toMatchObject({ key: 'tokyo, jp', alias: '東京', score: 1 });
+  });
+
+  it('should keep to the country and region asked for', () => {
+    const cities = [city('Paris', 'FR'), city('Paris', 'US', 'TX'), city('Parma', 'IT')];
+
+    expect(searchCities('Pariss', { cities }).map(s => s.key)).toEqual(['paris, fr', 'paris, tx, us']);
+    expect(searchCities('Pariss, US', { cities }).map(s => s.key)).toEqual(['paris, tx, us']);
+    expect(searchCities('Paris, KY, US', { cities })).toEqual([]);
+  });
+
+  it('should return nothing for blank or unrelated input', () => {
+    expect(searchCities(' ')).toEqual([]);
+    expect(searchCities('Xqzw')).toEqual([]);
+  });
+
+  it('should stop at the limit', () => {
+    expect(searchCities('a', { limit: 2, cities: [city('A', 'FR'), city('A', 'DE'), city('A', 'IT')] })).toHaveLength(2);
+  });
+});
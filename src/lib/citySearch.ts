@@ -0,0 +1,96 @@
+// src/lib/citySearch.ts
+/**
+ * City Search
+ *
+ * Suggests known cities for what someone typed, so a misspelled or
+ * abbreviated city can be fixed before a meeting is saved:
+ * - case, accents and punctuation don't matter ("bogota" finds "Bogotá")
+ * - neither do spaces ("Newyork" finds "New York")
+ * - typos are tolerated, by edit distance ("Talin" finds "Tallinn")
+ * - the start of a name finds it ("San Fr" finds "San Francisco")
+ * - aliases find the city they stand for ("NYC" finds "New York", see
+ *   City.aliases)
+ *
+ * A country or region in the query ("Paris, FR") limits the results to it.
+ */
+import { getAllCities, parseCityReference } from './cities';
+import { toCityOption, type CityOption } from './cityCache';
+import { editDistance, foldCompact, foldName } from './textMatch';
+import type { City } from './validation';
+
+/** Suggestions scoring lower than this aren't worth showing */
+const MIN_SCORE = 0.6;
+
+/** Shorter queries must match a whole name ("SF"), not just its start */
+const MIN_PREFIX_LENGTH = 3;
+
+/**
+ * A known city that fits a search
+ */
+export interface CitySuggestion extends CityOption {
+  /** How well it fits, from MIN_SCORE to 1 (same name) */
+  score: number;
+  /** The alias that matched, when it wasn't the name */
+  alias?: string;
+}
+
+export interface CitySearchOptions {
+  /** Most suggestions to return (default 5) */
+  limit?: number;
+  /** Cities to search (default: every known city) */
+  cities?: City[];
+}
+
+/**
+ * How well a typed name fits a city name, from 0 (not at all) to 1 (the same)
+ */
+export function scoreCityName(typed: string, name: string): number {
+  const foldedTyped = foldName(typed);
+  const foldedName = foldName(name);
+  if (!foldedTyped || !foldedName) return 0;
+  if (foldedTyped === foldedName) return 1;
+
+  const compactTyped = foldCompact(typed);
+  const compactName = foldCompact(name);
+  if (compactTyped === compactName) return 0.95;
+  if (compactTyped.length >= MIN_PREFIX_LENGTH && compactName.startsWith(compactTyped)) {
+    return 0.8 + 0.1 * (compactTyped.length / compactName.length);
+  }
+  return 1 - editDistance(compactTyped, compactName) / Math.max(compactTyped.length, compactName.length);
+}
+
+/**
+ * Best score of a city's name and aliases
+ */
+function scoreCity(typed: string, city: City): CitySuggestion {
+  const option = toCityOption(city);
+  let best: CitySuggestion = {
+    ...option,
+    score: Math.max(scoreCityName(typed, city.displayName), scoreCityName(typed, city.normalizedName)),
+  };
+  for (const alias of city.aliases ?? []) {
+    const score = scoreCityName(typed, alias.name);
+    if (score > best.score) {
+      best = { ...option, score, alias: alias.name };
+    }
+  }
+  return best;
+}
+
+/**
+ * Known cities that a typed city reference may mean, best first
+ *
+ * @param query - City reference as typed ("Talin", "Paris, TX, US")
+ */
+export function searchCities(query: string, { limit = 5, cities = getAllCities() }: CitySearchOptions = {}): CitySuggestion[] {
+  const { name, region, countryCode } = parseCityReference(query);
+  if (!foldName(name)) return [];
+
+  return cities
+    .filter(city => !countryCode || city.countryCode?.toUpperCase() === countryCode)
+    .filter(city => !region || !city.region || foldCompact(city.region) === foldCompact(region))
+    .map(city => scoreCity(name, city))
+    .filter(suggestion => suggestion.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score || a.displayName.localeCompare(b.displayName))
+    .slice(0, limit);
+}
@@ -0,0 +1,115 @@
+// src/lib/dataFile.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  CorruptDataError,
+  readJsonFile,
+  withFileLock,
+  writeFileAtomic,
+  writeJsonFileAtomic,
+} from './dataFile';
+
+describe('dataFile', () => {
+  let tmpDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpm-datafile-'));
+    filePath = path.join(tmpDir, 'data.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('writeFileAtomic', () => {
+    it('should write content and leave no temp files behind', () => {
+      writeFileAtomic(filePath, 'hello');
+
+      expect(fs.readFileSync(filePath, 'utf8')).toBe('hello');
+      expect(fs.readdirSync(tmpDir)).toEqual(['data.json']);
+    });
+
+    it('should replace existing content', () => {
+      writeFileAtomic(filePath, 'old');
+      writeFileAtomic(filePath, 'new');
+
+      expect(fs.readFileSync(filePath, 'utf8')).toBe('new');
+    });
+
+    it('should create missing parent directories', () => {
+      const nested = path.join(tmpDir, 'a', 'b', 'data.json');
+      writeJsonFileAtomic(nested, [1, 2]);
+
+      expect(readJsonFile(nested)).toEqual([1, 2]);
+    });
+  });
+
+  describe('readJsonFile', () => {
+    it('should return undefined for a missing file', () => {
+      expect(readJsonFile(filePath)).toBeUndefined();
+    });
+
+    it('should throw CorruptDataError for truncated JSON', () => {
+      fs.writeFileSync(filePath, '[{"id": "a", "na');
+
+      expect(() => readJsonFile(filePath)).toThrow(CorruptDataError);
+    });
+
+    it('should throw CorruptDataError for an empty file', () => {
+      fs.writeFileSync(filePath, '');
+
+      expect(() => readJsonFile(filePath)).toThrow('file is empty');
+    });
+  });
+
+  describe('withFileLock', () => {
+    const lockPath = () => `${filePath}.lock`;
+
+    it('should hold the lock only while fn runs', () => {
+      const result = withFileLock(filePath, () => {
+        expect(fs.existsSync(lockPath())).toBe(true);
+        return 42;
+      });
+
+      expect(result).toBe(42);
+      expect(fs.existsSync(lockPath())).toBe(false);
+    });
+
+    it('should release the lock when fn throws', () => {
+      expect(() =>
+        withFileLock(filePath, () => {
+          throw new Error('boom');
+        })
+      ).toThrow('boom');
+
+      expect(fs.existsSync(lockPath())).toBe(false);
+    });
+
+    it('should be re-entrant within a process', () => {
+      const result = withFileLock(filePath, () => withFileLock(filePath, () => 'nested'));
+
+      expect(result).toBe('nested');
+      expect(fs.existsSync(lockPath())).toBe(false);
+    });
+
+    it('should time out while another process holds the lock', () => {
+      fs.writeFileSync(lockPath(), '99999 other process');
+
+      expect(() => withFileLock(filePath, () => 1, { timeoutMs: 100 })).toThrow(
+        'Timed out waiting for lock'
+      );
+      expect(fs.existsSync(lockPath())).toBe(true);
+    });
+
+    it('should break a stale lock', () => {
+      fs.writeFileSync(lockPath(), '99999 crashed process');
+      const past = new Date(Date.now() - 60_000);
+      fs.utimesSync(lockPath(), past, past);
+
+      expect(withFileLock(filePath, () => 'ok', { staleMs: 1000 })).toBe('ok');
+    });
+  });
+});
@@ -0,0 +1,180 @@
+// src/lib/dataFile.ts
+/**
+ * Safe Data File Helpers
+ *
+ * Low-level helpers used by the JSON storage backend so that concurrent
+ * requests (or several server processes) can't corrupt or lose data:
+ *
+ * - writeFileAtomic: write to a temp file, fsync, then rename over the target.
+ *   Readers see either the old or the new content, never a half-written file.
+ * - withFileLock: exclusive lock file ({file}.lock) held for a whole
+ *   load-modify-save cycle. Works across processes; re-entrant within one.
+ * - readJsonFile: parses a data file and throws CorruptDataError instead of
+ *   quietly returning an empty value that the next save would persist.
+ */
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Thrown when a data file exists but can't be parsed or has the wrong shape
+ * Callers should surface this instead of treating the file as empty.
+ */
+export class CorruptDataError extends Error {
+  constructor(
+    public readonly filePath: string,
+    reason: string
+  ) {
+    super(`Data file ${filePath} is corrupted: ${reason}`);
+    this.name = 'CorruptDataError';
+  }
+}
+
+// ===== Atomic Writes =====
+
+/**
+ * Writes a file atomically (temp file + fsync + rename)
+ * Creates the parent directory if it doesn't exist
+ *
+ * @param filePath - Destination file
+ * @param content - Full file content (strings are written as UTF-8)
+ */
+export function writeFileAtomic(filePath: string, content: string | Buffer): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}-${crypto.randomBytes(4).toString('hex')}.tmp`;
+
+  try {
+    const fd = fs.openSync(tmpPath, 'w');
+    try {
+      fs.writeFileSync(fd, content, 'utf8');
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tmpPath, filePath);
+  } catch (error) {
+    fs.rmSync(tmpPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Serializes data as formatted JSON (2-space indent) and writes it atomically
+ */
+export function writeJsonFileAtomic(filePath: string, data: unknown): void {
+  writeFileAtomic(filePath, JSON.stringify(data, null, 2));
+}
+
+// ===== Reading =====
+
+/**
+ * Reads and parses a JSON data file
+ *
+ * @param filePath - File to read
+ * @returns Parsed content, or undefined if the file doesn't exist
+ * @throws CorruptDataError if the file is empty or not valid JSON
+ */
+export function readJsonFile(filePath: string): unknown {
+  if (!fs.existsSync(filePath)) {
+    return undefined;
+  }
+
+  const content = fs.readFileSync(filePath, 'utf8');
+  if (content.trim() === '') {
+    throw new CorruptDataError(filePath, 'file is empty');
+  }
+
+  try {
+    return JSON.parse(content) as unknown;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new CorruptDataError(filePath, message);
+  }
+}
+
+// ===== Locking =====
+
+export interface FileLockOptions {
+  /** How long to wait for another holder before giving up (ms) */
+  timeoutMs?: number;
+  /** Locks older than this are assumed abandoned by a crashed process (ms) */
+  staleMs?: number;
+}
+
+const LOCK_RETRY_MS = 25;
+
+// Locks this process currently holds, with nesting depth (makes locks re-entrant)
+const heldLocks = new Map<string, number>();
+
+/**
+ * Blocks the current thread without spinning the CPU
+ */
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+function acquireLock(lockPath: string, { timeoutMs = 5000, staleMs = 30000 }: FileLockOptions): void {
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    try {
+      fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+      const fd = fs.openSync(lockPath, 'wx');
+      fs.writeSync(fd, `${process.pid} ${new Date().toISOString()}`);
+      fs.closeSync(fd);
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+
+    // Break locks left behind by a crashed process
+    try {
+      const age = Date.now() - fs.statSync(lockPath).mtimeMs;
+      if (age > staleMs) {
+        console.warn(`Removing stale lock ${lockPath} (${Math.round(age / 1000)}s old)`);
+        fs.rmSync(lockPath, { force: true });
+        continue;
+      }
+    } catch {
+      continue; // Lock vanished between open and stat - retry immediately
+    }
+
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for lock ${lockPath}`);
+    }
+    sleepSync(LOCK_RETRY_MS);
+  }
+}
+
+/**
+ * Runs fn while holding an exclusive lock on filePath
+ *
+ * The lock is a sibling file ({filePath}.lock) created with O_EXCL, so it
+ * excludes other processes as well as this one. Within a process, nested
+ * calls for the same file reuse the held lock. Since all file operations here
+ * are synchronous, callers inside one process are naturally queued.
+ *
+ * @param filePath - Data file being protected
+ * @param fn - Work to do while the lock is held (load-modify-save)
+ * @returns Whatever fn returns
+ */
+export function withFileLock<T>(filePath: string, fn: () => T, options: FileLockOptions = {}): T {
+  const lockPath = `${path.resolve(filePath)}.lock`;
+  const depth = heldLocks.get(lockPath) ?? 0;
+
+  if (depth === 0) {
+    acquireLock(lockPath, options);
+  }
+  heldLocks.set(lockPath, depth + 1);
+
+  try {
+    return fn();
+  } finally {
+    if (depth === 0) {
+      heldLocks.delete(lockPath);
+      fs.rmSync(lockPath, { force: true });
+    } else {
+      heldLocks.set(lockPath, depth);
+    }
+  }
+}
@@ -0,0 +1,106 @@
+// src/lib/doctor.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { checkHealth, repairHealth } from './doctor';
+import { loadMeeting, saveMeeting } from './meetings';
+import { loadMembers, saveMembers } from './members';
+import { setStores } from './store';
+import { createJsonStores } from './jsonStore';
+import type { Member } from './validation';
+
+const member = (id: string, name: string, city: string): Member => ({
+  id,
+  name,
+  city,
+  createdAt: '2026-01-10T00:00:00.000Z',
+});
+
+describe('doctor', () => {
+  let tmpDir: string;
+  const options = () => ({ backupDirs: [tmpDir] });
+  const codes = () => checkHealth(options()).issues.map(issue => issue.code).sort();
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpm-doctor-'));
+    setStores(createJsonStores(tmpDir));
+    saveMembers([member('alice', 'Alice', 'Paris'), member('bob', 'Bob', 'London')]);
+    saveMeeting({ id: 'call-2026-01-01', title: 'Call', date: '2026-01-01', participantIds: ['alice', 'bob'] });
+  });
+
+  afterEach(() => {
+    setStores(null);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should report healthy data as ok', () => {
+    const report = checkHealth(options());
+
+    expect(report.ok).toBe(true);
+    expect(report.issues).toEqual([]);
+    expect(report.counts).toEqual({ members: 2, meetings: 1, backups: 0 });
+  });
+
+  it('should find orphan and repeated participants', () => {
+    saveMeeting({ id: 'call-2026-01-02', title: 'Call', date: '2026-01-02', participantIds: ['alice', 'ghost', 'alice'] });
+
+    expect(codes()).toEqual(['duplicate-participant', 'orphan-participant']);
+    expect(checkHealth(options()).ok).toBe(true);
+  });
+
+  it('should find members whose cities have no coordinates', () => {
+    saveMembers([...loadMembers(), { ...member('carol', 'Carol', 'Paris'), cityHistory: [{ city: 'Nowhere Town', until: '2026-01-01' }] }]);
+
+    expect(codes()).toEqual(['unknown-city']);
+  });
+
+  it('should report meeting files that listings skip', () => {
+    fs.writeFileSync(path.join(tmpDir, 'meetings', 'broken.json'), '{"schemaVersion": 1, "id": "broken"}');
+    fs.writeFileSync(path.join(tmpDir, 'meetings', 'old-2026-01-01.json'), '{"id": "old-2026-01-01"}');
+
+    const report = checkHealth(options());
+    expect(report.ok).toBe(false);
+    expect(report.issues.map(issue => issue.subject).sort()).toEqual(['broken', 'old-2026-01-01']);
+  });
+
+  it('should report duplicate member IDs', () => {
+    const alice = member('alice', 'Alice', 'Paris');
+    saveMembers([alice, alice, member('bob', 'Bob', 'London'), member('bob', 'Robert', 'London')]);
+
+    const issues = checkHealth(options()).issues;
+    expect(issues.map(issue => [issue.subject, issue.fixable])).toEqual([['alice', true], ['bob', false]]);
+  });
+
+  it('should flag piling-up backups', () => {
+    for (const time of [1, 2, 3, 4, 5]) {
+      fs.writeFileSync(path.join(tmpDir, `members.json.bak.${time}`), '[]');
+    }
+
+    expect(codes()).toEqual(['stale-backups']);
+  });
+
+  describe('repairHealth', () => {
+    it('should apply only the safe repairs', () => {
+      const alice = member('alice', 'Alice', 'Paris');
+      saveMembers([alice, alice, member('bob', 'Bob', 'London'), member('bob', 'Robert', 'London')]);
+      saveMeeting({ id: 'call-2026-01-02', title: 'Call', date: '2026-01-02', participantIds: ['alice', 'ghost', 'alice'] });
+      for (const time of [1, 2, 3, 4, 5]) {
+        fs.writeFileSync(path.join(tmpDir, `members.json.bak.${time}`), '[]');
+      }
+
+      const repairs = repairHealth(checkHealth(options()), options());
+
+      expect(repairs).toHaveLength(3);
+      expect(loadMembers().map(m => m.name)).toEqual(['Alice', 'Bob', 'Robert']);
+      expect(loadMeeting('call-2026-01-02')?.participantIds).toEqual(['alice']);
+      expect(fs.readdirSync(tmpDir).filter(f => f.includes('.bak.')).sort())
+        .toEqual(['members.json.bak.3', 'members.json.bak.4', 'members.json.bak.5']);
+      expect(codes()).toEqual(['duplicate-member-id']);
+    });
+
+    it('should do nothing for healthy data', () => {
+      expect(repairHealth(checkHealth(options()), options())).toEqual([]);
+    });
+  });
+});
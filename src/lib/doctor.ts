@@ -0,0 +1,293 @@
+// src/lib/doctor.ts
+/**
+ * Data Integrity Checks ("doctor")
+ *
+ * Nothing in the normal read path cross-checks the data files, so problems
+ * pile up quietly: meetings pointing at deleted members, members in cities
+ * without coordinates, meeting files that listMeetings skips, and backups
+ * left behind by fill-cities / migrate. checkHealth() reports them;
+ * repairHealth() applies the repairs that can't lose information.
+ *
+ * Checks:
+ * - unreadable-members    registry can't be loaded (corrupt or needs migrating)
+ * - unreadable-cities     cities.json can't be loaded (needs migrating)
+ * - invalid-meeting       stored meeting that list/get skip
+ * - duplicate-member-id   several members share an ID
+ * - orphan-participant    meeting lists an ID with no member
+ * - duplicate-participant meeting lists the same member twice
+ * - unknown-city          member's current or past city has no coordinates
+ * - stale-backups         more than KEEP_BACKUPS backups of one data file
+ *
+ * Used by `npm run doctor` and GET /api/admin/health.
+ */
+import fs from 'fs';
+import path from 'path';
+import { findBackups, getBackupDir, KEEP_BACKUPS } from './backups';
+import { getLocationCity } from './cities';
+import { listMeetings, saveMeeting } from './meetings';
+import { loadMembers, saveMembers } from './members';
+import { getMeetingStore, getMemberStore, getStoreConfig } from './store';
+import type { Meeting, Member } from './validation';
+
+export type HealthIssueCode =
+  | 'unreadable-members'
+  | 'unreadable-cities'
+  | 'invalid-meeting'
+  | 'duplicate-member-id'
+  | 'orphan-participant'
+  | 'duplicate-participant'
+  | 'unknown-city'
+  | 'stale-backups';
+
+/**
+ * One problem found in the data
+ * `error` issues break pages or exports; `warning` issues degrade them.
+ */
+export interface HealthIssue {
+  code: HealthIssueCode;
+  severity: 'error' | 'warning';
+  message: string;
+  /** Whether repairHealth() can fix it safely */
+  fixable: boolean;
+  /** Member, meeting or file the issue is about */
+  subject: string;
+}
+
+export interface HealthReport {
+  ok: boolean;
+  checkedAt: string;
+  counts: { members: number; meetings: number; backups: number };
+  issues: HealthIssue[];
+}
+
+export interface HealthOptions {
+  /** Directories scanned for *.bak.* files (default: data, meetings, SQLite and src/data dirs, and their backups/) */
+  backupDirs?: string[];
+}
+
+// ===== Helpers =====
+
+function defaultBackupDirs(): string[] {
+  const { dataDir, sqlitePath } = getStoreConfig();
+  const bundledDir = path.join(process.cwd(), 'src', 'data');
+  return [
+    dataDir,
+    path.join(dataDir, 'meetings'),
+    path.dirname(sqlitePath),
+    bundledDir,
+    getBackupDir(path.join(dataDir, 'cities.json')),
+    getBackupDir(path.join(dataDir, 'meetings', 'meeting.json')),
+    getBackupDir(sqlitePath),
+    getBackupDir(path.join(bundledDir, 'cities.json')),
+  ];
+}
+
+/**
+ * Groups members by ID, keeping only IDs used more than once
+ */
+function duplicateIdGroups(members: Member[]): Map<string, Member[]> {
+  const byId = new Map<string, Member[]>();
+  for (const member of members) {
+    byId.set(member.id, [...(byId.get(member.id) ?? []), member]);
+  }
+  return new Map([...byId].filter(([, group]) => group.length > 1));
+}
+
+const sameMember = (a: Member, b: Member) => JSON.stringify(a) === JSON.stringify(b);
+
+// ===== Checks =====
+
+/**
+ * Runs every consistency check without changing anything
+ *
+ * @returns Report with all issues found; `ok` is false if any is an error
+ */
+export function checkHealth({ backupDirs = defaultBackupDirs() }: HealthOptions = {}): HealthReport {
+  const issues: HealthIssue[] = [];
+
+  let members: Member[] | null = null;
+  try {
+    members = loadMembers();
+  } catch (error) {
+    issues.push({
+      code: 'unreadable-members',
+      severity: 'error',
+      message: error instanceof Error ? error.message : String(error),
+      fixable: false,
+      subject: 'members',
+    });
+  }
+
+  for (const invalid of getMeetingStore().listInvalid()) {
+    issues.push({
+      code: 'invalid-meeting',
+      severity: 'error',
+      message: `Meeting ${invalid.id} can't be loaded and is hidden from listings: ${invalid.reason}`,
+      fixable: false,
+      subject: invalid.id,
+    });
+  }
+
+  // Outdated meeting files make listMeetings throw; they're reported above
+  let meetings: Meeting[] = [];
+  try {
+    meetings = listMeetings();
+  } catch {
+    // already reported as invalid-meeting
+  }
+
+  if (members) {
+    for (const [id, group] of duplicateIdGroups(members)) {
+      const identical = group.every(member => sameMember(member, group[0]!));
+      issues.push({
+        code: 'duplicate-member-id',
+        severity: 'error',
+        message: identical
+          ? `${group.length} identical copies of member ${group[0]!.name} (${id})`
+          : `${group.length} different members share ID ${id}: ${group.map(m => `${m.name} (${m.city})`).join(', ')}`,
+        fixable: identical,
+        subject: id,
+      });
+    }
+
+    const memberIds = new Set(members.map(member => member.id));
+    for (const meeting of meetings) {
+      const orphans = meeting.participantIds.filter(id => !memberIds.has(id));
+      if (orphans.length > 0) {
+        issues.push({
+          code: 'orphan-participant',
+          severity: 'warning',
+          message: `Meeting ${meeting.id} lists unknown member IDs: ${orphans.join(', ')}`,
+          fixable: true,
+          subject: meeting.id,
+        });
+      }
+
+      if (new Set(meeting.participantIds).size !== meeting.participantIds.length) {
+        issues.push({
+          code: 'duplicate-participant',
+          severity: 'warning',
+          message: `Meeting ${meeting.id} lists the same member more than once`,
+          fixable: true,
+          subject: meeting.id,
+        });
+      }
+    }
+
+    try {
+      for (const member of members) {
+        const locations = [member, ...(member.cityHistory ?? [])];
+        const unknown = [...new Set(locations.filter(location => !getLocationCity(location)).map(location => location.city))];
+        if (unknown.length > 0) {
+          issues.push({
+            code: 'unknown-city',
+            severity: 'warning',
+            message: `${member.name} (${member.id}) has cities without coordinates: ${unknown.join(', ')} - run "npm run fill-cities"`,
+            fixable: false,
+            subject: member.id,
+          });
+        }
+      }
+    } catch (error) {
+      issues.push({
+        code: 'unreadable-cities',
+        severity: 'error',
+        message: error instanceof Error ? error.message : String(error),
+        fixable: false,
+        subject: 'cities',
+      });
+    }
+  }
+
+  const backups = findBackups(backupDirs);
+  for (const [original, files] of backups) {
+    if (files.length > KEEP_BACKUPS) {
+      issues.push({
+        code: 'stale-backups',
+        severity: 'warning',
+        message: `${files.length} backups of ${path.basename(original)}; only the newest ${KEEP_BACKUPS} are needed`,
+        fixable: true,
+        subject: original,
+      });
+    }
+  }
+
+  return {
+    ok: !issues.some(issue => issue.severity === 'error'),
+    checkedAt: new Date().toISOString(),
+    counts: {
+      members: members?.length ?? 0,
+      meetings: meetings.length,
+      backups: [...backups.values()].reduce((sum, files) => sum + files.length, 0),
+    },
+    issues,
+  };
+}
+
+// ===== Repairs =====
+
+/**
+ * Applies the safe repairs for a report's fixable issues
+ * - drops exact duplicate copies of a member
+ * - removes unknown and repeated IDs from meeting participant lists
+ * - deletes all but the newest KEEP_BACKUPS backups of each file
+ * Everything else (unknown cities, invalid files, conflicting IDs) needs a person.
+ *
+ * @returns Descriptions of the repairs made
+ */
+export function repairHealth(
+  report: HealthReport,
+  { backupDirs = defaultBackupDirs() }: HealthOptions = {}
+): string[] {
+  const fixable = new Set(report.issues.filter(issue => issue.fixable).map(issue => issue.code));
+  const repairs: string[] = [];
+  const dataRepairs: HealthIssueCode[] = ['duplicate-member-id', 'orphan-participant', 'duplicate-participant'];
+
+  if (dataRepairs.some(code => fixable.has(code))) {
+    getMemberStore().transaction(() => {
+      let members = loadMembers();
+
+      if (fixable.has('duplicate-member-id')) {
+        const seen = new Map<string, Member>();
+        const before = members.length;
+        members = members.filter(member => {
+          const first = seen.get(member.id);
+          if (!first) {
+            seen.set(member.id, member);
+            return true;
+          }
+          return !sameMember(first, member);
+        });
+        if (members.length < before) {
+          saveMembers(members);
+          repairs.push(`Removed ${before - members.length} duplicate member record(s)`);
+        }
+      }
+
+      if (fixable.has('orphan-participant') || fixable.has('duplicate-participant')) {
+        const memberIds = new Set(members.map(member => member.id));
+        for (const meeting of listMeetings()) {
+          const participantIds = [...new Set(meeting.participantIds.filter(id => memberIds.has(id)))];
+          if (participantIds.length !== meeting.participantIds.length) {
+            saveMeeting({ ...meeting, participantIds });
+            repairs.push(
+              `Meeting ${meeting.id}: ${meeting.participantIds.length} -> ${participantIds.length} participants`
+            );
+          }
+        }
+      }
+    });
+  }
+
+  if (fixable.has('stale-backups')) {
+    for (const [original, files] of findBackups(backupDirs)) {
+      const stale = files.slice(KEEP_BACKUPS);
+      stale.forEach(file => fs.unlinkSync(file));
+      if (stale.length > 0) {
+        repairs.push(`Deleted ${stale.length} old backup(s) of ${path.basename(original)}`);
+      }
+    }
+  }
+
+  return repairs;
+}
@@ -0,0 +1,82 @@
+// src/lib/embed.test.ts
+import { describe, it, expect } from 'vitest';
+import { anonymizePoints, resolveEmbedParticipants, resolveFlyTo } from './embed';
+import { pointTooltip } from './globeLabels';
+import { EmbedMessageSchema, EmbedQuerySchema } from './validation';
+
+describe('embed', () => {
+  describe('EmbedQuerySchema', () => {
+    it('should default to a spinning dark globe with names and no labels', () => {
+      expect(EmbedQuerySchema.parse({})).toEqual({ autoRotate: true, theme: 'dark', labels: false, hideNames: false });
+    });
+
+    it('should read the options and ignore bad values', () => {
+      expect(EmbedQuerySchema.parse({ autoRotate: 'false', theme: 'light', labels: 'true', hideNames: 'true' })).toEqual({
+        autoRotate: false,
+        theme: 'light',
+        labels: true,
+        hideNames: true,
+      });
+      expect(EmbedQuerySchema.parse({ autoRotate: 'nope', theme: 'neon' })).toMatchObject({ autoRotate: true, theme: 'dark' });
+    });
+  });
+
+  describe('EmbedMessageSchema', () => {
+    it('should accept the documented commands', () => {
+      expect(EmbedMessageSchema.safeParse({ type: 'gpm:flyTo', city: 'Tokyo' }).success).toBe(true);
+      expect(
+        EmbedMessageSchema.safeParse({ type: 'gpm:addParticipants', participants: [{ name: 'Ann', city: 'Paris' }] }).success
+      ).toBe(true);
+    });
+
+    it('should reject unknown commands and bad payloads', () => {
+      expect(EmbedMessageSchema.safeParse({ type: 'gpm:deleteMeeting' }).success).toBe(false);
+      expect(EmbedMessageSchema.safeParse({ type: 'gpm:setParticipants', participants: [{ name: 'Ann' }] }).success).toBe(false);
+      expect(EmbedMessageSchema.safeParse({ type: 'gpm:flyTo', lat: 120, lng: 0 }).success).toBe(false);
+    });
+  });
+
+  describe('resolveEmbedParticipants', () => {
+    it('should place participants in known cities and report the rest', () => {
+      const { points, unknownCities } = resolveEmbedParticipants([
+        { name: 'Ann', city: 'Paris' },
+        { name: 'Ben', city: 'Atlantis Prime' },
+      ]);
+
+      expect(points).toHaveLength(1);
+      expect(points[0]).toMatchObject({ memberName: 'Ann', cityName: 'Paris' });
+      expect(unknownCities).toEqual(['Atlantis Prime']);
+    });
+
+    it('should keep pushed names as text for the escaped tooltip', () => {
+      const { points } = resolveEmbedParticipants([{ name: '<img src=x onerror="alert(1)">', city: 'Paris' }]);
+
+      expect(points[0]!.memberName).toBe('<img src=x onerror="alert(1)">');
+      expect(pointTooltip(points[0]!)).toBe('&lt;img src=x onerror=&quot;alert(1)&quot;&gt; (Paris)');
+    });
+
+    it('should drop names when asked', () => {
+      expect(resolveEmbedParticipants([{ name: 'Ann', city: 'Paris' }], true).points[0]!.memberName).toBe('');
+    });
+  });
+
+  describe('anonymizePoints', () => {
+    it('should strip member names and IDs but keep the places', () => {
+      const [point] = anonymizePoints([{ memberId: 'ann', memberName: 'Ann', cityName: 'Paris', lat: 48.85, lng: 2.35 }]);
+
+      expect(point).toEqual({ memberId: '', memberName: '', cityName: 'Paris', lat: 48.85, lng: 2.35 });
+    });
+  });
+
+  describe('resolveFlyTo', () => {
+    it('should fly to coordinates or a known city', () => {
+      expect(resolveFlyTo({ lat: 10, lng: 20, altitude: 2 })).toEqual({ lat: 10, lng: 20, altitude: 2 });
+      expect(resolveFlyTo({ city: 'paris' })).toMatchObject({ lat: expect.any(Number) as number, lng: expect.any(Number) as number });
+    });
+
+    it('should return null for an unknown city', () => {
+      expect(resolveFlyTo({ city: 'Atlantis Prime' })).toBeNull();
+      expect(resolveFlyTo({})).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,91 @@
+// src/lib/embed.ts
+/**
+ * Embedded Globe (/embed/[meetingId])
+ *
+ * A chrome-less globe for iframes. The page renders a stored meeting; the host
+ * page can then drive it with window.postMessage:
+ *
+ *   { type: 'gpm:addParticipants', participants: [{ name, city }] }  // add to the globe
+ *   { type: 'gpm:setParticipants', participants: [{ name, city }] }  // replace everyone
+ *   { type: 'gpm:flyTo', city: 'Tokyo' }                             // or { lat, lng }, optional altitude
+ *
+ * and the embed answers on window.parent:
+ *
+ *   { type: 'gpm:ready', meetingId }
+ *   { type: 'gpm:participantsUpdated', count, unknownCities }  // count: participants placed from the command
+ *   { type: 'gpm:error', error }
+ *
+ * Pushed participants only change what this iframe shows - nothing is saved.
+ * Their names are untrusted text; MeetingGlobe escapes them (globeLabels.ts).
+ * Commands are validated with EmbedMessageSchema (validation.ts).
+ *
+ * Runs in the browser, so this module only uses the bundled city data.
+ */
+import { formatCityReference, getCityCoordinates } from './cities';
+import type { VisualizationPoint } from './visualization';
+
+/** Messages the embed posts to its host page */
+export type EmbedEvent =
+  | { type: 'gpm:ready'; meetingId: string }
+  | { type: 'gpm:participantsUpdated'; count: number; unknownCities: string[] }
+  | { type: 'gpm:error'; error: string };
+
+/**
+ * Places participants pushed by a host page
+ * They aren't registered members, so memberId is left empty.
+ *
+ * @returns Points for participants in known cities, and the cities that aren't
+ */
+export function resolveEmbedParticipants(
+  participants: Array<{ name: string; city: string; region?: string; country?: string }>,
+  hideNames = false
+): { points: VisualizationPoint[]; unknownCities: string[] } {
+  const points: VisualizationPoint[] = [];
+  const unknownCities = new Set<string>();
+
+  for (const participant of participants) {
+    // Country must be an ISO code here: embeds resolve cities in the browser
+    const coords = getCityCoordinates(
+      formatCityReference({ name: participant.city, region: participant.region, countryCode: participant.country })
+    );
+    if (!coords) {
+      unknownCities.add(participant.city);
+      continue;
+    }
+    points.push({
+      memberId: '',
+      memberName: hideNames ? '' : participant.name,
+      cityName: participant.city,
+      lat: coords.lat,
+      lng: coords.lng,
+    });
+  }
+
+  return { points, unknownCities: [...unknownCities] };
+}
+
+/**
+ * Strips member names and IDs, for embeds with hideNames set
+ * Done before the points reach the browser, so names aren't in the page at all.
+ */
+export function anonymizePoints(points: VisualizationPoint[]): VisualizationPoint[] {
+  return points.map(point => ({ ...point, memberId: '', memberName: '' }));
+}
+
+/**
+ * Camera target for a flyTo command
+ *
+ * @returns Coordinates, or null if the city is unknown (or neither city nor lat/lng was given)
+ */
+export function resolveFlyTo(target: {
+  city?: string;
+  lat?: number;
+  lng?: number;
+  altitude?: number;
+}): { lat: number; lng: number; altitude?: number } | null {
+  if (target.lat !== undefined && target.lng !== undefined) {
+    return { lat: target.lat, lng: target.lng, altitude: target.altitude };
+  }
+  const coords = target.city ? getCityCoordinates(target.city) : null;
+  return coords ? { ...coords, altitude: target.altitude } : null;
+}
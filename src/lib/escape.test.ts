@@ -0,0 +1,15 @@
+// src/lib/escape.test.ts
+import { describe, it, expect } from 'vitest';
+import { escapeHtml, escapeXml } from './escape';
+
+describe('escape', () => {
+  it('should escape markup and both quotes for HTML', () => {
+    expect(escapeHtml(`<img src=x onerror="alert('x')"> & co`)).toBe(
+      '&lt;img src=x onerror=&quot;alert(&#39;x&#39;)&quot;&gt; &amp; co'
+    );
+  });
+
+  it('should escape markup and both quotes for XML', () => {
+    expect(escapeXml(`<a b="c">'d' & e</a>`)).toBe('&lt;a b=&quot;c&quot;&gt;&apos;d&apos; &amp; e&lt;/a&gt;');
+  });
+});
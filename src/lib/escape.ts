@@ -0,0 +1,32 @@
+// src/lib/escape.ts
+/**
+ * Markup Escaping
+ *
+ * Member names, city names and meeting titles are user input; everything
+ * that puts them into HTML, SVG or KML (or a tooltip set as innerHTML)
+ * escapes them with these.
+ */
+
+/**
+ * Escapes text for HTML element content and quoted attributes
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Escapes text for XML (SVG, KML) content and quoted attributes
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
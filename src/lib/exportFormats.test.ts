@@ -0,0 +1,102 @@
+// src/lib/exportFormats.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { renderMeetingDataExport, toCsv, toGeoJson, toKml } from './exportFormats';
+import { saveMeeting } from './meetings';
+import { saveMembers } from './members';
+import { setStores } from './store';
+import { createJsonStores } from './jsonStore';
+import type { MeetingVisualization } from './visualization';
+
+const visualization: MeetingVisualization = {
+  meeting: { id: 'call-2026-03-01', title: 'Call <1>', date: '2026-03-01' },
+  points: [
+    { memberId: 'alice', memberName: 'Alice', cityName: 'Paris', lat: 48.85, lng: 2.35 },
+    { memberId: 'bob', memberName: 'Bob "B" Smith', cityName: 'London', lat: 51.5, lng: -0.12 },
+  ],
+  arcs: [{ startLat: 48.85, startLng: 2.35, endLat: 51.5, endLng: -0.12 }],
+  unplaced: [{ memberId: 'carol', memberName: '=cmd()', cityName: 'Nowhere Town' }],
+  unknownCities: ['Nowhere Town'],
+  countries: [],
+  continents: [],
+};
+
+describe('exportFormats', () => {
+  describe('toGeoJson', () => {
+    it('should write participants as [lng, lat] points', () => {
+      const geojson = toGeoJson(visualization);
+
+      expect(geojson.type).toBe('FeatureCollection');
+      expect(geojson.meeting).toEqual(visualization.meeting);
+      expect(geojson.features).toHaveLength(2);
+      expect(geojson.features[0]).toEqual({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [2.35, 48.85] },
+        properties: { kind: 'participant', memberId: 'alice', memberName: 'Alice', cityName: 'Paris' },
+      });
+    });
+
+    it('should add arcs as LineStrings when asked', () => {
+      const lines = toGeoJson(visualization, { arcs: true }).features.filter(f => f.geometry.type === 'LineString');
+
+      expect(lines).toHaveLength(1);
+      expect(lines[0]!.geometry.coordinates).toEqual([
+        [2.35, 48.85],
+        [-0.12, 51.5],
+      ]);
+    });
+  });
+
+  describe('toKml', () => {
+    it('should write an escaped placemark per placed participant', () => {
+      const kml = toKml(visualization);
+
+      expect(kml).toContain('<name>Call &lt;1&gt; — 2026-03-01</name>');
+      expect(kml.match(/<Placemark>/g)).toHaveLength(2);
+      expect(kml).toContain('<name>Bob &quot;B&quot; Smith</name>');
+      expect(kml).toContain('<coordinates>-0.12,51.5,0</coordinates>');
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should write one quoted row per participant, including unplaced ones', () => {
+      const lines = toCsv(visualization).trimEnd().split('\r\n');
+
+      expect(lines).toEqual([
+        'meeting_id,meeting_title,meeting_date,member_id,member_name,city,lat,lng',
+        'call-2026-03-01,Call <1>,2026-03-01,alice,Alice,Paris,48.85,2.35',
+        'call-2026-03-01,Call <1>,2026-03-01,bob,"Bob ""B"" Smith",London,51.5,-0.12',
+        "call-2026-03-01,Call <1>,2026-03-01,carol,'=cmd(),Nowhere Town,,",
+      ]);
+    });
+  });
+
+  describe('renderMeetingDataExport', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpm-formats-'));
+      setStores(createJsonStores(tmpDir));
+      saveMembers([{ id: 'alice', name: 'Alice', city: 'Paris', createdAt: '2026-01-10T00:00:00.000Z' }]);
+      saveMeeting({ id: 'call-2026-03-01', title: 'Call', date: '2026-03-01', participantIds: ['alice'] });
+    });
+
+    afterEach(() => {
+      setStores(null);
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should name the file after the meeting and format', () => {
+      const result = renderMeetingDataExport('call-2026-03-01', 'geojson');
+
+      expect(result).toMatchObject({ filename: 'Call-2026-03-01.geojson', contentType: 'application/geo+json' });
+      expect(JSON.parse(result!.body)).toMatchObject({ type: 'FeatureCollection' });
+    });
+
+    it('should return null for an unknown meeting', () => {
+      expect(renderMeetingDataExport('missing', 'csv')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,183 @@
+// src/lib/exportFormats.ts
+/**
+ * GIS & Spreadsheet Exports
+ *
+ * Writes a meeting's visualization data (see visualization.ts) in formats
+ * other tools open directly:
+ * - geojson - FeatureCollection of participant Points, optionally with the
+ *             arcs as LineStrings (QGIS, geojson.io, ...)
+ * - kml     - one Placemark per participant (Google Earth)
+ * - csv     - one attendance row per participant, including those whose
+ *             city has no coordinates (lat/lng left empty)
+ *
+ * Used by GET /api/meetings/{id}/export?format=... and `npm run export-globe`.
+ */
+import { escapeXml } from './escape';
+import { exportFilename } from './exportRenderer';
+import { getMeetingVisualization, type MeetingVisualization } from './visualization';
+
+export type DataExportFormat = 'geojson' | 'kml' | 'csv';
+
+export interface DataExportOptions {
+  /** Include arcs as LineStrings (GeoJSON only, default false) */
+  arcs?: boolean;
+}
+
+/**
+ * A rendered data export, ready to write or serve
+ */
+export interface DataExport {
+  meetingId: string;
+  filename: string;
+  contentType: string;
+  body: string;
+  /** Participants' cities without coordinates (no geometry in GeoJSON/KML) */
+  unknownCities: string[];
+}
+
+const CONTENT_TYPES: Record<DataExportFormat, string> = {
+  geojson: 'application/geo+json',
+  kml: 'application/vnd.google-earth.kml+xml',
+  csv: 'text/csv; charset=utf-8',
+};
+
+// ===== GeoJSON =====
+
+/**
+ * Builds a GeoJSON FeatureCollection (coordinates are [lng, lat])
+ * The meeting is kept as a foreign member so the file stays self-describing.
+ */
+export function toGeoJson(visualization: MeetingVisualization, { arcs = false }: DataExportOptions = {}) {
+  const points = visualization.points.map(point => ({
+    type: 'Feature' as const,
+    geometry: { type: 'Point' as const, coordinates: [point.lng, point.lat] },
+    properties: {
+      kind: 'participant',
+      memberId: point.memberId,
+      memberName: point.memberName,
+      cityName: point.cityName,
+    },
+  }));
+
+  const lines = arcs
+    ? visualization.arcs.map(arc => ({
+        type: 'Feature' as const,
+        geometry: {
+          type: 'LineString' as const,
+          coordinates: [
+            [arc.startLng, arc.startLat],
+            [arc.endLng, arc.endLat],
+          ],
+        },
+        properties: { kind: 'arc' },
+      }))
+    : [];
+
+  return {
+    type: 'FeatureCollection' as const,
+    meeting: visualization.meeting,
+    features: [...points, ...lines],
+  };
+}
+
+// ===== KML =====
+
+/**
+ * Builds a KML document with one Placemark per placed participant
+ */
+export function toKml(visualization: MeetingVisualization): string {
+  const { meeting } = visualization;
+  const placemarks = visualization.points.map(point => `    <Placemark>
+      <name>${escapeXml(point.memberName)}</name>
+      <description>${escapeXml(point.cityName)}</description>
+      <Point><coordinates>${point.lng},${point.lat},0</coordinates></Point>
+    </Placemark>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(`${meeting.title} — ${meeting.date}`)}</name>
+${placemarks.join('\n')}
+  </Document>
+</kml>
+`;
+}
+
+// ===== CSV =====
+
+/**
+ * Quotes a CSV field (RFC 4180). Text starting with = + - @ is prefixed with
+ * a quote so spreadsheets don't evaluate a member name as a formula.
+ */
+function csvField(value: string | number | undefined): string {
+  if (value === undefined) {
+    return '';
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const CSV_HEADER = ['meeting_id', 'meeting_title', 'meeting_date', 'member_id', 'member_name', 'city', 'lat', 'lng'];
+
+/**
+ * Builds CSV attendance rows, one per participant
+ * Participants in cities without coordinates are included with empty lat/lng.
+ */
+export function toCsv(visualization: MeetingVisualization): string {
+  const { meeting } = visualization;
+  const participants = [
+    ...visualization.points,
+    ...visualization.unplaced.map(participant => ({ ...participant, lat: undefined, lng: undefined })),
+  ];
+
+  const rows = participants.map(participant => [
+    meeting.id,
+    meeting.title,
+    meeting.date,
+    participant.memberId,
+    participant.memberName,
+    participant.cityName,
+    participant.lat,
+    participant.lng,
+  ]);
+
+  return [CSV_HEADER, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// ===== Rendering =====
+
+const RENDERERS: Record<DataExportFormat, (visualization: MeetingVisualization, options: DataExportOptions) => string> = {
+  geojson: (visualization, options) => JSON.stringify(toGeoJson(visualization, options), null, 2),
+  kml: visualization => toKml(visualization),
+  csv: visualization => toCsv(visualization),
+};
+
+/**
+ * Renders a stored meeting in a data format
+ *
+ * @param meetingId - Meeting ID
+ * @param format - Output format
+ * @param options - Format options
+ * @returns The rendered export, or null if the meeting doesn't exist
+ */
+export function renderMeetingDataExport(
+  meetingId: string,
+  format: DataExportFormat,
+  options: DataExportOptions = {}
+): DataExport | null {
+  const visualization = getMeetingVisualization(meetingId);
+  if (!visualization) {
+    return null;
+  }
+
+  return {
+    meetingId: visualization.meeting.id,
+    filename: exportFilename(visualization.meeting, format),
+    contentType: CONTENT_TYPES[format],
+    body: RENDERERS[format](visualization, options),
+    unknownCities: visualization.unknownCities,
+  };
+}
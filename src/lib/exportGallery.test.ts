@@ -0,0 +1,65 @@
+// src/lib/exportGallery.test.ts
+import { describe, it, expect } from 'vitest';
+import { renderGalleryHtml, toGalleryEntries } from './exportGallery';
+import type { ExportRecord } from './exportPublisher';
+
+function record(overrides: Partial<ExportRecord>): ExportRecord {
+  return {
+    filename: 'Call-2026-03-01.html',
+    meetingId: 'call-2026-03-01',
+    exportedAt: '2026-03-02T10:00:00.000Z',
+    bytes: 1000,
+    pointCount: 3,
+    options: { autoRotate: false, showTitle: true, offline: false, textures: 'full' },
+    ...overrides,
+  };
+}
+
+describe('toGalleryEntries', () => {
+  it('should list meetings newest first, by meeting date', () => {
+    const entries = toGalleryEntries([
+      record({ filename: 'b.html', title: 'B', date: '2026-01-01', exportedAt: '2026-05-01T00:00:00.000Z' }),
+      record({ filename: 'a.html', title: 'A', date: '2026-02-01', exportedAt: '2026-02-02T00:00:00.000Z' }),
+    ]);
+
+    expect(entries.map(entry => entry.filename)).toEqual(['a.html', 'b.html']);
+  });
+
+  it('should fall back to the meeting ID, export date and point count for older entries', () => {
+    expect(toGalleryEntries([record({})])).toEqual([
+      { filename: 'Call-2026-03-01.html', title: 'call-2026-03-01', date: '2026-03-02', participantCount: 3, thumbnail: null },
+    ]);
+  });
+});
+
+describe('renderGalleryHtml', () => {
+  const entry = {
+    filename: 'Q&A-2026-03-01.html',
+    title: 'Q&A <live>',
+    date: '2026-03-01',
+    participantCount: 1,
+    thumbnail: 'Q&A-2026-03-01.og.png',
+  };
+
+  it('should escape titles and link exports under the exports URL', () => {
+    const html = renderGalleryHtml([entry], { exportsUrl: '/exports/' });
+
+    expect(html).toContain('<h2>Q&amp;A &lt;live&gt;</h2>');
+    expect(html).not.toContain('<live>');
+    expect(html).toContain('href="/exports/Q%26A-2026-03-01.html"');
+    expect(html).toContain('src="/exports/Q%26A-2026-03-01.og.png"');
+    expect(html).toContain('data-title="q&amp;a &lt;live&gt;" data-date="2026-03-01" data-participants="1"');
+    expect(html).toContain('2026-03-01 · 1 participant<');
+  });
+
+  it('should use relative links by default and a placeholder without a thumbnail', () => {
+    const html = renderGalleryHtml([{ ...entry, thumbnail: null }]);
+
+    expect(html).toContain('href="./Q%26A-2026-03-01.html"');
+    expect(html).toContain('<div class="placeholder">');
+  });
+
+  it('should say so when there are no exports', () => {
+    expect(renderGalleryHtml([])).toContain('<p class="empty" id="empty">No exports yet.</p>');
+  });
+});
@@ -0,0 +1,143 @@
+// src/lib/exportGallery.ts
+/**
+ * Exports Gallery
+ *
+ * One page listing every published export with its title, date, participant
+ * count and thumbnail (the export's preview card), searchable by title and
+ * sortable by date, title or participant count.
+ *
+ * Built from public/exports/manifest.json only. It is served at /exports
+ * while the app runs, and `npm run export` writes it to exports/index.html in
+ * the static site (scripts/build-exports-index.ts). Like the globe exports,
+ * the page is plain HTML with a small inline script and needs no app code.
+ */
+import { escapeHtml } from './escape';
+import { defaultExportDir, loadExportManifest, type ExportRecord } from './exportPublisher';
+import { MAP_BACKGROUND } from './mapRenderer';
+import { siteConfig } from './siteConfig';
+
+export interface GalleryOptions {
+  /** Prefix for links to exports and thumbnails (default "./", for index.html inside the exports directory) */
+  exportsUrl?: string;
+}
+
+/**
+ * A gallery card
+ */
+export interface GalleryEntry {
+  filename: string;
+  title: string;
+  date: string;
+  participantCount: number;
+  thumbnail: string | null;
+}
+
+/**
+ * Gallery cards for manifest entries, newest meeting first
+ * Entries written before the gallery existed fall back to the meeting ID and
+ * export date (run `npm run exports-manifest` to fill them in).
+ */
+export function toGalleryEntries(records: ExportRecord[]): GalleryEntry[] {
+  return records
+    .map(record => ({
+      filename: record.filename,
+      title: record.title ?? record.meetingId ?? record.filename,
+      date: record.date ?? record.exportedAt.slice(0, 10),
+      participantCount: record.participantCount ?? record.pointCount,
+      thumbnail: record.image ?? null,
+    }))
+    .sort((a, b) => b.date.localeCompare(a.date) || a.title.localeCompare(b.title));
+}
+
+const count = (n: number, one: string, many: string) => `${n} ${n === 1 ? one : many}`;
+
+/**
+ * Builds the gallery page
+ */
+export function renderGalleryHtml(entries: GalleryEntry[], { exportsUrl = './' }: GalleryOptions = {}): string {
+  const cards = entries.map(entry => {
+    const href = escapeHtml(`${exportsUrl}${encodeURIComponent(entry.filename)}`);
+    const thumbnail = entry.thumbnail
+      ? `<img src="${escapeHtml(`${exportsUrl}${encodeURIComponent(entry.thumbnail)}`)}" alt="" loading="lazy" width="1200" height="630" />`
+      : '<div class="placeholder">🌍</div>';
+    return `    <li data-title="${escapeHtml(entry.title.toLowerCase())}" data-date="${escapeHtml(entry.date)}" data-participants="${entry.participantCount}">
+      <a href="${href}">
+        ${thumbnail}
+        <h2>${escapeHtml(entry.title)}</h2>
+        <p>${escapeHtml(entry.date)} · ${count(entry.participantCount, 'participant', 'participants')}</p>
+      </a>
+    </li>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Exported Globes — ${escapeHtml(siteConfig.communityName)}</title>
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <meta name="description" content="${count(entries.length, 'exported meeting globe', 'exported meeting globes')}" />
+  <style>
+    body { margin: 0; padding: 24px; background: ${MAP_BACKGROUND}; color: white; font-family: sans-serif; }
+    h1 { margin: 0 0 16px; font-size: 28px; }
+    .controls { display: flex; flex-wrap: wrap; gap: 8px; margin-bottom: 20px; }
+    .controls input, .controls select { padding: 8px; border-radius: 6px; border: 0; background: #1f2937; color: white; font-size: 15px; }
+    .controls input { flex: 1 1 240px; }
+    ul { list-style: none; margin: 0; padding: 0; display: grid; gap: 16px; grid-template-columns: repeat(auto-fill, minmax(260px, 1fr)); }
+    li a { display: block; color: inherit; text-decoration: none; background: #111827; border-radius: 8px; overflow: hidden; }
+    li a:hover { outline: 2px solid ${siteConfig.colors.accent}; }
+    li img, .placeholder { display: block; width: 100%; height: auto; aspect-ratio: 1200 / 630; object-fit: cover; }
+    .placeholder { display: flex; align-items: center; justify-content: center; font-size: 48px; background: #1f2937; }
+    h2 { margin: 10px 12px 4px; font-size: 17px; }
+    li p { margin: 0 12px 12px; color: #9ca3af; font-size: 14px; }
+    .empty { color: #9ca3af; }
+  </style>
+</head>
+<body>
+  <h1>🌍 Exported Globes</h1>
+  <div class="controls">
+    <input id="search" type="search" placeholder="Search by title" aria-label="Search by title" />
+    <select id="sort" aria-label="Sort">
+      <option value="date-desc">Newest first</option>
+      <option value="date-asc">Oldest first</option>
+      <option value="title">Title A–Z</option>
+      <option value="participants">Most participants</option>
+    </select>
+  </div>
+  <ul id="exports">
+${cards.join('\n')}
+  </ul>
+  <p class="empty" id="empty"${entries.length > 0 ? ' hidden' : ''}>No exports${entries.length > 0 ? ' match your search' : ' yet'}.</p>
+  <script>
+    const list = document.getElementById('exports');
+    const items = Array.from(list.children);
+    const search = document.getElementById('search');
+    const sort = document.getElementById('sort');
+    const compare = {
+      'date-desc': (a, b) => b.dataset.date.localeCompare(a.dataset.date),
+      'date-asc': (a, b) => a.dataset.date.localeCompare(b.dataset.date),
+      'title': (a, b) => a.dataset.title.localeCompare(b.dataset.title),
+      'participants': (a, b) => b.dataset.participants - a.dataset.participants,
+    };
+    function update() {
+      const query = search.value.trim().toLowerCase();
+      let shown = 0;
+      items.sort(compare[sort.value]).forEach(item => {
+        item.hidden = !item.dataset.title.includes(query);
+        shown += item.hidden ? 0 : 1;
+        list.appendChild(item);
+      });
+      document.getElementById('empty').hidden = shown > 0;
+    }
+    search.addEventListener('input', update);
+    sort.addEventListener('change', update);
+  </script>
+</body>
+</html>`;
+}
+
+/**
+ * Renders the gallery for a published exports directory
+ */
+export function renderExportGallery(exportDir: string = defaultExportDir(), options: GalleryOptions = {}): string {
+  return renderGalleryHtml(toGalleryEntries(loadExportManifest(exportDir)), options);
+}
@@ -0,0 +1,155 @@
+// src/lib/exportIndex.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { indexExports, readExportPage } from './exportIndex';
+import { loadExportManifest, publishMeetingExport } from './exportPublisher';
+import { renderMeetingExport } from './exportRenderer';
+import { saveMeeting } from './meetings';
+import { saveMembers } from './members';
+import { setStores } from './store';
+import { createJsonStores } from './jsonStore';
+
+// The shape of pages exported before the meeting store existed
+const LEGACY_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head><title>casita</title></head>
+<body>
+  <div class="overlay">casita &amp; friends — 2025-11-12</div>
+  <script>
+    const points = [{"lat":48.8566,"lng":2.3522,"label":"a (paris)","color":"orange"},{"lat":35.6762,"lng":139.6503,"label":"b (tokyo)","color":"orange"}];
+  </script>
+</body>
+</html>`;
+
+describe('readExportPage', () => {
+  it('should read the title, date and points of a legacy page', () => {
+    const details = readExportPage(LEGACY_PAGE);
+
+    expect(details).toMatchObject({ title: 'casita & friends', date: '2025-11-12' });
+    expect(details!.points).toEqual([
+      { memberId: '', memberName: 'a', cityName: 'paris', lat: 48.8566, lng: 2.3522 },
+      { memberId: '', memberName: 'b', cityName: 'tokyo', lat: 35.6762, lng: 139.6503 },
+    ]);
+  });
+
+  it('should return null for a page without a title overlay', () => {
+    expect(readExportPage('<html><body>No overlay</body></html>')).toBeNull();
+  });
+
+  it('should still read the title if the points are unreadable', () => {
+    const page = LEGACY_PAGE.replace(/const points = .*;/, 'const points = [{"lat":];');
+
+    expect(readExportPage(page)).toEqual({ title: 'casita & friends', date: '2025-11-12', points: [] });
+  });
+});
+
+describe('indexExports', () => {
+  let tmpDir: string;
+  let exportDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpm-index-'));
+    exportDir = path.join(tmpDir, 'exports');
+    fs.mkdirSync(exportDir);
+    setStores(createJsonStores(tmpDir));
+    saveMembers([
+      { id: 'alice', name: 'Alice', city: 'Paris', createdAt: '2026-01-10T00:00:00.000Z' },
+      { id: 'bob', name: 'Bob', city: 'Nowhereville', createdAt: '2026-01-10T00:00:00.000Z' },
+    ]);
+    saveMeeting({ id: 'call-2026-03-01', title: 'Call', date: '2026-03-01', participantIds: ['alice', 'bob'] });
+  });
+
+  afterEach(() => {
+    setStores(null);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should add legacy pages using what the page says about itself', async () => {
+    fs.writeFileSync(path.join(exportDir, 'casita-2025-11-12.html'), LEGACY_PAGE);
+
+    const result = await indexExports(exportDir);
+
+    expect(result.added).toEqual(['casita-2025-11-12.html']);
+    expect(loadExportManifest(exportDir)).toEqual([
+      expect.objectContaining({
+        filename: 'casita-2025-11-12.html',
+        meetingId: null,
+        title: 'casita & friends',
+        date: '2025-11-12',
+        participantCount: 2,
+        pointCount: 2,
+        image: 'casita-2025-11-12.og.png',
+      }),
+    ]);
+    expect(fs.existsSync(path.join(exportDir, 'casita-2025-11-12.og.png'))).toBe(true);
+  });
+
+  it('should use the stored meeting for pages it rendered', async () => {
+    const page = renderMeetingExport('call-2026-03-01', { showTitle: false })!;
+    fs.writeFileSync(path.join(exportDir, page.filename), page.html);
+
+    await indexExports(exportDir);
+
+    // Bob's city is unknown: he counts as a participant but isn't on the map
+    expect(loadExportManifest(exportDir)).toEqual([
+      expect.objectContaining({
+        filename: 'Call-2026-03-01.html',
+        meetingId: 'call-2026-03-01',
+        title: 'Call',
+        participantCount: 2,
+        pointCount: 1,
+      }),
+    ]);
+  });
+
+  it('should tell apart same-day meetings with the same title', async () => {
+    saveMeeting({ id: 'call-2026-03-01-2', title: 'Call', date: '2026-03-01', participantIds: ['alice'] });
+    for (const id of ['call-2026-03-01', 'call-2026-03-01-2']) {
+      const page = renderMeetingExport(id)!;
+      fs.writeFileSync(path.join(exportDir, page.filename), page.html);
+    }
+
+    await indexExports(exportDir);
+
+    expect(loadExportManifest(exportDir).map(record => [record.filename, record.meetingId]).sort()).toEqual([
+      ['Call-2026-03-01-2.html', 'call-2026-03-01-2'],
+      ['Call-2026-03-01.html', 'call-2026-03-01'],
+    ]);
+  });
+
+  it('should count participants the way publishing does', async () => {
+    // A participant whose member record is gone is neither placed nor unplaced
+    saveMeeting({ id: 'call-2026-03-01', title: 'Call', date: '2026-03-01', participantIds: ['alice', 'bob', 'gone'] });
+    const published = await publishMeetingExport('call-2026-03-01', {}, { exportDir });
+    fs.writeFileSync(path.join(exportDir, 'manifest.json'), JSON.stringify({ exports: [] }));
+
+    await indexExports(exportDir);
+
+    expect(loadExportManifest(exportDir)[0]?.participantCount).toBe(published!.participantCount);
+  });
+
+  it('should fill in details missing from older entries and leave complete ones alone', async () => {
+    const published = await publishMeetingExport('call-2026-03-01', {}, { exportDir });
+    const manifestPath = path.join(exportDir, 'manifest.json');
+    const older = { ...published!, title: undefined, date: undefined, participantCount: undefined };
+    fs.writeFileSync(manifestPath, JSON.stringify({ exports: [older] }));
+
+    expect((await indexExports(exportDir)).updated).toEqual(['Call-2026-03-01.html']);
+    expect(loadExportManifest(exportDir)).toEqual([published]);
+
+    expect(await indexExports(exportDir)).toEqual({ added: [], updated: [], removed: [], skipped: [] });
+  });
+
+  it('should drop entries whose page was deleted and skip unreadable pages', async () => {
+    await publishMeetingExport('call-2026-03-01', {}, { exportDir });
+    fs.rmSync(path.join(exportDir, 'Call-2026-03-01.html'));
+    fs.writeFileSync(path.join(exportDir, 'notes.html'), '<p>Not an export</p>');
+
+    const result = await indexExports(exportDir);
+
+    expect(result).toMatchObject({ removed: ['Call-2026-03-01.html'], skipped: ['notes.html'] });
+    expect(loadExportManifest(exportDir)).toEqual([]);
+  });
+});
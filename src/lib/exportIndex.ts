@@ -0,0 +1,218 @@
+// src/lib/exportIndex.ts
+/**
+ * Export Index
+ *
+ * Brings public/exports/manifest.json in line with the pages actually in the
+ * directory (`npm run exports-manifest`), so the gallery lists everything:
+ * - a page without an entry is added. If a stored meeting renders to that
+ *   file name, the meeting's details are used. Otherwise (pages from before
+ *   the meeting store) the page itself is read: the "Title — date" overlay
+ *   and the embedded points
+ * - entries missing gallery details (title, date, participant count) get
+ *   them from their meeting
+ * - entries without a thumbnail get a preview card (see ogImage.ts)
+ * - entries whose page was deleted are dropped
+ *
+ * Details are never guessed from file names.
+ */
+import fs from 'fs';
+import path from 'path';
+import { exportFilename } from './exportRenderer';
+import { defaultExportDir, loadExportManifest, updateExportManifest, type ExportRecord } from './exportPublisher';
+import { writeFileAtomic } from './dataFile';
+import { arcsBetween } from './geo';
+import { listMeetings } from './meetings';
+import { renderOgCardPng } from './ogImage';
+import { buildMeetingVisualization, getVisualizationStats, type MeetingVisualization, type VisualizationPoint } from './visualization';
+import type { Meeting } from './validation';
+
+export interface IndexResult {
+  /** Pages that got a manifest entry */
+  added: string[];
+  /** Entries that got missing details or a thumbnail */
+  updated: string[];
+  /** Entries whose page no longer exists */
+  removed: string[];
+  /** Pages that couldn't be read (no title/date overlay) */
+  skipped: string[];
+}
+
+/** What an exported page says about itself */
+export interface PageDetails {
+  title: string;
+  date: string;
+  points: VisualizationPoint[];
+}
+
+const LEGACY_OPTIONS: ExportRecord['options'] = { autoRotate: false, showTitle: true, offline: false, textures: 'full' };
+
+function decodeHtml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Reads the title, date and points from an exported globe page
+ * Works for current exports and for pages from before the meeting store.
+ *
+ * @returns The details, or null if the page has no "Title — date" overlay
+ */
+export function readExportPage(html: string): PageDetails | null {
+  const overlay = /<div class="overlay">([^<]*) — (\d{4}-\d{2}-\d{2})<\/div>/.exec(html);
+  if (!overlay) {
+    return null;
+  }
+
+  const points: VisualizationPoint[] = [];
+  const data = /const points = (\[.*?\]);/.exec(html);
+  let parsed: unknown = [];
+  try {
+    parsed = data ? JSON.parse(data[1]!) : [];
+  } catch {
+    // A page we can't read the points from still gets listed, without a map
+  }
+  for (const point of Array.isArray(parsed) ? (parsed as Array<Record<string, unknown>>) : []) {
+    if (typeof point.lat !== 'number' || typeof point.lng !== 'number') {
+      continue;
+    }
+    // Labels are "Name (City)"
+    const label = /^(.*) \((.*)\)$/.exec(decodeHtml(typeof point.label === 'string' ? point.label : ''));
+    points.push({
+      memberId: '',
+      memberName: label?.[1] ?? '',
+      cityName: label?.[2] ?? '',
+      lat: point.lat,
+      lng: point.lng,
+    });
+  }
+
+  return { title: decodeHtml(overlay[1]!), date: overlay[2]!, points };
+}
+
+function pageVisualization(details: PageDetails): MeetingVisualization {
+  return {
+    meeting: { id: '', title: details.title, date: details.date },
+    points: details.points,
+    arcs: arcsBetween(details.points),
+    unplaced: [],
+    unknownCities: [],
+    countries: [],
+    continents: [],
+  };
+}
+
+/**
+ * Adds missing manifest entries, details and thumbnails for the pages in an
+ * exports directory
+ */
+export async function indexExports(exportDir: string = defaultExportDir()): Promise<IndexResult> {
+  const result: IndexResult = { added: [], updated: [], removed: [], skipped: [] };
+  if (!fs.existsSync(exportDir)) {
+    return result;
+  }
+
+  const pages = fs.readdirSync(exportDir).filter(name => name.endsWith('.html') && name !== 'index.html');
+  const meetingsByFile = new Map<string, Meeting>(listMeetings().map(meeting => [exportFilename(meeting), meeting]));
+  const existing = new Map(loadExportManifest(exportDir).map(record => [record.filename, record]));
+
+  // Work out the new entries first; rendering thumbnails is slow, so the
+  // manifest is only locked to merge them in
+  const changed: ExportRecord[] = [];
+  const thumbnails = new Map<string, Buffer>();
+
+  for (const filename of pages) {
+    const filePath = path.join(exportDir, filename);
+    const record = existing.get(filename);
+    const meeting = meetingsByFile.get(filename) ?? null;
+    const meetingViz = meeting && (!record || record.meetingId === meeting.id) ? buildMeetingVisualization(meeting) : null;
+
+    let next: ExportRecord;
+    let visualization: MeetingVisualization;
+    if (meetingViz && meeting) {
+      visualization = meetingViz;
+      next = {
+        filename,
+        meetingId: meeting.id,
+        exportedAt: fs.statSync(filePath).mtime.toISOString(),
+        bytes: fs.statSync(filePath).size,
+        pointCount: meetingViz.points.length,
+        options: LEGACY_OPTIONS,
+        ...record,
+        title: record?.title ?? meeting.title,
+        date: record?.date ?? meeting.date,
+        participantCount: record?.participantCount ?? getVisualizationStats(meetingViz).participants,
+      };
+    } else {
+      const details = readExportPage(fs.readFileSync(filePath, 'utf8'));
+      if (!details) {
+        result.skipped.push(filename);
+        continue;
+      }
+      visualization = pageVisualization(details);
+      next = {
+        filename,
+        meetingId: null,
+        exportedAt: fs.statSync(filePath).mtime.toISOString(),
+        bytes: fs.statSync(filePath).size,
+        pointCount: details.points.length,
+        options: LEGACY_OPTIONS,
+        ...record,
+        title: record?.title ?? details.title,
+        date: record?.date ?? details.date,
+        participantCount: record?.participantCount ?? details.points.length,
+      };
+    }
+
+    // Named after the page, like the cards publishMeetingExport saves
+    const image = next.image ?? filename.replace(/\.html$/, '.og.png');
+    if (!fs.existsSync(path.join(exportDir, image))) {
+      thumbnails.set(image, await renderOgCardPng(visualization));
+    }
+    next = { ...next, image };
+
+    if (!record) {
+      result.added.push(filename);
+      changed.push(next);
+    } else if (
+      next.title !== record.title ||
+      next.date !== record.date ||
+      next.participantCount !== record.participantCount ||
+      next.image !== record.image ||
+      thumbnails.has(image)
+    ) {
+      result.updated.push(filename);
+      changed.push(next);
+    }
+  }
+
+  result.removed = [...existing.keys()].filter(filename => !pages.includes(filename));
+  if (changed.length === 0 && result.removed.length === 0) {
+    return result;
+  }
+
+  updateExportManifest(exportDir, records => {
+    // Entries published while we were rendering win over ours
+    const current = new Map(records.map(record => [record.filename, record]));
+    for (const record of changed) {
+      const published = current.get(record.filename);
+      if (!published || published.exportedAt === existing.get(record.filename)?.exportedAt) {
+        current.set(record.filename, record);
+      }
+    }
+    for (const filename of result.removed) {
+      if (current.get(filename)?.exportedAt === existing.get(filename)?.exportedAt) {
+        current.delete(filename);
+      }
+    }
+    for (const [image, png] of thumbnails) {
+      writeFileAtomic(path.join(exportDir, image), png);
+    }
+    return [...current.values()].sort((a, b) => b.exportedAt.localeCompare(a.exportedAt));
+  });
+
+  return result;
+}
@@ -0,0 +1,117 @@
+// src/lib/exportPublisher.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  ExportExistsError,
+  ExportTooLargeError,
+  loadExportManifest,
+  MAX_EXPORT_DIR_BYTES,
+  publishMeetingExport,
+} from './exportPublisher';
+import { CorruptDataError } from './dataFile';
+import { saveMeeting } from './meetings';
+import { saveMembers } from './members';
+import { setStores } from './store';
+import { createJsonStores } from './jsonStore';
+
+describe('exportPublisher', () => {
+  let tmpDir: string;
+  let exportDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpm-publish-'));
+    exportDir = path.join(tmpDir, 'exports');
+    setStores(createJsonStores(tmpDir));
+    saveMembers([{ id: 'alice', name: 'Alice', city: 'Paris', createdAt: '2026-01-10T00:00:00.000Z' }]);
+    saveMeeting({ id: 'call-2026-03-01', title: 'Call', date: '2026-03-01', participantIds: ['alice'] });
+  });
+
+  afterEach(() => {
+    setStores(null);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should write the rendered export and record it in the manifest', async () => {
+    const record = await publishMeetingExport('call-2026-03-01', { autoRotate: true }, { exportDir });
+
+    expect(record).toMatchObject({
+      filename: 'Call-2026-03-01.html',
+      meetingId: 'call-2026-03-01',
+      title: 'Call',
+      date: '2026-03-01',
+      participantCount: 1,
+      pointCount: 1,
+      image: 'Call-2026-03-01.og.png',
+      options: { autoRotate: true, showTitle: true, offline: false, textures: 'full' },
+    });
+    const html = fs.readFileSync(path.join(exportDir, 'Call-2026-03-01.html'), 'utf8');
+    expect(html).toContain('Alice (Paris)');
+    expect(record!.bytes).toBe(Buffer.byteLength(html));
+    expect(loadExportManifest(exportDir)).toEqual([record]);
+  });
+
+  it('should publish same-day meetings with the same title to separate files', async () => {
+    saveMeeting({ id: 'call-2026-03-01-2', title: 'Call', date: '2026-03-01', participantIds: ['alice'] });
+
+    const first = await publishMeetingExport('call-2026-03-01', {}, { exportDir });
+    const second = await publishMeetingExport('call-2026-03-01-2', {}, { exportDir });
+
+    expect(first?.filename).toBe('Call-2026-03-01.html');
+    expect(second).toMatchObject({ filename: 'Call-2026-03-01-2.html', image: 'Call-2026-03-01-2.og.png' });
+    expect(loadExportManifest(exportDir).map(record => record.meetingId).sort()).toEqual([
+      'call-2026-03-01',
+      'call-2026-03-01-2',
+    ]);
+  });
+
+  it('should save a preview card and point the share tags at it', async () => {
+    await publishMeetingExport('call-2026-03-01', {}, { exportDir, publicUrl: 'https://example.org/exports' });
+
+    const card = fs.readFileSync(path.join(exportDir, 'Call-2026-03-01.og.png'));
+    expect(card.subarray(1, 4).toString()).toBe('PNG');
+    const html = fs.readFileSync(path.join(exportDir, 'Call-2026-03-01.html'), 'utf8');
+    expect(html).toContain('<meta property="og:url" content="https://example.org/exports/Call-2026-03-01.html" />');
+    expect(html).toContain('<meta property="og:image" content="https://example.org/exports/Call-2026-03-01.og.png" />');
+  });
+
+  it('should refuse to overwrite an existing export unless asked', async () => {
+    await publishMeetingExport('call-2026-03-01', {}, { exportDir });
+
+    await expect(publishMeetingExport('call-2026-03-01', {}, { exportDir })).rejects.toThrow(ExportExistsError);
+
+    const replaced = await publishMeetingExport('call-2026-03-01', { showTitle: false }, { exportDir, overwrite: true });
+    expect(loadExportManifest(exportDir)).toEqual([replaced]);
+  });
+
+  it('should list newer exports first', async () => {
+    saveMeeting({ id: 'call-2026-03-08', title: 'Call', date: '2026-03-08', participantIds: ['alice'] });
+
+    await publishMeetingExport('call-2026-03-01', {}, { exportDir });
+    await publishMeetingExport('call-2026-03-08', {}, { exportDir });
+
+    expect(loadExportManifest(exportDir).map(entry => entry.meetingId)).toEqual(['call-2026-03-08', 'call-2026-03-01']);
+  });
+
+  it('should return null for an unknown meeting', async () => {
+    expect(await publishMeetingExport('missing', {}, { exportDir })).toBeNull();
+    expect(fs.existsSync(exportDir)).toBe(false);
+  });
+
+  it('should stop publishing once the exports directory is full', async () => {
+    fs.mkdirSync(exportDir);
+    fs.writeFileSync(path.join(exportDir, 'big.html'), '');
+    fs.truncateSync(path.join(exportDir, 'big.html'), MAX_EXPORT_DIR_BYTES);
+
+    await expect(publishMeetingExport('call-2026-03-01', {}, { exportDir })).rejects.toThrow(ExportTooLargeError);
+    expect(fs.existsSync(path.join(exportDir, 'Call-2026-03-01.html'))).toBe(false);
+  });
+
+  it('should reject a corrupt manifest', () => {
+    fs.mkdirSync(exportDir);
+    fs.writeFileSync(path.join(exportDir, 'manifest.json'), '{"exports": [{"filename": 1}]}');
+
+    expect(() => loadExportManifest(exportDir)).toThrow(CorruptDataError);
+  });
+});
@@ -0,0 +1,243 @@
+// src/lib/exportPublisher.ts
+/**
+ * Published Exports
+ *
+ * Writes rendered exports into the exports directory (public/exports/ by
+ * default, served on GitHub Pages; see siteConfig.ts) and records each one in
+ * its manifest.json.
+ *
+ * Only HTML rendered here from stored meetings gets published - the server
+ * never writes markup supplied by a client. On top of that:
+ * - a rendered file over MAX_EXPORT_BYTES is refused
+ * - nothing is published once the directory holds MAX_EXPORT_DIR_BYTES
+ * - an existing export is only replaced when `overwrite` is set
+ *
+ * Each export gets a link preview card ("{Title}-{date}.og.png", see
+ * ogImage.ts) next to it, and the page's og:image points at the card's
+ * public address under the site's exportsUrl.
+ *
+ * The manifest keeps one entry per file: which meeting it came from, its
+ * title, date and participant count (for the exports gallery, see
+ * exportGallery.ts), when it was (last) exported and with which options.
+ * Pages published before the manifest are added by exportIndex.ts.
+ */
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { env } from '~/env';
+import { CorruptDataError, readJsonFile, withFileLock, writeFileAtomic, writeJsonFileAtomic } from './dataFile';
+import { EmptyExportError, exportFilename, renderExportHtml, type ExportOptions } from './exportRenderer';
+import { OG_IMAGE_HEIGHT, OG_IMAGE_WIDTH, ogImageFilename, renderOgCardPng } from './ogImage';
+import { siteConfig } from './siteConfig';
+import { getMeetingVisualization, getVisualizationStats } from './visualization';
+
+/** Largest single export (an offline export with full textures is ~4.8MB) */
+export const MAX_EXPORT_BYTES = 8 * 1024 * 1024;
+
+/** Combined size of all published exports */
+export const MAX_EXPORT_DIR_BYTES = 200 * 1024 * 1024;
+
+const MANIFEST_FILE = 'manifest.json';
+
+const ExportRecordSchema = z.object({
+  filename: z.string(),
+  /** null for pages published before the meeting store existed */
+  meetingId: z.string().nullable(),
+  /** Missing on entries written before the gallery; exportIndex.ts fills them in */
+  title: z.string().optional(),
+  date: z.string().optional(),
+  participantCount: z.number().optional(),
+  exportedAt: z.string(),
+  bytes: z.number(),
+  pointCount: z.number(),
+  /** Link preview card; missing for exports published before cards existed */
+  image: z.string().optional(),
+  options: z.object({
+    autoRotate: z.boolean(),
+    showTitle: z.boolean(),
+    offline: z.boolean(),
+    textures: z.enum(['full', 'low']),
+  }),
+});
+
+const ManifestSchema = z.object({ exports: z.array(ExportRecordSchema) });
+
+/**
+ * One manifest entry
+ */
+export type ExportRecord = z.infer<typeof ExportRecordSchema>;
+
+export interface PublishOptions {
+  /** Replace an existing file with the same name (default false) */
+  overwrite?: boolean;
+  /** Where exports are published (default: defaultExportDir()) */
+  exportDir?: string;
+  /** Address the exports directory is served from (default: the site's exportsUrl) */
+  publicUrl?: string;
+}
+
+/**
+ * Thrown when an export with the same file name is already published
+ */
+export class ExportExistsError extends Error {
+  constructor(public readonly filename: string) {
+    super(`Export ${filename} already exists; set overwrite to replace it`);
+    this.name = 'ExportExistsError';
+  }
+}
+
+/**
+ * Thrown when publishing would exceed a size limit
+ */
+export class ExportTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportTooLargeError';
+  }
+}
+
+/**
+ * The exports directory: EXPORT_DIR, or exportDir from site.config.json
+ * (relative paths are resolved against the working directory)
+ */
+export function defaultExportDir(): string {
+  return path.resolve(env.EXPORT_DIR ?? siteConfig.exportDir);
+}
+
+/**
+ * Total size of the published pages and cards, not counting the manifest
+ * or the files about to be replaced
+ */
+function publishedBytes(exportDir: string, except: string[]): number {
+  if (!fs.existsSync(exportDir)) {
+    return 0;
+  }
+  return fs
+    .readdirSync(exportDir)
+    .filter(name => (name.endsWith('.html') || name.endsWith('.og.png')) && !except.includes(name))
+    .reduce((sum, name) => sum + fs.statSync(path.join(exportDir, name)).size, 0);
+}
+
+/**
+ * Reads the export manifest
+ *
+ * @returns Manifest entries, newest first (empty if nothing was published yet)
+ * @throws CorruptDataError if the manifest can't be parsed
+ */
+export function loadExportManifest(exportDir: string = defaultExportDir()): ExportRecord[] {
+  const manifestPath = path.join(exportDir, MANIFEST_FILE);
+  const content = readJsonFile(manifestPath);
+  if (content === undefined) {
+    return [];
+  }
+
+  const parsed = ManifestSchema.safeParse(content);
+  if (!parsed.success) {
+    throw new CorruptDataError(manifestPath, parsed.error.message);
+  }
+  return parsed.data.exports;
+}
+
+/**
+ * Applies a change to the manifest under its lock
+ *
+ * @param update - Receives the current entries, returns the new ones
+ * @returns The new entries
+ */
+export function updateExportManifest(
+  exportDir: string,
+  update: (records: ExportRecord[]) => ExportRecord[]
+): ExportRecord[] {
+  const manifestPath = path.join(exportDir, MANIFEST_FILE);
+  return withFileLock(manifestPath, () => {
+    const records = update(loadExportManifest(exportDir));
+    writeJsonFileAtomic(manifestPath, { exports: records });
+    return records;
+  });
+}
+
+/**
+ * Renders a meeting's export and preview card and publishes them to the
+ * exports directory
+ *
+ * @param meetingId - Meeting ID
+ * @param options - Rendering options (see renderMeetingExport)
+ * @returns The manifest entry, or null if the meeting doesn't exist
+ * @throws EmptyExportError if no participant has a known city
+ * @throws ExportExistsError if the file exists and overwrite isn't set
+ * @throws ExportTooLargeError if the file or the exports directory would be too big
+ */
+export async function publishMeetingExport(
+  meetingId: string,
+  options: ExportOptions = {},
+  { overwrite = false, exportDir = defaultExportDir(), publicUrl = siteConfig.exportsUrl }: PublishOptions = {}
+): Promise<ExportRecord | null> {
+  const visualization = getMeetingVisualization(meetingId);
+  if (!visualization) {
+    return null;
+  }
+  if (visualization.points.length === 0) {
+    throw new EmptyExportError(meetingId);
+  }
+
+  const { meeting } = visualization;
+  const filename = exportFilename(meeting);
+  const image = ogImageFilename(meeting);
+  const baseUrl = publicUrl.endsWith('/') ? publicUrl : `${publicUrl}/`;
+
+  const html = renderExportHtml(visualization, {
+    ...options,
+    share: {
+      url: `${baseUrl}${filename}`,
+      imageUrl: `${baseUrl}${image}`,
+      imageWidth: OG_IMAGE_WIDTH,
+      imageHeight: OG_IMAGE_HEIGHT,
+    },
+  });
+  const bytes = Buffer.byteLength(html);
+  if (bytes > MAX_EXPORT_BYTES) {
+    throw new ExportTooLargeError(
+      `Export is ${(bytes / 1024 / 1024).toFixed(1)}MB; the limit is ${MAX_EXPORT_BYTES / 1024 / 1024}MB`
+    );
+  }
+
+  // Rasterizing is the slow part, so it happens before taking the lock
+  const png = await renderOgCardPng(visualization);
+
+  const manifestPath = path.join(exportDir, MANIFEST_FILE);
+  return withFileLock(manifestPath, () => {
+    const filePath = path.join(exportDir, filename);
+    if (fs.existsSync(filePath) && !overwrite) {
+      throw new ExportExistsError(filename);
+    }
+    if (publishedBytes(exportDir, [filename, image]) + bytes + png.length > MAX_EXPORT_DIR_BYTES) {
+      throw new ExportTooLargeError(
+        `Published exports would exceed ${MAX_EXPORT_DIR_BYTES / 1024 / 1024}MB; remove old exports first`
+      );
+    }
+
+    const record: ExportRecord = {
+      filename,
+      meetingId: meeting.id,
+      title: meeting.title,
+      date: meeting.date,
+      participantCount: getVisualizationStats(visualization).participants,
+      exportedAt: new Date().toISOString(),
+      bytes,
+      pointCount: visualization.points.length,
+      image,
+      options: {
+        autoRotate: options.autoRotate ?? false,
+        showTitle: options.showTitle ?? true,
+        offline: options.offline ?? false,
+        textures: options.textures ?? 'full',
+      },
+    };
+    const manifest = loadExportManifest(exportDir).filter(entry => entry.filename !== record.filename);
+
+    writeFileAtomic(path.join(exportDir, image), png);
+    writeFileAtomic(filePath, html);
+    writeJsonFileAtomic(manifestPath, { exports: [record, ...manifest] });
+    return record;
+  });
+}
@@ -0,0 +1,153 @@
+// src/lib/exportRenderer.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { EmptyExportError, exportFilename, renderExportHtml, renderMeetingExport } from './exportRenderer';
+import { saveMeeting } from './meetings';
+import { saveMembers } from './members';
+import { setStores } from './store';
+import { createJsonStores } from './jsonStore';
+import type { MeetingVisualization } from './visualization';
+
+const visualization = (title: string, memberName = 'Alice'): MeetingVisualization => ({
+  meeting: { id: 'call-2026-03-01', title, date: '2026-03-01' },
+  points: [{ memberId: 'alice', memberName, cityName: 'Paris', lat: 48.85, lng: 2.35, countryCode: 'FR' }],
+  arcs: [],
+  unplaced: [],
+  unknownCities: [],
+  countries: [{ countryCode: 'FR', name: 'France', continent: 'Europe', count: 1 }],
+  continents: [{ continent: 'Europe', count: 1, countries: 1 }],
+});
+
+describe('exportRenderer', () => {
+  describe('exportFilename', () => {
+    it('should build "{Title}-{date}.html" with a file-safe title', () => {
+      const date = '2026-03-01';
+      expect(exportFilename({ id: 'weekly-call-2026-03-01', title: 'Weekly Call', date })).toBe('Weekly-Call-2026-03-01.html');
+      expect(exportFilename({ id: 'a-b-x-2026-03-01', title: '../a/b "x"', date })).toBe('.._a_b-_x_-2026-03-01.html');
+      expect(exportFilename({ id: 'meeting-2026-03-01', title: '  ', date })).toBe('meeting-2026-03-01.html');
+    });
+
+    it('should keep the ID suffix of a second same-day meeting with the same title', () => {
+      expect(exportFilename({ id: 'call-2026-03-01-2', title: 'Call', date: '2026-03-01' })).toBe('Call-2026-03-01-2.html');
+      expect(exportFilename({ id: 'call-2026-03-01-2', title: 'Call', date: '2026-03-01' }, 'og.png')).toBe(
+        'Call-2026-03-01-2.og.png'
+      );
+    });
+
+    it('should keep the ID suffix after the meeting is re-dated', () => {
+      const first = { id: 'call-2026-03-01', title: 'Call', date: '2026-03-08' };
+      const second = { id: 'call-2026-03-01-2', title: 'Call', date: '2026-03-08' };
+
+      expect(exportFilename(second)).toBe('Call-2026-03-08-2.html');
+      expect(exportFilename(second)).not.toBe(exportFilename(first));
+    });
+  });
+
+  describe('renderExportHtml', () => {
+    it('should escape the title and participant labels', () => {
+      const html = renderExportHtml(visualization('<img src=x onerror=alert(1)>', '</script><b>Eve</b>'));
+
+      expect(html).not.toContain('<img src=x');
+      expect(html).toContain('<title>&lt;img src=x onerror=alert(1)&gt;</title>');
+      expect(html).not.toContain('</script><b>');
+      expect(html.match(/<\/script>/g)).toHaveLength(2);
+    });
+
+    it('should apply the autoRotate and showTitle options', () => {
+      expect(renderExportHtml(visualization('Call'))).toContain('autoRotate = false');
+      expect(renderExportHtml(visualization('Call'), { autoRotate: true })).toContain('autoRotate = true');
+      expect(renderExportHtml(visualization('Call'))).toContain('<div class="overlay">Call — 2026-03-01</div>');
+      expect(renderExportHtml(visualization('Call'), { showTitle: false })).not.toContain('class="overlay"');
+    });
+
+    it('should load the library and textures from the CDN by default', () => {
+      const html = renderExportHtml(visualization('Call'));
+
+      expect(html).toContain('<script src="https://unpkg.com/globe.gl"></script>');
+      expect(html).not.toContain('data:image/');
+    });
+
+    it('should inline the library and textures for offline exports', () => {
+      const full = renderExportHtml(visualization('Call'), { offline: true });
+      const low = renderExportHtml(visualization('Call'), { offline: true, textures: 'low' });
+
+      for (const html of [full, low]) {
+        expect(html).not.toContain('unpkg.com');
+        expect(html).not.toContain('<script src=');
+        expect(html).toContain('.globeImageUrl("data:image/jpeg;base64,');
+      }
+      expect(full).toContain('.backgroundImageUrl("data:image/png;base64,');
+      expect(low).toContain('.backgroundImageUrl(null)');
+      expect(low.length).toBeLessThan(full.length / 2);
+    });
+
+    it('should describe the meeting in link preview tags', () => {
+      const html = renderExportHtml(visualization('Call <b>'));
+
+      expect(html).toContain('<meta property="og:title" content="Call &lt;b&gt; — 2026-03-01" />');
+      expect(html).toContain('<meta property="og:description" content="1 participant from 1 city in 1 country" />');
+      expect(html).toContain('<meta name="twitter:card" content="summary" />');
+      expect(html).not.toContain('og:image');
+    });
+
+    it('should point the preview tags at the published card', () => {
+      const html = renderExportHtml(visualization('Call'), {
+        share: {
+          url: 'https://example.org/Call-2026-03-01.html',
+          imageUrl: 'https://example.org/Call-2026-03-01.og.png',
+          imageWidth: 1200,
+          imageHeight: 630,
+        },
+      });
+
+      expect(html).toContain('<meta property="og:url" content="https://example.org/Call-2026-03-01.html" />');
+      expect(html).toContain('<meta name="twitter:image" content="https://example.org/Call-2026-03-01.og.png" />');
+      expect(html).toContain('<meta property="og:image:width" content="1200" />');
+      expect(html).toContain('<meta name="twitter:card" content="summary_large_image" />');
+    });
+  });
+
+  describe('renderMeetingExport', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpm-export-'));
+      setStores(createJsonStores(tmpDir));
+      saveMembers([
+        { id: 'alice', name: 'Alice', city: 'Paris', createdAt: '2026-01-10T00:00:00.000Z' },
+        { id: 'bob', name: 'Bob', city: 'Nowhere Town', createdAt: '2026-01-10T00:00:00.000Z' },
+      ]);
+    });
+
+    afterEach(() => {
+      setStores(null);
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should render a stored meeting', () => {
+      saveMeeting({ id: 'call-2026-03-01', title: 'Call', date: '2026-03-01', participantIds: ['alice', 'bob'] });
+
+      const result = renderMeetingExport('call-2026-03-01');
+
+      expect(result).toMatchObject({
+        meetingId: 'call-2026-03-01',
+        filename: 'Call-2026-03-01.html',
+        pointCount: 1,
+        unknownCities: ['Nowhere Town'],
+      });
+      expect(result!.html).toContain('Alice (Paris)');
+    });
+
+    it('should return null for an unknown meeting', () => {
+      expect(renderMeetingExport('missing')).toBeNull();
+    });
+
+    it('should refuse a meeting with nobody to place', () => {
+      saveMeeting({ id: 'call-2026-03-02', title: 'Call', date: '2026-03-02', participantIds: ['bob'] });
+
+      expect(() => renderMeetingExport('call-2026-03-02')).toThrow(EmptyExportError);
+    });
+  });
+});
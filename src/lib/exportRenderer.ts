@@ -0,0 +1,346 @@
+// src/lib/exportRenderer.ts
+/**
+ * Standalone HTML Export
+ *
+ * The single renderer for exported globe files. Used by
+ * GET /api/meetings/{id}/export (and so the globe page's Export button) and
+ * by `npm run export-globe`.
+ *
+ * The output is one self-contained HTML file: participant coordinates are
+ * resolved on the server (see visualization.ts) and embedded, so the file
+ * never needs the app's API or data files.
+ *
+ * By default the globe library and textures load from unpkg. With
+ * `offline: true` they are inlined instead - the globe.gl UMD bundle (which
+ * includes three.js) from node_modules and the textures as data URIs - so the
+ * file opens with no network at all. `textures: 'low'` swaps in a 1024x512
+ * earth texture and drops the star background, which brings an offline file
+ * from about 4.8MB down to 1.8MB.
+ *
+ * Each page carries Open Graph / Twitter meta tags (title, participant
+ * counts). Published exports also pass `share` so the tags point at the
+ * preview card saved next to the page (see ogImage.ts, exportPublisher.ts).
+ *
+ * Everything taken from stored data (titles, names, cities) is escaped, so a
+ * meeting title can't inject markup into the exported page.
+ */
+import fs from 'fs';
+import path from 'path';
+import {
+  buildMeetingVisualization,
+  describeMeeting,
+  getVisualizationStats,
+  type MeetingVisualization,
+} from './visualization';
+import { escapeHtml } from './escape';
+import { pointTooltip } from './globeLabels';
+import { loadMeeting } from './meetings';
+import { siteConfig } from './siteConfig';
+import type { Meeting } from './validation';
+
+const GLOBE_LIBRARY_URL = 'https://unpkg.com/globe.gl';
+
+/**
+ * Local copies of the library and the default textures, inlined by offline
+ * exports (online exports load the textures from site.config.json)
+ * The low-res earth is earth-blue-marble.jpg resized to 1024x512 (JPEG, q70).
+ */
+const OFFLINE_ASSETS = {
+  library: ['node_modules', 'globe.gl', 'dist', 'globe.gl.min.js'],
+  textures: {
+    full: {
+      globe: ['node_modules', 'three-globe', 'example', 'img', 'earth-blue-marble.jpg'],
+      background: ['node_modules', 'three-globe', 'example', 'img', 'night-sky.png'],
+    },
+    low: {
+      globe: ['public', 'textures', 'earth-blue-marble-1k.jpg'],
+      background: null,
+    },
+  },
+} as const;
+
+/**
+ * Options for renderMeetingExport
+ */
+export interface ExportOptions {
+  /** Slowly spin the globe (default false) */
+  autoRotate?: boolean;
+  /** Show the "Title — date" overlay (default true) */
+  showTitle?: boolean;
+  /** Inline the globe library and textures so the file needs no network (default false) */
+  offline?: boolean;
+  /** Texture resolution for offline files (default 'full') */
+  textures?: ExportTextures;
+  /** Public address of the page and its preview card, for og:url / og:image */
+  share?: ExportShareUrls;
+}
+
+export interface ExportShareUrls {
+  url: string;
+  imageUrl: string;
+  imageWidth: number;
+  imageHeight: number;
+}
+
+export type ExportTextures = keyof typeof OFFLINE_ASSETS.textures;
+
+/**
+ * A rendered export, ready to write or serve
+ */
+export interface MeetingExport {
+  meetingId: string;
+  filename: string;
+  html: string;
+  pointCount: number;
+  unknownCities: string[];
+}
+
+/**
+ * Thrown when none of a meeting's participants can be placed on the globe
+ */
+export class EmptyExportError extends Error {
+  constructor(meetingId: string) {
+    super(`Meeting ${meetingId} has no participants with known cities to export`);
+    this.name = 'EmptyExportError';
+  }
+}
+
+// ===== Escaping =====
+
+/**
+ * JSON that is safe inside an inline <script> (no "</script>" breakout)
+ */
+function scriptJson(data: unknown): string {
+  return JSON.stringify(data)
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+// ===== Offline Assets =====
+
+/** File contents by path; the library and textures never change at runtime */
+const assetCache = new Map<string, string>();
+
+function readAsset(segments: readonly string[], encode: (content: Buffer) => string): string {
+  const filePath = path.join(process.cwd(), ...segments);
+  const cached = assetCache.get(filePath);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Offline export asset missing: ${filePath} - run "npm install"`);
+  }
+  const content = encode(fs.readFileSync(filePath));
+  assetCache.set(filePath, content);
+  return content;
+}
+
+const IMAGE_TYPES: Record<string, string> = { '.jpg': 'image/jpeg', '.png': 'image/png' };
+
+function dataUri(segments: readonly string[]): string {
+  const type = IMAGE_TYPES[path.extname(segments[segments.length - 1]!)] ?? 'application/octet-stream';
+  return readAsset(segments, content => `data:${type};base64,${content.toString('base64')}`);
+}
+
+interface ExportAssets {
+  /** <script> tag that defines the Globe global */
+  libraryTag: string;
+  globeImage: string;
+  backgroundImage: string | null;
+}
+
+/**
+ * Where an export loads globe.gl and its textures from
+ */
+function exportAssets({ offline = false, textures = 'full' }: ExportOptions): ExportAssets {
+  if (!offline) {
+    return {
+      libraryTag: `<script src="${GLOBE_LIBRARY_URL}"></script>`,
+      globeImage: siteConfig.textures.globe,
+      backgroundImage: siteConfig.textures.background,
+    };
+  }
+
+  // A "</script" inside the bundle would end the inline tag early
+  const library = readAsset(OFFLINE_ASSETS.library, content =>
+    content.toString('utf8').replace(/<\/script/gi, '<\\/script')
+  );
+  const { globe, background } = OFFLINE_ASSETS.textures[textures];
+  return {
+    libraryTag: `<script>${library}</script>`,
+    globeImage: dataUri(globe),
+    backgroundImage: background ? dataUri(background) : null,
+  };
+}
+
+// ===== Rendering =====
+
+/**
+ * Open Graph and Twitter card tags for link previews
+ * The image tags are only written when the export's public address is known.
+ */
+function shareMetaTags(visualization: MeetingVisualization, share: ExportShareUrls | undefined): string {
+  const { meeting } = visualization;
+  const title = `${meeting.title} — ${meeting.date}`;
+  const description = describeMeeting(getVisualizationStats(visualization));
+
+  const tags: Array<[string, string, string]> = [
+    ['name', 'description', description],
+    ['property', 'og:type', 'website'],
+    ['property', 'og:site_name', siteConfig.communityName],
+    ['property', 'og:title', title],
+    ['property', 'og:description', description],
+    ['name', 'twitter:card', share ? 'summary_large_image' : 'summary'],
+    ['name', 'twitter:title', title],
+    ['name', 'twitter:description', description],
+  ];
+  if (share) {
+    tags.push(
+      ['property', 'og:url', share.url],
+      ['property', 'og:image', share.imageUrl],
+      ['property', 'og:image:width', String(share.imageWidth)],
+      ['property', 'og:image:height', String(share.imageHeight)],
+      ['name', 'twitter:image', share.imageUrl]
+    );
+  }
+
+  return tags.map(([attribute, key, value]) => `<meta ${attribute}="${key}" content="${escapeHtml(value)}" />`).join('\n  ');
+}
+
+/**
+ * File name for a meeting's export: "{Title}-{date}.{extension}"
+ * Whitespace becomes dashes and anything outside [A-Za-z0-9._-] an underscore.
+ * A meeting whose ID carries createMeeting's "-2", "-3", ... suffix (same
+ * title, same day) gets it too: "{Title}-{date}-2.{extension}". The suffix
+ * is read from the ID alone, since re-dating a meeting keeps its ID.
+ */
+export function exportFilename(meeting: Pick<Meeting, 'id' | 'title' | 'date'>, extension = 'html'): string {
+  const safeTitle = meeting.title.trim().replace(/\s+/g, '-').replace(/[^A-Za-z0-9._-]/g, '_') || 'meeting';
+  const [, suffix = ''] = /-\d{4}-\d{2}-\d{2}(-\d+)$/.exec(meeting.id) ?? [];
+  return `${safeTitle}-${meeting.date}${suffix}.${extension}`;
+}
+
+/**
+ * Builds the standalone HTML page for computed visualization data
+ */
+export function renderExportHtml(visualization: MeetingVisualization, options: ExportOptions = {}): string {
+  const { autoRotate = false, showTitle = true } = options;
+  const { meeting } = visualization;
+  const heading = `${meeting.title} — ${meeting.date}`;
+  const { libraryTag, globeImage, backgroundImage } = exportAssets(options);
+
+  // globe.gl renders labels as HTML, so names and cities are escaped here
+  const points = visualization.points.map(point => ({
+    lat: point.lat,
+    lng: point.lng,
+    label: pointTooltip(point),
+    color: siteConfig.colors.point,
+  }));
+  const arcs = visualization.arcs.map(arc => ({
+    ...arc,
+    color: [siteConfig.colors.arcStart, siteConfig.colors.arcEnd],
+  }));
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHtml(meeting.title)}</title>
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  ${shareMetaTags(visualization, options.share)}
+  <style>
+    html, body {
+      margin: 0;
+      height: 100%;
+      background: black;
+      display: flex;
+      flex-direction: column;
+    }
+    .container {
+      position: relative;
+      display: flex;
+      flex: 1 1 auto;
+      align-items: stretch;
+      justify-content: center;
+      min-height: 0;
+    }
+    #globe {
+      width: 100%;
+      height: 100%;
+      max-height: 100dvh;
+      min-height: 40vh;
+      overflow: hidden;
+      flex: 1 1 auto;
+      position: relative;
+    }
+    .overlay {
+      position: absolute;
+      top: 12px;
+      left: 12px;
+      color: white;
+      font-family: sans-serif;
+      font-weight: bold;
+      background: rgba(0,0,0,0.35);
+      padding: 6px 8px;
+      border-radius: 6px;
+      z-index: 2;
+      font-size: clamp(12px, 2.5vw, 16px);
+      pointer-events: none;
+    }
+    @media (max-width: 420px) {
+      .overlay { left: 8px; top: 8px; padding: 4px 6px; }
+      #globe { min-height: 50vh; }
+    }
+  </style>
+  ${libraryTag}
+</head>
+<body>
+  <section class="container">
+    <div id="globe"></div>
+    ${showTitle ? `<div class="overlay">${escapeHtml(heading)}</div>` : ''}
+  </section>
+  <script>
+    const points = ${scriptJson(points)};
+    const arcs = ${scriptJson(arcs)};
+    const globe = Globe()
+      .globeImageUrl(${scriptJson(globeImage)})
+      .backgroundImageUrl(${scriptJson(backgroundImage)})
+      .pointsData(points).pointColor('color').pointLabel('label')
+      .arcsData(arcs).arcColor('color').arcAltitude(0.2).arcDashLength(0.5).arcDashGap(0.02).arcDashAnimateTime(3000);
+    globe(document.getElementById('globe'));
+    globe.controls().autoRotate = ${autoRotate};
+    globe.controls().autoRotateSpeed = 0.5;
+  </script>
+</body>
+</html>`;
+}
+
+/**
+ * Renders the standalone HTML export for a stored meeting
+ *
+ * @param meetingId - Meeting ID
+ * @param options - Rendering options
+ * @returns The rendered export, or null if the meeting doesn't exist
+ * @throws EmptyExportError if no participant has a known city
+ */
+export function renderMeetingExport(meetingId: string, options: ExportOptions = {}): MeetingExport | null {
+  const meeting = loadMeeting(meetingId);
+  if (!meeting) {
+    return null;
+  }
+
+  const visualization = buildMeetingVisualization(meeting);
+  if (visualization.points.length === 0) {
+    throw new EmptyExportError(meetingId);
+  }
+
+  return {
+    meetingId: meeting.id,
+    filename: exportFilename(meeting),
+    html: renderExportHtml(visualization, options),
+    pointCount: visualization.points.length,
+    unknownCities: visualization.unknownCities,
+  };
+}
@@ -0,0 +1,72 @@
+// src/lib/geo.ts
+/**
+ * Geographic Helpers
+ *
+ * Small, dependency-free math on lat/lng coordinates (degrees).
+ */
+import type { CityCoord } from './validation';
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle (Haversine) distance between two points
+ *
+ * @returns Distance in kilometers
+ */
+export function distanceKm(a: CityCoord, b: CityCoord): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const s1 = Math.sin(dLat / 2);
+  const s2 = Math.sin(dLng / 2);
+  const h = s1 * s1 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * s2 * s2;
+  return 2 * EARTH_RADIUS_KM * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Points along the great circle from a to b (both ends included)
+ * Used to draw arcs on flat maps, where a straight line would be wrong.
+ *
+ * @param segments - Number of straight pieces to split the arc into
+ */
+export function interpolateGreatCircle(a: CityCoord, b: CityCoord, segments = 32): CityCoord[] {
+  const [lat1, lng1, lat2, lng2] = [a.lat, a.lng, b.lat, b.lng].map(toRadians) as [number, number, number, number];
+  const start = [Math.cos(lat1) * Math.cos(lng1), Math.cos(lat1) * Math.sin(lng1), Math.sin(lat1)];
+  const end = [Math.cos(lat2) * Math.cos(lng2), Math.cos(lat2) * Math.sin(lng2), Math.sin(lat2)];
+
+  const dot = Math.min(1, Math.max(-1, start[0]! * end[0]! + start[1]! * end[1]! + start[2]! * end[2]!));
+  const angle = Math.acos(dot);
+  // Same or antipodal points: no single great circle to follow
+  if (angle < 1e-9 || Math.PI - angle < 1e-9) {
+    return [a, b];
+  }
+
+  // Spherical linear interpolation between the two unit vectors
+  const points: CityCoord[] = [];
+  for (let i = 0; i <= segments; i++) {
+    const t = i / segments;
+    const wa = Math.sin((1 - t) * angle) / Math.sin(angle);
+    const wb = Math.sin(t * angle) / Math.sin(angle);
+    const [x, y, z] = [0, 1, 2].map(k => wa * start[k]! + wb * end[k]!) as [number, number, number];
+    points.push({ lat: toDegrees(Math.atan2(z, Math.hypot(x, y))), lng: toDegrees(Math.atan2(y, x)) });
+  }
+  return points;
+}
+
+/**
+ * Arcs connecting every pair of points (all-to-all)
+ */
+export function arcsBetween(points: CityCoord[]): Array<{ startLat: number; startLng: number; endLat: number; endLng: number }> {
+  const arcs = [];
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      const a = points[i]!;
+      const b = points[j]!;
+      arcs.push({ startLat: a.lat, startLng: a.lng, endLat: b.lat, endLng: b.lng });
+    }
+  }
+  return arcs;
+}
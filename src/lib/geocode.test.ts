@@ -1,6 +1,12 @@
 // src/lib/geocode.test.ts
-import { describe, it, expect } from 'vitest';
-import { geocodeCity } from './geocode';
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  createFixtureGeocoder,
+  createGeocoderFromEnv,
+  createNominatimGeocoder,
+  geocodeCity,
+  GeocoderUnavailableError,
+} from './geocode';
 
 describe('geocodeCity', () => {
   it('should return coordinates for known cities', () => {
@@ -71,3 +77,108 @@ describe('geocodeCity', () => {
     expect(parisResult).not.toBeNull();
   });
 });
+
+describe('createNominatimGeocoder', () => {
+  const LAGOS = [{ lat: '6.4550575', lon: '3.3941795', name: 'Lagos', address: { country_code: 'ng' } }];
+
+  function fakeFetch(respond: () => Response | Promise<Response>) {
+    return vi.fn<typeof fetch>(async () => respond());
+  }
+
+  it('should ask Nominatim and return the first match', async () => {
+    const fetchFn = fakeFetch(() => Response.json(LAGOS));
+    const geocoder = createNominatimGeocoder({ baseUrl: 'https://geo.example.org', userAgent: 'test/1.0', fetch: fetchFn });
+
+    expect(await geocoder.geocode('lagos')).toEqual({ lat: 6.4551, lng: 3.3942, displayName: 'Lagos', countryCode: 'NG' });
+
+    const [url, init] = fetchFn.mock.calls[0]!;
+    expect((url as URL).href).toBe('https://geo.example.org/search?q=lagos&format=jsonv2&limit=1&addressdetails=1');
+    expect(init?.headers).toMatchObject({ 'User-Agent': 'test/1.0' });
+  });
+
+  it('should read the region from the subdivision code', async () => {
+    const paris = [{ lat: '33.66', lon: '-95.55', name: 'Paris', address: { country_code: 'us', 'ISO3166-2-lvl4': 'US-TX' } }];
+    const geocoder = createNominatimGeocoder({ fetch: fakeFetch(() => Response.json(paris)), minIntervalMs: 0 });
+
+    expect(await geocoder.geocode('Paris, TX, US')).toMatchObject({ displayName: 'Paris', region: 'TX', countryCode: 'US' });
+  });
+
+  it('should return null when nothing matches', async () => {
+    const geocoder = createNominatimGeocoder({ fetch: fakeFetch(() => Response.json([])) });
+
+    expect(await geocoder.geocode('Nowhereville')).toBeNull();
+  });
+
+  it('should report HTTP errors, network errors and odd responses as unavailable', async () => {
+    const failures = [
+      () => new Response('Slow down', { status: 429 }),
+      () => Promise.reject(new TypeError('fetch failed')),
+      () => Response.json({ error: 'Unable to geocode' }),
+    ];
+
+    for (const respond of failures) {
+      const geocoder = createNominatimGeocoder({ minIntervalMs: 0, fetch: fakeFetch(respond) });
+      await expect(geocoder.geocode('Lagos')).rejects.toBeInstanceOf(GeocoderUnavailableError);
+    }
+  });
+
+  it('should space requests out, even when a request fails', async () => {
+    const startedAt: number[] = [];
+    let calls = 0;
+    const geocoder = createNominatimGeocoder({
+      minIntervalMs: 50,
+      fetch: fakeFetch(() => {
+        startedAt.push(Date.now());
+        return ++calls === 2 ? new Response('', { status: 500 }) : Response.json(LAGOS);
+      }),
+    });
+
+    const results = await Promise.allSettled(['a', 'b', 'c'].map(city => geocoder.geocode(city)));
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+    expect(startedAt[1]! - startedAt[0]!).toBeGreaterThanOrEqual(45);
+    expect(startedAt[2]! - startedAt[1]!).toBeGreaterThanOrEqual(45);
+  });
+});
+
+describe('createFixtureGeocoder', () => {
+  it('should answer from its table, ignoring case and spacing', async () => {
+    const geocoder = createFixtureGeocoder({ 'Ouagadougou': { lat: 12.3714, lng: -1.5197, countryCode: 'BF' } });
+
+    expect(await geocoder.geocode('  ouagadougou ')).toEqual({
+      lat: 12.3714,
+      lng: -1.5197,
+      countryCode: 'BF',
+      displayName: 'ouagadougou',
+    });
+    expect(await geocoder.geocode('Bobo-Dioulasso')).toBeNull();
+  });
+});
+
+describe('createGeocoderFromEnv', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should default to Nominatim', () => {
+    expect(createGeocoderFromEnv({}).name).toBe('nominatim');
+  });
+
+  it('should find nothing with GEOCODER=none', async () => {
+    expect(await createGeocoderFromEnv({ GEOCODER: 'none' }).geocode('Paris')).toBeNull();
+  });
+
+  it('should reject fixtures without a file', () => {
+    expect(() => createGeocoderFromEnv({ GEOCODER: 'fixtures' })).toThrow(/GEOCODER_FIXTURES/);
+  });
+
+  it('should reject unknown geocoders when the environment is validated', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.stubEnv('SKIP_ENV_VALIDATION', '');
+    vi.stubEnv('GEOCODER', 'google');
+    vi.resetModules();
+
+    await expect(import('~/env')).rejects.toThrow('Invalid environment variables');
+  });
+});
@@ -1,4 +1,28 @@
-import { getCityCoordinates } from "./cities";
+// src/lib/geocode.ts
+/**
+ * Geocoding
+ *
+ * geocodeCity looks a city up among the known cities (no network).
+ *
+ * Cities nobody has used before are looked up through a Geocoder:
+ * - nominatim (default): OpenStreetMap Nominatim, one request at a time and
+ *   at most one per second, as its usage policy asks
+ * - fixtures: answers from a JSON file ({ "city": { lat, lng, countryCode } }),
+ *   for tests and working offline
+ * - none: finds nothing
+ *
+ * Configuration (environment variables, validated by src/env.js):
+ * - GEOCODER          - "nominatim", "fixtures" or "none" (default: "nominatim")
+ * - GEOCODER_FIXTURES - fixtures file for the fixtures geocoder
+ * - NOMINATIM_URL     - Nominatim server (default: https://nominatim.openstreetmap.org)
+ *
+ * cityCache.ts saves what a geocoder finds to the city store.
+ */
+import fs from 'fs';
+import { z } from 'zod';
+import { env } from '~/env';
+import { getCityCoordinates, normalizeCityName } from './cities';
+import { siteConfig } from './siteConfig';
 
 export function geocodeCity(
   city: string | undefined | null
@@ -8,3 +32,223 @@ export function geocodeCity(
   // Get coordinates from cities service
   return getCityCoordinates(city);
 }
+
+// ===== Geocoders =====
+
+/**
+ * A place found by a geocoder
+ */
+export interface GeocodedPlace {
+  lat: number;
+  lng: number;
+  /** Name as the geocoder spells it, e.g. "München" */
+  displayName: string;
+  /** State/province code, e.g. "TX" */
+  region?: string;
+  /** ISO 3166-1 alpha-2, upper case */
+  countryCode?: string;
+}
+
+/**
+ * Looks up coordinates for city names
+ */
+export interface Geocoder {
+  readonly name: string;
+  /**
+   * @returns The best match, or null if the geocoder knows no such place
+   * @throws GeocoderUnavailableError if the geocoder couldn't be asked
+   */
+  geocode(city: string): Promise<GeocodedPlace | null>;
+}
+
+/**
+ * Thrown when a geocoder can't answer right now (network error, HTTP error,
+ * unreadable response); asking again later may work
+ */
+export class GeocoderUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeocoderUnavailableError';
+  }
+}
+
+export interface NominatimOptions {
+  /** Server address (default https://nominatim.openstreetmap.org) */
+  baseUrl?: string;
+  /** Identifies the app, as the usage policy requires */
+  userAgent?: string;
+  /** Minimum time between requests (default 1000ms) */
+  minIntervalMs?: number;
+  /** Give up on a request after this long (default 10s) */
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+}
+
+const NominatimResponseSchema = z.array(
+  z.object({
+    lat: z.coerce.number().min(-90).max(90),
+    lon: z.coerce.number().min(-180).max(180),
+    name: z.string().optional(),
+    address: z
+      .object({
+        country_code: z.string().optional(),
+        // e.g. "US-TX"; missing for countries without subdivisions
+        'ISO3166-2-lvl4': z.string().optional(),
+      })
+      .optional(),
+  })
+);
+
+const round = (value: number) => Number(value.toFixed(4));
+
+/**
+ * Geocoder backed by a Nominatim server
+ * Requests are queued so they never overlap and start at least
+ * minIntervalMs apart, however many callers there are.
+ */
+export function createNominatimGeocoder({
+  baseUrl = 'https://nominatim.openstreetmap.org',
+  userAgent = `GlobalPresenceMap/1.0 (+${siteConfig.publicUrl})`,
+  minIntervalMs = 1000,
+  timeoutMs = 10_000,
+  fetch: fetchFn = fetch,
+}: NominatimOptions = {}): Geocoder {
+  let queue: Promise<unknown> = Promise.resolve();
+  let lastRequestAt = 0;
+
+  async function search(city: string): Promise<GeocodedPlace | null> {
+    const url = new URL('search', baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`);
+    url.search = new URLSearchParams({ q: city, format: 'jsonv2', limit: '1', addressdetails: '1' }).toString();
+
+    let body: unknown;
+    try {
+      const response = await fetchFn(url, {
+        headers: { 'User-Agent': userAgent, Accept: 'application/json' },
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!response.ok) {
+        throw new GeocoderUnavailableError(`Nominatim responded ${response.status} for "${city}"`);
+      }
+      body = await response.json();
+    } catch (error) {
+      if (error instanceof GeocoderUnavailableError) throw error;
+      throw new GeocoderUnavailableError(
+        `Nominatim request for "${city}" failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const parsed = NominatimResponseSchema.safeParse(body);
+    if (!parsed.success) {
+      throw new GeocoderUnavailableError(`Unexpected Nominatim response for "${city}"`);
+    }
+    const first = parsed.data[0];
+    if (!first) {
+      return null;
+    }
+    const region = first.address?.['ISO3166-2-lvl4']?.split('-')[1];
+    return {
+      lat: round(first.lat),
+      lng: round(first.lon),
+      displayName: first.name?.trim() ? first.name.trim() : city.split(',')[0]!.trim(),
+      ...(region ? { region } : {}),
+      ...(first.address?.country_code ? { countryCode: first.address.country_code.toUpperCase() } : {}),
+    };
+  }
+
+  return {
+    name: 'nominatim',
+    geocode(city) {
+      const request = queue.then(async () => {
+        const wait = lastRequestAt + minIntervalMs - Date.now();
+        if (wait > 0) {
+          await new Promise(resolve => setTimeout(resolve, wait));
+        }
+        lastRequestAt = Date.now();
+        return search(city);
+      });
+      queue = request.catch(() => undefined);
+      return request;
+    },
+  };
+}
+
+const FixturePlaceSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  displayName: z.string().min(1).optional(),
+  region: z.string().min(1).optional(),
+  countryCode: z.string().length(2).optional(),
+});
+
+export type GeocoderFixtures = Record<string, z.infer<typeof FixturePlaceSchema>>;
+
+/**
+ * Geocoder that answers from a fixed table
+ * Keys are city references ("Paris" or "Paris, TX, US"), case-insensitive.
+ */
+export function createFixtureGeocoder(fixtures: GeocoderFixtures): Geocoder {
+  const places = new Map(Object.entries(fixtures).map(([city, place]) => [normalizeCityName(city), place]));
+  return {
+    name: 'fixtures',
+    async geocode(city) {
+      const place = places.get(normalizeCityName(city));
+      return place ? { ...place, displayName: place.displayName ?? city.split(',')[0]!.trim() } : null;
+    },
+  };
+}
+
+/**
+ * Fixture geocoder reading its table from a JSON file
+ *
+ * @throws Error if the file is missing or not a fixtures table
+ */
+export function loadFixtureGeocoder(filePath: string): Geocoder {
+  const fixtures = z.record(FixturePlaceSchema).safeParse(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+  if (!fixtures.success) {
+    throw new Error(`Invalid geocoder fixtures in ${filePath}: ${fixtures.error.message}`);
+  }
+  return createFixtureGeocoder(fixtures.data);
+}
+
+// ===== Active Geocoder =====
+
+let activeGeocoder: Geocoder | null = null;
+
+/** The environment variables the geocoder is configured with */
+export type GeocoderEnv = Partial<Pick<typeof env, 'GEOCODER' | 'GEOCODER_FIXTURES' | 'NOMINATIM_URL'>>;
+
+/**
+ * Creates the geocoder configured in the (validated) environment
+ *
+ * @throws Error for fixtures without GEOCODER_FIXTURES
+ */
+export function createGeocoderFromEnv(settings: GeocoderEnv = env): Geocoder {
+  // Without validation (SKIP_ENV_VALIDATION) the default isn't applied
+  switch (settings.GEOCODER ?? 'nominatim') {
+    case 'nominatim':
+      return createNominatimGeocoder(settings.NOMINATIM_URL ? { baseUrl: settings.NOMINATIM_URL } : {});
+    case 'fixtures':
+      if (!settings.GEOCODER_FIXTURES) {
+        throw new Error('GEOCODER=fixtures needs GEOCODER_FIXTURES (path to a fixtures JSON file)');
+      }
+      return loadFixtureGeocoder(settings.GEOCODER_FIXTURES);
+    case 'none':
+      return { ...createFixtureGeocoder({}), name: 'none' };
+  }
+}
+
+/**
+ * Returns the active geocoder, creating it from the environment on first use
+ */
+export function getGeocoder(): Geocoder {
+  activeGeocoder ??= createGeocoderFromEnv();
+  return activeGeocoder;
+}
+
+/**
+ * Overrides the active geocoder (tests, scripts)
+ * Pass null to fall back to the environment configuration again
+ */
+export function setGeocoder(geocoder: Geocoder | null): void {
+  activeGeocoder = geocoder;
+}
@@ -0,0 +1,30 @@
+// src/lib/globeLabels.test.ts
+import { describe, it, expect } from 'vitest';
+import { countryTooltip, pointTooltip } from './globeLabels';
+
+describe('globeLabels', () => {
+  describe('pointTooltip', () => {
+    it('should show the member and their city', () => {
+      expect(pointTooltip({ memberName: 'Alice', cityName: 'Paris' })).toBe('Alice (Paris)');
+    });
+
+    it('should show only the city when names are hidden or missing', () => {
+      expect(pointTooltip({ memberName: 'Alice', cityName: 'Paris' }, true)).toBe('Paris');
+      expect(pointTooltip({ memberName: '', cityName: 'Paris' })).toBe('Paris');
+    });
+
+    it('should escape markup in names and cities', () => {
+      const label = pointTooltip({ memberName: '<img src=x onerror="alert(1)">', cityName: 'Paris <b>' });
+
+      expect(label).not.toContain('<');
+      expect(label).toBe('&lt;img src=x onerror=&quot;alert(1)&quot;&gt; (Paris &lt;b&gt;)');
+    });
+  });
+
+  describe('countryTooltip', () => {
+    it('should show the country and its count', () => {
+      expect(countryTooltip({ name: 'France', count: 1 })).toBe('France: 1 participant');
+      expect(countryTooltip({ name: 'Côte d\'Ivoire', count: 3 })).toBe('Côte d&#39;Ivoire: 3 participants');
+    });
+  });
+});
@@ -0,0 +1,25 @@
+// src/lib/globeLabels.ts
+/**
+ * Globe Tooltips
+ *
+ * globe.gl shows hover labels through innerHTML, and member and city names
+ * are user input (or pushed into an embed by its host page), so tooltips
+ * are built here with the text escaped. Used by MeetingGlobe and the HTML
+ * export.
+ */
+import { escapeHtml } from './escape';
+import type { CountryCount, VisualizationParticipant } from './visualization';
+
+/**
+ * Hover label for a participant: "Alice (Paris)", or just the city
+ */
+export function pointTooltip(point: Pick<VisualizationParticipant, 'memberName' | 'cityName'>, hideNames = false): string {
+  return escapeHtml(hideNames || !point.memberName ? point.cityName : `${point.memberName} (${point.cityName})`);
+}
+
+/**
+ * Hover label for a shaded country: "France: 2 participants"
+ */
+export function countryTooltip(country: Pick<CountryCount, 'name' | 'count'>): string {
+  return escapeHtml(`${country.name}: ${country.count} ${country.count === 1 ? 'participant' : 'participants'}`);
+}
@@ -0,0 +1,302 @@
+// src/lib/jsonStore.ts
+/**
+ * JSON File Storage Backend (default)
+ *
+ * Layout inside the data directory:
+ * - members.json            - { schemaVersion, members: [...] }
+ * - meetings/{meeting-id}.json - one file per meeting, with schemaVersion
+ * - cities.json             - { schemaVersion, cities: { [cityKey]: City } }
+ * - backups/                - copies of cities.json taken before edits (see backups.ts)
+ *
+ * Files must be at the current schema version (see migrations.ts); older
+ * ones are rejected until `npm run migrate` upgrades them.
+ *
+ * This is the original storage format of the app; files are human-readable
+ * and diff-friendly, which suits small communities tracked in git.
+ *
+ * All writes are atomic and members.json / cities.json are guarded by lock files, so
+ * concurrent submissions can't lose members or leave half-written JSON
+ * (see dataFile.ts).
+ */
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { getBackupDir, writeBackup } from './backups';
+import { getCityKey } from './cities';
+import { CorruptDataError, readJsonFile, withFileLock, writeJsonFileAtomic } from './dataFile';
+import { assertSchemaVersion, SCHEMA_VERSIONS, SchemaVersionError } from './schemaVersion';
+import { CitySchema, MemberSchema, validateMeeting, type City, type Meeting, type Member } from './validation';
+import type { CityStore, MeetingStore, MemberStore, Stores } from './store';
+
+// ===== Member Registry =====
+
+/**
+ * Creates a member store backed by a single members.json file
+ *
+ * @param membersFilePath - Absolute path to members.json
+ */
+export function createJsonMemberStore(membersFilePath: string): MemberStore {
+  const withLock = <T>(fn: () => T): T => withFileLock(membersFilePath, fn);
+
+  /**
+   * Load all members from members.json
+   * A missing file means an empty registry; an unreadable one is an error
+   *
+   * @throws SchemaVersionError if the file needs migrating
+   * @throws CorruptDataError if the file isn't valid JSON or has invalid members
+   */
+  function readAll(): Member[] {
+    const data = readJsonFile(membersFilePath);
+    if (data === undefined) {
+      return [];
+    }
+    assertSchemaVersion('members', membersFilePath, data);
+
+    const result = MemberSchema.array().safeParse((data as { members?: unknown }).members);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new CorruptDataError(membersFilePath, `invalid members at ${issue?.path.join('.') ?? '?'}: ${issue?.message}`);
+    }
+    return result.data;
+  }
+
+  /**
+   * Writes formatted JSON with 2-space indentation for readability
+   */
+  function writeAll(members: Member[]): void {
+    withLock(() => writeJsonFileAtomic(membersFilePath, { schemaVersion: SCHEMA_VERSIONS.members, members }));
+  }
+
+  return {
+    list: readAll,
+    get(id) {
+      return readAll().find(m => m.id === id) ?? null;
+    },
+    insert(member) {
+      withLock(() => {
+        const members = readAll();
+        members.push(member);
+        writeAll(members);
+      });
+    },
+    replaceAll: writeAll,
+    transaction: withLock,
+  };
+}
+
+// ===== Meeting Files =====
+
+/**
+ * Meeting IDs become file names, so only allow characters generateMeetingId
+ * can produce. Anything else (e.g. "../members" from a URL) never reaches fs.
+ */
+const SAFE_MEETING_ID = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+/**
+ * Creates a meeting store with one JSON file per meeting
+ *
+ * @param meetingsDir - Absolute path to the meetings directory
+ */
+export function createJsonMeetingStore(meetingsDir: string): MeetingStore {
+  const filePathFor = (meetingId: string) => {
+    if (!SAFE_MEETING_ID.test(meetingId)) {
+      throw new Error(`Invalid meeting ID "${meetingId}"`);
+    }
+    return path.join(meetingsDir, `${meetingId}.json`);
+  };
+
+  /**
+   * Ensures the meetings directory exists
+   * Creates it if missing (including parent directories)
+   */
+  function ensureMeetingsDir() {
+    if (!fs.existsSync(meetingsDir)) {
+      fs.mkdirSync(meetingsDir, { recursive: true });
+    }
+  }
+
+  /**
+   * Reads and validates one meeting file
+   * @throws SchemaVersionError, SyntaxError or ZodError describing the problem
+   */
+  function readMeetingFile(filePath: string): Meeting {
+    const data: unknown = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    assertSchemaVersion('meetings', filePath, data);
+    return validateMeeting(data);
+  }
+
+  function get(meetingId: string): Meeting | null {
+    if (!SAFE_MEETING_ID.test(meetingId)) {
+      return null;
+    }
+    const filePath = filePathFor(meetingId);
+
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+
+    try {
+      return readMeetingFile(filePath);
+    } catch (error) {
+      // An outdated file isn't a broken meeting - report it instead of hiding it
+      if (error instanceof SchemaVersionError) throw error;
+      console.error(`Error loading meeting ${meetingId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Meeting IDs of every *.json file in the meetings directory
+   */
+  function fileIds(): string[] {
+    ensureMeetingsDir();
+    return fs
+      .readdirSync(meetingsDir)
+      .filter(f => f.endsWith('.json'))
+      .map(f => f.replace(/\.json$/, ''));
+  }
+
+  /**
+   * Meeting as written to disk, tagged with the schema version
+   */
+  const toFile = (meeting: Meeting) => ({ schemaVersion: SCHEMA_VERSIONS.meetings, ...meeting });
+
+  return {
+    list() {
+      return fileIds()
+        .map(get)
+        .filter((m): m is Meeting => m !== null);
+    },
+    get,
+    save(meeting) {
+      ensureMeetingsDir();
+      writeJsonFileAtomic(filePathFor(meeting.id), toFile(meeting));
+    },
+    insert(meeting) {
+      const filePath = filePathFor(meeting.id);
+      // Lock so two creators can't both see the ID as free
+      return withFileLock(filePath, () => {
+        if (fs.existsSync(filePath)) return false;
+        ensureMeetingsDir();
+        writeJsonFileAtomic(filePath, toFile(meeting));
+        return true;
+      });
+    },
+    delete(meetingId) {
+      if (!SAFE_MEETING_ID.test(meetingId)) {
+        return false;
+      }
+      const filePath = filePathFor(meetingId);
+
+      if (!fs.existsSync(filePath)) {
+        return false;
+      }
+
+      fs.unlinkSync(filePath);
+      return true;
+    },
+    listInvalid() {
+      return fileIds().flatMap(meetingId => {
+        if (!SAFE_MEETING_ID.test(meetingId)) {
+          return [{ id: meetingId, reason: 'File name is not a valid meeting ID' }];
+        }
+        try {
+          readMeetingFile(filePathFor(meetingId));
+          return [];
+        } catch (error) {
+          return [{ id: meetingId, reason: error instanceof Error ? error.message : String(error) }];
+        }
+      });
+    },
+    transaction(meetingId, fn) {
+      // No file can have an unsafe ID, so there's nothing to guard
+      if (!SAFE_MEETING_ID.test(meetingId)) return fn();
+      ensureMeetingsDir();
+      return withFileLock(filePathFor(meetingId), fn);
+    },
+  };
+}
+
+// ===== City Table =====
+
+/** How often watch() checks cities.json for changes */
+const WATCH_INTERVAL_MS = 1000;
+
+/**
+ * Creates a city store backed by a cities.json file
+ * In the default data directory that is the bundled src/data/cities.json,
+ * so cities added at runtime end up next to the curated ones.
+ *
+ * @param citiesFilePath - Absolute path to cities.json
+ */
+export function createJsonCityStore(citiesFilePath: string): CityStore {
+  /**
+   * @throws SchemaVersionError if the file needs migrating
+   * @throws CorruptDataError if the file isn't valid JSON or has invalid cities
+   */
+  function readAll(): Record<string, City> {
+    const data = readJsonFile(citiesFilePath);
+    if (data === undefined) {
+      return {};
+    }
+    assertSchemaVersion('cities', citiesFilePath, data);
+
+    const result = z.record(CitySchema).safeParse((data as { cities?: unknown }).cities);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new CorruptDataError(citiesFilePath, `invalid cities at ${issue?.path.join('.') ?? '?'}: ${issue?.message}`);
+    }
+    return result.data;
+  }
+
+  function writeAll(cities: Record<string, City>): void {
+    // Sorted by key, like `npm run fill-cities` writes it
+    const sorted = Object.fromEntries(Object.entries(cities).sort(([a], [b]) => a.localeCompare(b)));
+    writeJsonFileAtomic(citiesFilePath, { schemaVersion: SCHEMA_VERSIONS.cities, cities: sorted });
+  }
+
+  return {
+    list() {
+      return Object.values(readAll());
+    },
+    upsert(city) {
+      withFileLock(citiesFilePath, () => {
+        writeAll({ ...readAll(), [getCityKey(city)]: city });
+      });
+    },
+    delete(key) {
+      return withFileLock(citiesFilePath, () => {
+        const cities = readAll();
+        if (!(key in cities)) return false;
+        delete cities[key];
+        writeAll(cities);
+        return true;
+      });
+    },
+    backup() {
+      if (!fs.existsSync(citiesFilePath)) return null;
+      return writeBackup(getBackupDir(citiesFilePath), path.basename(citiesFilePath), fs.readFileSync(citiesFilePath));
+    },
+    watch(onChange) {
+      // Polls the file's stats, which (unlike fs.watch) survives the renames atomic writes do
+      const listener = (current: fs.Stats, previous: fs.Stats) => {
+        if (current.mtimeMs !== previous.mtimeMs || current.ino !== previous.ino) onChange();
+      };
+      fs.watchFile(citiesFilePath, { persistent: false, interval: WATCH_INTERVAL_MS }, listener);
+      return () => fs.unwatchFile(citiesFilePath, listener);
+    },
+  };
+}
+
+/**
+ * Creates the JSON stores rooted at a data directory
+ *
+ * @param dataDir - Directory containing members.json, meetings/ and cities.json
+ */
+export function createJsonStores(dataDir: string): Stores {
+  return {
+    members: createJsonMemberStore(path.join(dataDir, 'members.json')),
+    meetings: createJsonMeetingStore(path.join(dataDir, 'meetings')),
+    cities: createJsonCityStore(path.join(dataDir, 'cities.json')),
+  };
+}
@@ -0,0 +1,114 @@
+// src/lib/mapRenderer.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { renderMapSvg, renderMeetingMap } from './mapRenderer';
+import { interpolateGreatCircle } from './geo';
+import { saveMeeting } from './meetings';
+import { saveMembers } from './members';
+import { setStores } from './store';
+import { createJsonStores } from './jsonStore';
+import type { MeetingVisualization } from './visualization';
+
+const visualization = (points: MeetingVisualization['points']): MeetingVisualization => ({
+  meeting: { id: 'call-2026-03-01', title: 'Call <1>', date: '2026-03-01' },
+  points,
+  arcs: points.slice(1).map(point => ({
+    startLat: points[0]!.lat,
+    startLng: points[0]!.lng,
+    endLat: point.lat,
+    endLng: point.lng,
+  })),
+  unplaced: [],
+  unknownCities: [],
+  countries: [],
+  continents: [],
+});
+
+const paris = { memberId: 'alice', memberName: 'Alice', cityName: 'Paris', lat: 48.85, lng: 2.35 };
+const tokyo = { memberId: 'bob', memberName: 'Bob', cityName: 'Tokyo', lat: 35.68, lng: 139.69 };
+const honolulu = { memberId: 'carol', memberName: 'Carol', cityName: 'Honolulu', lat: 21.31, lng: -157.86 };
+
+describe('mapRenderer', () => {
+  describe('interpolateGreatCircle', () => {
+    it('should run from start to end along the great circle', () => {
+      const line = interpolateGreatCircle({ lat: 0, lng: 0 }, { lat: 0, lng: 90 }, 2);
+
+      expect(line).toHaveLength(3);
+      expect(line[1]!.lat).toBeCloseTo(0);
+      expect(line[1]!.lng).toBeCloseTo(45);
+      expect(line[2]!.lng).toBeCloseTo(90);
+    });
+
+    it('should bend toward the pole between distant northern cities', () => {
+      const line = interpolateGreatCircle(paris, tokyo);
+
+      expect(Math.max(...line.map(point => point.lat))).toBeGreaterThan(65);
+    });
+  });
+
+  describe('renderMapSvg', () => {
+    it('should draw land, arcs, points and an escaped title', () => {
+      const svg = renderMapSvg(visualization([paris, tokyo]));
+
+      expect(svg).toContain('width="1200" height="600"');
+      expect(svg.match(/<circle /g)).toHaveLength(2);
+      expect(svg).toContain('<title>Alice (Paris)</title>');
+      expect(svg).toContain('Call &lt;1&gt; — 2026-03-01</text>');
+      expect(svg).toMatch(/<path d="M[^"]{1000,}" fill="#2e4a3b"/);
+    });
+
+    it('should place points on the equirectangular grid', () => {
+      const svg = renderMapSvg(visualization([{ ...paris, lat: 0, lng: 0 }]), { width: 800, height: 400 });
+
+      expect(svg).toContain('<circle cx="400" cy="200"');
+    });
+
+    it('should split arcs that cross the date line', () => {
+      const svg = renderMapSvg(visualization([tokyo, honolulu]));
+      const arcGroup = /<g fill="none"[^>]*>([\s\S]*?)<\/g>/.exec(svg)![1]!;
+
+      expect(arcGroup.match(/<path /g)).toHaveLength(2);
+    });
+
+    it('should hide points on the far side of the orthographic globe', () => {
+      const svg = renderMapSvg(visualization([paris, { ...paris, memberId: 'dan', lat: -48.85, lng: -177.65 }]), {
+        projection: 'orthographic',
+      });
+
+      expect(svg.match(/<circle /g)).toHaveLength(1);
+    });
+
+    it('should leave out the title when asked', () => {
+      expect(renderMapSvg(visualization([paris]), { showTitle: false })).not.toContain('<text');
+    });
+  });
+
+  describe('renderMeetingMap', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpm-map-'));
+      setStores(createJsonStores(tmpDir));
+      saveMembers([{ id: 'alice', name: 'Alice', city: 'Paris', createdAt: '2026-01-10T00:00:00.000Z' }]);
+      saveMeeting({ id: 'call-2026-03-01', title: 'Call', date: '2026-03-01', participantIds: ['alice'] });
+    });
+
+    afterEach(() => {
+      setStores(null);
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should rasterize to PNG', async () => {
+      const image = await renderMeetingMap('call-2026-03-01', 'png', { width: 400, height: 200 });
+
+      expect(image).toMatchObject({ filename: 'Call-2026-03-01.png', contentType: 'image/png' });
+      expect((image!.body as Buffer).subarray(1, 4).toString()).toBe('PNG');
+    });
+
+    it('should return null for an unknown meeting', async () => {
+      expect(await renderMeetingMap('missing', 'svg')).toBeNull();
+    });
+  });
+});
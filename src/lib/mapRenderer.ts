@@ -0,0 +1,339 @@
+// src/lib/mapRenderer.ts
+/**
+ * Static Map Images
+ *
+ * Draws a meeting on a flat map - land, great-circle arcs between
+ * participants, participant points and a title - as SVG, and rasterizes it
+ * to PNG. Unlike the globe this needs no WebGL, so images can be made on the
+ * server for newsletters, slides and social posts.
+ *
+ * - Points and arcs come from visualization.ts (same as the globe)
+ * - Land comes from the bundled Natural Earth outlines (worldMap.ts), so
+ *   rendering works offline
+ * - Projections: equirectangular (whole world) or orthographic (a globe-like
+ *   view centered on the participants)
+ *
+ * Used by GET /api/meetings/{id}/export?format=svg|png and
+ * `npm run export-globe -- <id> --format svg|png`.
+ */
+import sharp from 'sharp';
+import { escapeXml } from './escape';
+import { exportFilename } from './exportRenderer';
+import { interpolateGreatCircle } from './geo';
+import { siteConfig } from './siteConfig';
+import { getMeetingVisualization, type MeetingVisualization } from './visualization';
+import { getCountries, type Ring } from './worldMap';
+
+export type MapProjection = 'equirectangular' | 'orthographic';
+
+export type MapImageFormat = 'svg' | 'png';
+
+/**
+ * Options for renderMapSvg / renderMeetingMap
+ */
+export interface MapOptions {
+  /** Default 'equirectangular' */
+  projection?: MapProjection;
+  /** Image size in pixels (default 1200x600); the map is fitted inside */
+  width?: number;
+  height?: number;
+  /** Show the "Title — date" overlay (default true) */
+  showTitle?: boolean;
+}
+
+/**
+ * A rendered map image, ready to write or serve
+ */
+export interface MapImage {
+  meetingId: string;
+  filename: string;
+  contentType: string;
+  body: string | Buffer;
+  unknownCities: string[];
+}
+
+/** Page color around the map */
+export const MAP_BACKGROUND = '#0b1020';
+
+const COLORS = {
+  background: MAP_BACKGROUND,
+  ocean: '#13233f',
+  land: '#2e4a3b',
+  border: '#1f3328',
+  arc: siteConfig.colors.arcStart,
+  point: siteConfig.colors.point,
+  pointStroke: '#ffffff',
+  title: '#ffffff',
+};
+
+const CONTENT_TYPES: Record<MapImageFormat, string> = {
+  svg: 'image/svg+xml',
+  png: 'image/png',
+};
+
+// ===== Projections =====
+
+type ScreenPoint = [number, number];
+
+/**
+ * Maps lat/lng onto the image
+ * `project` returns null for points on the far side of an orthographic globe.
+ */
+interface Projector {
+  project: (lat: number, lng: number) => ScreenPoint | null;
+  /** SVG path of the map's outline (the ocean) */
+  outline: string;
+  /** SVG path data for one land ring */
+  ringPath: (ring: Ring) => string;
+}
+
+const round = (n: number) => Math.round(n * 10) / 10;
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const pathFrom = (points: ScreenPoint[], close: boolean) =>
+  points.length < 2 ? '' : `M${points.map(([x, y]) => `${round(x)},${round(y)}`).join('L')}${close ? 'Z' : ''}`;
+
+function equirectangular(width: number, height: number): Projector {
+  // Largest 2:1 rectangle that fits, centered
+  const mapWidth = Math.min(width, height * 2);
+  const mapHeight = mapWidth / 2;
+  const left = (width - mapWidth) / 2;
+  const top = (height - mapHeight) / 2;
+
+  const project = (lat: number, lng: number): ScreenPoint => [
+    left + ((lng + 180) / 360) * mapWidth,
+    top + ((90 - lat) / 180) * mapHeight,
+  ];
+
+  return {
+    project,
+    outline: `M${round(left)},${round(top)}h${round(mapWidth)}v${round(mapHeight)}h${-round(mapWidth)}Z`,
+    ringPath: ring => pathFrom(ring.map(([lng, lat]) => project(lat, lng)), true),
+  };
+}
+
+/** View-space position: x/y on the disk, z > 0 on the visible hemisphere */
+type ViewPoint = [number, number, number];
+
+function orthographic(width: number, height: number, center: { lat: number; lng: number }): Projector {
+  const radius = (Math.min(width, height) / 2) * 0.92;
+  const [cx, cy] = [width / 2, height / 2];
+  const phi0 = toRadians(center.lat);
+  const lambda0 = toRadians(center.lng);
+
+  const toView = (lat: number, lng: number): ViewPoint => {
+    const phi = toRadians(lat);
+    const dLambda = toRadians(lng) - lambda0;
+    return [
+      Math.cos(phi) * Math.sin(dLambda),
+      Math.cos(phi0) * Math.sin(phi) - Math.sin(phi0) * Math.cos(phi) * Math.cos(dLambda),
+      Math.sin(phi0) * Math.sin(phi) + Math.cos(phi0) * Math.cos(phi) * Math.cos(dLambda),
+    ];
+  };
+  const toScreen = ([x, y]: ViewPoint | [number, number]): ScreenPoint => [cx + radius * x, cy - radius * y];
+
+  /**
+   * Clips a ring to the visible hemisphere (Sutherland-Hodgman against z = 0).
+   * Where the ring leaves and re-enters view, the gap is closed along the
+   * globe's edge by the shorter way round.
+   */
+  const ringPath = (ring: Ring): string => {
+    const view = ring.map(([lng, lat]) => toView(lat, lng));
+    const clipped: Array<{ point: ViewPoint; onEdge: boolean }> = [];
+
+    for (let i = 0; i < view.length; i++) {
+      const from = view[i]!;
+      const to = view[(i + 1) % view.length]!;
+      const fromVisible = from[2] >= 0;
+      const toVisible = to[2] >= 0;
+
+      if (fromVisible !== toVisible) {
+        const t = from[2] / (from[2] - to[2]);
+        const x = from[0] + t * (to[0] - from[0]);
+        const y = from[1] + t * (to[1] - from[1]);
+        const length = Math.hypot(x, y) || 1;
+        clipped.push({ point: [x / length, y / length, 0], onEdge: true });
+      }
+      if (toVisible) {
+        clipped.push({ point: to, onEdge: false });
+      }
+    }
+    if (clipped.length < 3) {
+      return '';
+    }
+
+    const screen: ScreenPoint[] = [];
+    clipped.forEach((current, i) => {
+      screen.push(toScreen(current.point));
+      const next = clipped[(i + 1) % clipped.length]!;
+      if (!current.onEdge || !next.onEdge) {
+        return;
+      }
+      // Exit followed by re-entry: follow the edge of the disk
+      const start = Math.atan2(current.point[1], current.point[0]);
+      let delta = Math.atan2(next.point[1], next.point[0]) - start;
+      if (delta > Math.PI) delta -= 2 * Math.PI;
+      if (delta < -Math.PI) delta += 2 * Math.PI;
+      const steps = Math.ceil(Math.abs(delta) / toRadians(5));
+      for (let step = 1; step < steps; step++) {
+        const angle = start + (delta * step) / steps;
+        screen.push(toScreen([Math.cos(angle), Math.sin(angle)]));
+      }
+    });
+    return pathFrom(screen, true);
+  };
+
+  return {
+    project: (lat, lng) => {
+      const view = toView(lat, lng);
+      return view[2] >= 0 ? toScreen(view) : null;
+    },
+    outline: `M${round(cx - radius)},${round(cy)}a${round(radius)},${round(radius)} 0 1,0 ${round(radius * 2)},0a${round(radius)},${round(radius)} 0 1,0 ${-round(radius * 2)},0Z`,
+    ringPath,
+  };
+}
+
+/**
+ * Center for the orthographic view: the mean direction of all points
+ */
+function viewCenter(visualization: MeetingVisualization): { lat: number; lng: number } {
+  if (visualization.points.length === 0) {
+    return { lat: 20, lng: 0 };
+  }
+
+  let [x, y, z] = [0, 0, 0];
+  for (const point of visualization.points) {
+    const [phi, lambda] = [toRadians(point.lat), toRadians(point.lng)];
+    x += Math.cos(phi) * Math.cos(lambda);
+    y += Math.cos(phi) * Math.sin(lambda);
+    z += Math.sin(phi);
+  }
+  return {
+    lat: (Math.atan2(z, Math.hypot(x, y)) * 180) / Math.PI,
+    lng: (Math.atan2(y, x) * 180) / Math.PI,
+  };
+}
+
+/**
+ * Splits a projected line into visible pieces, also breaking it where it
+ * wraps around the edge of an equirectangular map
+ */
+function lineSegments(points: Array<ScreenPoint | null>, wrapWidth: number): ScreenPoint[][] {
+  const segments: ScreenPoint[][] = [[]];
+  for (const point of points) {
+    const current = segments[segments.length - 1]!;
+    const previous = current[current.length - 1];
+    if (!point || (previous && Math.abs(point[0] - previous[0]) > wrapWidth / 2)) {
+      segments.push(point ? [point] : []);
+      continue;
+    }
+    current.push(point);
+  }
+  return segments.filter(segment => segment.length > 1);
+}
+
+// ===== Rendering =====
+
+/**
+ * The map itself - ocean, land, arcs and points - as SVG elements
+ * (no <svg> wrapper or title), for composing into other images
+ */
+export function renderMapLayers(
+  visualization: MeetingVisualization,
+  { projection = 'equirectangular', width = 1200, height = 600 }: Omit<MapOptions, 'showTitle'> = {}
+): string {
+  const projector =
+    projection === 'orthographic'
+      ? orthographic(width, height, viewCenter(visualization))
+      : equirectangular(width, height);
+
+  const land = getCountries()
+    .flatMap(country => country.polygons.flatMap(polygon => polygon.map(projector.ringPath)))
+    .filter(Boolean)
+    .join('');
+
+  const arcs = visualization.arcs.flatMap(arc => {
+    const line = interpolateGreatCircle(
+      { lat: arc.startLat, lng: arc.startLng },
+      { lat: arc.endLat, lng: arc.endLng }
+    ).map(point => projector.project(point.lat, point.lng));
+    return lineSegments(line, width).map(segment => pathFrom(segment, false));
+  });
+
+  const dotRadius = Math.max(3, Math.round(Math.min(width, height) / 150));
+  const dots = visualization.points.flatMap(point => {
+    const position = projector.project(point.lat, point.lng);
+    if (!position) {
+      return [];
+    }
+    const label = escapeXml(`${point.memberName} (${point.cityName})`);
+    return [`<circle cx="${round(position[0])}" cy="${round(position[1])}" r="${dotRadius}"><title>${label}</title></circle>`];
+  });
+
+  return `<path d="${projector.outline}" fill="${COLORS.ocean}"/>
+  <path d="${land}" fill="${COLORS.land}" stroke="${COLORS.border}" stroke-width="0.5" fill-rule="evenodd"/>
+  <g fill="none" stroke="${COLORS.arc}" stroke-width="1.5" stroke-opacity="0.8" stroke-linecap="round">
+    ${arcs.map(d => `<path d="${d}"/>`).join('\n    ')}
+  </g>
+  <g fill="${COLORS.point}" stroke="${COLORS.pointStroke}" stroke-width="1">
+    ${dots.join('\n    ')}
+  </g>`;
+}
+
+/**
+ * Draws a meeting's visualization data as an SVG map
+ */
+export function renderMapSvg(visualization: MeetingVisualization, options: MapOptions = {}): string {
+  const { width = 1200, height = 600, showTitle = true } = options;
+
+  const fontSize = Math.max(12, Math.round(Math.min(width, height) / 28));
+  const heading = escapeXml(`${visualization.meeting.title} — ${visualization.meeting.date}`);
+  const title = showTitle
+    ? `<text x="${fontSize}" y="${fontSize * 1.6}" font-family="sans-serif" font-weight="bold" font-size="${fontSize}" fill="${COLORS.title}" paint-order="stroke" stroke="${COLORS.background}" stroke-width="${Math.round(fontSize / 4)}">${heading}</text>`
+    : '';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <title>${heading}</title>
+  <rect width="100%" height="100%" fill="${MAP_BACKGROUND}"/>
+  ${renderMapLayers(visualization, { ...options, width, height })}
+  ${title}
+</svg>
+`;
+}
+
+/**
+ * Rasterizes an SVG map to PNG
+ *
+ * @param palette - Quantize to 256 colors (about 2.5x smaller; fine for flat artwork)
+ */
+export async function svgToPng(svg: string, { palette = false }: { palette?: boolean } = {}): Promise<Buffer> {
+  return sharp(Buffer.from(svg)).png({ palette }).toBuffer();
+}
+
+/**
+ * Renders a stored meeting as a map image
+ *
+ * @param meetingId - Meeting ID
+ * @param format - 'svg' or 'png'
+ * @param options - Map options
+ * @returns The image, or null if the meeting doesn't exist
+ */
+export async function renderMeetingMap(
+  meetingId: string,
+  format: MapImageFormat,
+  options: MapOptions = {}
+): Promise<MapImage | null> {
+  const visualization = getMeetingVisualization(meetingId);
+  if (!visualization) {
+    return null;
+  }
+
+  const svg = renderMapSvg(visualization, options);
+  return {
+    meetingId: visualization.meeting.id,
+    filename: exportFilename(visualization.meeting, format),
+    contentType: CONTENT_TYPES[format],
+    body: format === 'png' ? await svgToPng(svg) : svg,
+    unknownCities: visualization.unknownCities,
+  };
+}
@@ -1,7 +1,22 @@
 // src/lib/meetings.test.ts
-import { describe, it, expect, afterEach } from 'vitest';
-import { createMeeting, loadMeeting, listMeetings, deleteMeeting } from './meetings';
+import { describe, it, expect, afterEach, beforeEach } from 'vitest';
+import {
+  createMeeting,
+  loadMeeting,
+  listMeetings,
+  deleteMeeting,
+  generateMeetingId,
+  queryMeetings,
+  saveMeeting,
+  updateMeeting,
+  getAttendanceByMember,
+  removeParticipantFromMeetings,
+} from './meetings';
+import { setStores } from './store';
+import { createJsonStores } from './jsonStore';
+import { validateListMeetingsQuery } from './validation';
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
 
 describe('meetings', () => {
@@ -42,6 +57,35 @@ describe('meetings', () => {
       
       expect(meeting.id).toContain(today);
     });
+
+    it('should not overwrite a same-day meeting with the same title', () => {
+      const first = createMeeting('Test Collision', ['member-1']);
+      const second = createMeeting('Test Collision', ['member-2']);
+      const third = createMeeting('Test Collision', ['member-3']);
+
+      expect(second.id).toBe(`${first.id}-2`);
+      expect(third.id).toBe(`${first.id}-3`);
+      expect(loadMeeting(first.id)?.participantIds).toEqual(['member-1']);
+      expect(loadMeeting(second.id)?.participantIds).toEqual(['member-2']);
+      expect(loadMeeting(third.id)?.participantIds).toEqual(['member-3']);
+    });
+
+    it('should keep the unsuffixed ID for the first meeting of the day', () => {
+      const today = new Date().toISOString().split('T')[0];
+      const meeting = createMeeting('Test First', ['member-1']);
+
+      expect(meeting.id).toBe(`test-first-${today}`);
+    });
+  });
+
+  describe('generateMeetingId', () => {
+    it('should build {slug}-{date}', () => {
+      expect(generateMeetingId('Team Standup!', '2026-01-10')).toBe('team-standup-2026-01-10');
+    });
+
+    it('should fall back to "meeting" for titles without letters or digits', () => {
+      expect(generateMeetingId('???', '2026-01-10')).toBe('meeting-2026-01-10');
+    });
   });
 
   describe('loadMeeting', () => {
@@ -110,4 +154,99 @@ describe('meetings', () => {
       expect(deleted).toBe(false);
     });
   });
+
+  describe('with an isolated store', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpm-meetings-'));
+      setStores(createJsonStores(tmpDir));
+
+      saveMeeting({ id: 'standup-2026-01-05', title: 'Team Standup', date: '2026-01-05', participantIds: ['a'] });
+      saveMeeting({ id: 'retro-2026-01-10', title: 'Sprint Retro', date: '2026-01-10', participantIds: ['a', 'b'] });
+      saveMeeting({ id: 'standup-2026-01-12', title: 'Team Standup', date: '2026-01-12', participantIds: ['b'] });
+    });
+
+    afterEach(() => {
+      setStores(null);
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    describe('queryMeetings', () => {
+      const query = (params: Record<string, string>) => queryMeetings(validateListMeetingsQuery(params));
+
+      it('should return everything on one page by default', () => {
+        const result = query({});
+
+        expect(result.total).toBe(3);
+        expect(result.page).toBe(1);
+        expect(result.meetings.map(m => m.id)).toEqual([
+          'standup-2026-01-12',
+          'retro-2026-01-10',
+          'standup-2026-01-05',
+        ]);
+      });
+
+      it('should filter by inclusive date range', () => {
+        const result = query({ from: '2026-01-05', to: '2026-01-10' });
+
+        expect(result.meetings.map(m => m.id)).toEqual(['retro-2026-01-10', 'standup-2026-01-05']);
+      });
+
+      it('should search titles case-insensitively', () => {
+        const result = query({ q: 'STANDUP' });
+
+        expect(result.total).toBe(2);
+      });
+
+      it('should paginate', () => {
+        const result = query({ page: '2', pageSize: '2' });
+
+        expect(result.total).toBe(3);
+        expect(result.meetings.map(m => m.id)).toEqual(['standup-2026-01-05']);
+      });
+    });
+
+    describe('updateMeeting', () => {
+      it('should rename and re-date without changing the ID', () => {
+        const updated = updateMeeting('retro-2026-01-10', { title: 'Sprint Retrospective', date: '2026-01-11' });
+
+        expect(updated?.id).toBe('retro-2026-01-10');
+        expect(loadMeeting('retro-2026-01-10')?.title).toBe('Sprint Retrospective');
+        expect(loadMeeting('retro-2026-01-10')?.date).toBe('2026-01-11');
+      });
+
+      it('should add participants without duplicates and remove others', () => {
+        const updated = updateMeeting('retro-2026-01-10', {
+          addParticipantIds: ['b', 'c'],
+          removeParticipantIds: ['a'],
+        });
+
+        expect(updated?.participantIds).toEqual(['b', 'c']);
+      });
+
+      it('should return null for a missing meeting', () => {
+        expect(updateMeeting('missing', { title: 'x' })).toBeNull();
+      });
+    });
+
+    describe('getAttendanceByMember', () => {
+      it('should count meetings and track the latest date', () => {
+        const attendance = getAttendanceByMember();
+
+        expect(attendance.get('a')).toEqual({ count: 2, lastSeen: '2026-01-10' });
+        expect(attendance.get('b')).toEqual({ count: 2, lastSeen: '2026-01-12' });
+        expect(attendance.has('c')).toBe(false);
+      });
+    });
+
+    describe('removeParticipantFromMeetings', () => {
+      it('should remove the member everywhere', () => {
+        expect(removeParticipantFromMeetings('a')).toBe(2);
+
+        expect(loadMeeting('standup-2026-01-05')?.participantIds).toEqual([]);
+        expect(loadMeeting('retro-2026-01-10')?.participantIds).toEqual(['b']);
+      });
+    });
+  });
 });
@@ -8,104 +8,93 @@
  * 
  * Data Model:
  * - Each meeting has a unique ID generated from title + date
+ *   (same-day meetings with the same title get a numeric suffix)
  * - Meetings store only participant IDs (foreign keys to members.json)
- * - One meeting file per session: src/data/meetings/{meeting-id}.json
+ * - Persisted through the configured MeetingStore (see store.ts); the default
+ *   JSON backend keeps one file per session: src/data/meetings/{meeting-id}.json
  * 
  * Key Design:
  * - Separation of concerns: meetings track "who attended when"
  * - Member details are resolved at render time
  * - Lightweight storage (IDs only, not full participant objects)
  */
-import fs from 'fs';
-import path from 'path';
-import { validateMeeting, type Meeting } from './validation';
-
-const meetingsDir = path.join(process.cwd(), 'src', 'data', 'meetings');
-
-// ===== Directory Management =====
-
-/**
- * Ensures the meetings directory exists
- * Creates it if missing (including parent directories)
- * Called automatically before any file operations
- */
-function ensureMeetingsDir() {
-  if (!fs.existsSync(meetingsDir)) {
-    fs.mkdirSync(meetingsDir, { recursive: true });
-  }
-}
+import { getMeetingStore } from './store';
+import { type ListMeetingsQuery, type Meeting } from './validation';
 
 // ===== ID Generation =====
 
 /**
- * Generates a unique, URL-friendly meeting ID
+ * Generates the base URL-friendly meeting ID
  * 
  * Format: {slug}-{date}
  * Example: "team-standup-2026-01-10"
+ * Titles without any letters or digits fall back to "meeting"
  * 
  * @param title - Meeting title (will be slugified)
  * @param date - ISO date string (YYYY-MM-DD)
  * @returns Meeting ID suitable for filename and URLs
  */
-function generateMeetingId(title: string, date: string): string {
+export function generateMeetingId(title: string, date: string): string {
   const slug = title
     .toLowerCase()
     .replace(/[^a-z0-9]+/g, '-')
     .replace(/^-+|-+$/g, '');
-  return `${slug}-${date}`;
+  return `${slug || 'meeting'}-${date}`;
+}
+
+/**
+ * Candidate IDs for a meeting, in the order they are tried
+ * 
+ * The first candidate is the plain base ID, so meetings that don't collide
+ * (and every meeting created before suffixes existed) keep the classic format.
+ * Example: "standup-2026-01-10", "standup-2026-01-10-2", "standup-2026-01-10-3", ...
+ * 
+ * @param baseId - ID from generateMeetingId
+ * @param attempt - 1-based attempt number
+ */
+function meetingIdCandidate(baseId: string, attempt: number): string {
+  return attempt === 1 ? baseId : `${baseId}-${attempt}`;
 }
 
-// ===== File I/O Operations =====
+const MAX_ID_ATTEMPTS = 1000;
+
+// ===== Persistence =====
 
 /**
- * Saves a meeting to disk as JSON
- * Creates the meetings directory if it doesn't exist
+ * Saves a meeting through the configured store
  * 
  * @param meeting - Meeting object to persist
  */
 export function saveMeeting(meeting: Meeting): void {
-  ensureMeetingsDir();
-  const filePath = path.join(meetingsDir, `${meeting.id}.json`);
-  fs.writeFileSync(filePath, JSON.stringify(meeting, null, 2), 'utf8');
+  getMeetingStore().save(meeting);
 }
 
 /**
- * Loads a meeting from disk by ID
- * Validates the loaded data against the Meeting schema
+ * Loads a meeting by ID
+ * The store validates the loaded data against the Meeting schema
  * 
  * @param meetingId - Unique meeting identifier
  * @returns Meeting object if found and valid, null otherwise
  */
 export function loadMeeting(meetingId: string): Meeting | null {
-  const filePath = path.join(meetingsDir, `${meetingId}.json`);
-  
-  if (!fs.existsSync(filePath)) {
-    return null;
-  }
-
-  try {
-    const content = fs.readFileSync(filePath, 'utf8');
-    const data: unknown = JSON.parse(content);
-    return validateMeeting(data);
-  } catch (error) {
-    console.error(`Error loading meeting ${meetingId}:`, error);
-    return null;
-  }
+  return getMeetingStore().get(meetingId);
 }
 
 // ===== Meeting Lifecycle =====
 
 /**
- * Creates a new meeting and persists it to disk
+ * Creates a new meeting and persists it
  * 
  * This is the primary way to create meetings. It:
- * 1. Generates a unique ID from title + current date
+ * 1. Generates an ID from title + current date
  * 2. Records participant IDs (not full participant data)
- * 3. Saves to individual JSON file
+ * 3. Inserts through the meeting store, adding a "-2", "-3", ... suffix
+ *    until the ID is free - an existing meeting is never overwritten
  * 
  * @param title - Meeting title/name
  * @param participantIds - Array of member UUIDs who attended
- * @returns Created meeting object
+ * @returns Created meeting object (check `id` for the ID actually assigned)
+ * @throws Error if no free ID could be found
  */
 export function createMeeting(
   title: string,
@@ -113,41 +102,35 @@ export function createMeeting(
 ): Meeting {
   const now = new Date();
   const date = now.toISOString().split('T')[0]!;
-  const id = generateMeetingId(title, date);
-  
-  const meeting: Meeting = {
-    id,
-    title,
-    date,
-    participantIds,
-    createdAt: now.toISOString(),
-  };
+  const baseId = generateMeetingId(title, date);
+  const store = getMeetingStore();
 
-  saveMeeting(meeting);
-  return meeting;
+  for (let attempt = 1; attempt <= MAX_ID_ATTEMPTS; attempt++) {
+    const meeting: Meeting = {
+      id: meetingIdCandidate(baseId, attempt),
+      title,
+      date,
+      participantIds,
+      createdAt: now.toISOString(),
+    };
+
+    if (store.insert(meeting)) {
+      return meeting;
+    }
+  }
+
+  throw new Error(`Could not find a free meeting ID for "${baseId}"`);
 }
 
 // ===== Meeting Queries =====
 
 /**
  * Lists all meetings, sorted by date (most recent first)
- * Reads from filesystem and validates each meeting file
  * 
- * @returns Array of meetings, filtered to exclude invalid files
+ * @returns Array of meetings, filtered to exclude invalid records
  */
 export function listMeetings(): Meeting[] {
-  ensureMeetingsDir();
-  
-  const files = fs.readdirSync(meetingsDir).filter(f => f.endsWith('.json'));
-  const meetings: Meeting[] = [];
-
-  for (const file of files) {
-    const meetingId = file.replace('.json', '');
-    const meeting = loadMeeting(meetingId);
-    if (meeting) {
-      meetings.push(meeting);
-    }
-  }
+  const meetings = getMeetingStore().list();
 
   return meetings.sort((a, b) => {
     // Sort by date, most recent first
@@ -156,18 +139,149 @@ export function listMeetings(): Meeting[] {
 }
 
 /**
- * Deletes a meeting from disk
+ * One page of meetings matching a query
+ */
+export interface MeetingPage {
+  meetings: Meeting[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+/**
+ * Lists meetings filtered by date range and title, one page at a time
+ * Order matches listMeetings (most recent first)
+ * 
+ * @param query - from/to are inclusive YYYY-MM-DD bounds; q is a
+ *   case-insensitive substring of the title; page is 1-based
+ * @returns The requested page plus the total number of matches
+ */
+export function queryMeetings(query: ListMeetingsQuery): MeetingPage {
+  const search = query.q?.toLowerCase();
+
+  const matches = listMeetings().filter(meeting =>
+    (!query.from || meeting.date >= query.from) &&
+    (!query.to || meeting.date <= query.to) &&
+    (!search || meeting.title.toLowerCase().includes(search))
+  );
+
+  const start = (query.page - 1) * query.pageSize;
+  return {
+    meetings: matches.slice(start, start + query.pageSize),
+    total: matches.length,
+    page: query.page,
+    pageSize: query.pageSize,
+  };
+}
+
+/**
+ * How often a member attended, and when they were last seen
+ */
+export interface AttendanceSummary {
+  count: number;
+  lastSeen: string; // Meeting date (YYYY-MM-DD)
+}
+
+/**
+ * Summarizes attendance per member across all meetings
+ * A member listed twice in one meeting counts once for that meeting
+ * 
+ * @returns Map of member ID to attendance summary (members who never attended are absent)
+ */
+export function getAttendanceByMember(): Map<string, AttendanceSummary> {
+  const attendance = new Map<string, AttendanceSummary>();
+
+  for (const meeting of listMeetings()) {
+    for (const memberId of new Set(meeting.participantIds)) {
+      const summary = attendance.get(memberId);
+      if (!summary) {
+        attendance.set(memberId, { count: 1, lastSeen: meeting.date });
+      } else {
+        summary.count += 1;
+        if (meeting.date > summary.lastSeen) summary.lastSeen = meeting.date;
+      }
+    }
+  }
+
+  return attendance;
+}
+
+// ===== Meeting Updates =====
+
+/**
+ * Edits that can be applied to an existing meeting
+ */
+export interface MeetingChanges {
+  title?: string;
+  date?: string;
+  addParticipantIds?: string[];
+  removeParticipantIds?: string[];
+}
+
+/**
+ * Applies edits to a stored meeting
+ * 
+ * The meeting ID never changes (it's used in URLs and export links), even
+ * when the title or date does. Added participants already present are
+ * ignored; removals are applied after additions.
+ * 
+ * @param meetingId - ID of meeting to update
+ * @param changes - Fields to change
+ * @returns Updated meeting, or null if the meeting doesn't exist
+ */
+export function updateMeeting(meetingId: string, changes: MeetingChanges): Meeting | null {
+  // Load + save run under the store's write lock so concurrent edits
+  // of one meeting apply one after the other instead of overwriting
+  return getMeetingStore().transaction(meetingId, () => {
+    const meeting = loadMeeting(meetingId);
+    if (!meeting) {
+      return null;
+    }
+
+    const participantIds = [...meeting.participantIds];
+    for (const id of changes.addParticipantIds ?? []) {
+      if (!participantIds.includes(id)) {
+        participantIds.push(id);
+      }
+    }
+    const removed = new Set(changes.removeParticipantIds ?? []);
+
+    const updated: Meeting = {
+      ...meeting,
+      title: changes.title ?? meeting.title,
+      date: changes.date ?? meeting.date,
+      participantIds: participantIds.filter(id => !removed.has(id)),
+    };
+
+    saveMeeting(updated);
+    return updated;
+  });
+}
+
+/**
+ * Removes a member from every meeting they attended
+ * Used when deleting a member so no meeting is left pointing at them
+ * 
+ * @param memberId - Member UUID to remove
+ * @returns Number of meetings changed
+ */
+export function removeParticipantFromMeetings(memberId: string): number {
+  let changed = 0;
+  for (const meeting of listMeetings()) {
+    if (meeting.participantIds.includes(memberId)) {
+      updateMeeting(meeting.id, { removeParticipantIds: [memberId] });
+      changed++;
+    }
+  }
+  return changed;
+}
+
+/**
+ * Deletes a meeting
  * 
  * @param meetingId - ID of meeting to delete
  * @returns true if deleted successfully, false if meeting didn't exist
  */
 export function deleteMeeting(meetingId: string): boolean {
-  const filePath = path.join(meetingsDir, `${meetingId}.json`);
-  
-  if (!fs.existsSync(filePath)) {
-    return false;
-  }
-
-  fs.unlinkSync(filePath);
-  return true;
+  return getMeetingStore().delete(meetingId);
 }
@@ -0,0 +1,203 @@
+// src/lib/memberMerge.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  compareCities,
+  findDuplicateMembers,
+  mergeMembers,
+  MergeInputError,
+  nameSimilarity,
+} from './memberMerge';
+import { loadMeeting, saveMeeting } from './meetings';
+import { getMemberLocationOn, loadMembers, saveMembers } from './members';
+import { setStores } from './store';
+import { foldName } from './textMatch';
+import { createJsonStores } from './jsonStore';
+import type { Member } from './validation';
+
+const member = (id: string, name: string, city: string): Member => ({
+  id,
+  name,
+  city,
+  createdAt: '2026-01-10T00:00:00.000Z',
+});
+
+describe('foldName', () => {
+  it('should drop case, accents and punctuation', () => {
+    expect(foldName("  José  O'Neil ")).toBe('jose oneil');
+  });
+
+  it('should keep letters of other scripts', () => {
+    expect(foldName('Пётр  Ильич!')).toBe('петр ильич');
+    expect(foldName('山田 太郎')).toBe('山田 太郎');
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('should score identical names as 1', () => {
+    expect(nameSimilarity('Jon Smith', 'jon smith')).toBe(1);
+  });
+
+  it('should ignore word order', () => {
+    expect(nameSimilarity('Smith Jon', 'Jon Smith')).toBe(1);
+  });
+
+  it('should score near matches highly', () => {
+    expect(nameSimilarity('Jon Smith', 'John Smith')).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it('should score unrelated names low', () => {
+    expect(nameSimilarity('Alice', 'Bob')).toBeLessThan(0.5);
+  });
+});
+
+describe('compareCities', () => {
+  it('should treat case differences as the same city', () => {
+    expect(compareCities('New York', 'new york')).toBe('same');
+  });
+
+  it('should treat far-apart known cities as different', () => {
+    expect(compareCities('Paris', 'London')).toBe('different');
+  });
+
+  it('should treat unknown cities as different', () => {
+    expect(compareCities('Nowhere 1', 'Nowhere 2')).toBe('different');
+  });
+});
+
+describe('findDuplicateMembers', () => {
+  it('should flag similar names in the same city', () => {
+    const candidates = findDuplicateMembers([
+      member('1', 'Jon Smith', 'New York'),
+      member('2', 'John Smith', 'new york'),
+      member('3', 'Alice', 'New York'),
+    ]);
+
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0]?.members.map(m => m.id)).toEqual(['1', '2']);
+    expect(candidates[0]?.cityMatch).toBe('same');
+  });
+
+  it('should flag an identical name in another city as a possible move', () => {
+    const candidates = findDuplicateMembers([
+      member('1', 'Lewis Chen', 'Taipei'),
+      member('2', 'Lewis Chen', 'Berlin'),
+    ]);
+
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0]?.reason).toContain('possibly moved');
+  });
+
+  it('should not flag initials in different cities', () => {
+    expect(findDuplicateMembers([member('1', 'N', 'Paris'), member('2', 'N', 'London')])).toEqual([]);
+  });
+
+  it('should respect a custom threshold', () => {
+    const members = [member('1', 'Jon Smith', 'Paris'), member('2', 'John Smith', 'Paris')];
+
+    expect(findDuplicateMembers(members, { threshold: 0.99 })).toEqual([]);
+  });
+});
+
+describe('mergeMembers', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpm-merge-'));
+    setStores(createJsonStores(tmpDir));
+
+    saveMembers([
+      member('keep', 'Jon Smith', 'New York'),
+      member('dup', 'John Smith', 'New York'),
+      member('other', 'Alice', 'Paris'),
+    ]);
+    saveMeeting({ id: 'call-2026-01-01', title: 'Call', date: '2026-01-01', participantIds: ['dup', 'other'] });
+    saveMeeting({ id: 'call-2026-01-02', title: 'Call', date: '2026-01-02', participantIds: ['keep', 'dup'] });
+    saveMeeting({ id: 'call-2026-01-03', title: 'Call', date: '2026-01-03', participantIds: ['other'] });
+  });
+
+  afterEach(() => {
+    setStores(null);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should preview without writing on dry run', () => {
+    const plan = mergeMembers('keep', ['dup'], { dryRun: true });
+
+    expect(plan.dryRun).toBe(true);
+    expect(plan.removed.map(m => m.id)).toEqual(['dup']);
+    expect(plan.meetings.map(m => m.meetingId).sort()).toEqual(['call-2026-01-01', 'call-2026-01-02']);
+    expect(loadMembers()).toHaveLength(3);
+    expect(loadMeeting('call-2026-01-01')?.participantIds).toEqual(['dup', 'other']);
+  });
+
+  it('should rewrite meetings and delete the duplicates', () => {
+    mergeMembers('keep', ['dup']);
+
+    expect(loadMembers().map(m => m.id)).toEqual(['keep', 'other']);
+    expect(loadMeeting('call-2026-01-01')?.participantIds).toEqual(['keep', 'other']);
+    expect(loadMeeting('call-2026-01-02')?.participantIds).toEqual(['keep']);
+    expect(loadMeeting('call-2026-01-03')?.participantIds).toEqual(['other']);
+  });
+
+  it('should keep the city a merged member attended from', () => {
+    saveMembers([member('keep', 'Jon Smith', 'London'), member('dup', 'Jon Smith', 'New York'), member('other', 'Alice', 'Paris')]);
+    saveMeeting({ id: 'call-2026-01-02', title: 'Call', date: '2026-01-02', participantIds: ['dup'] });
+
+    const { survivor } = mergeMembers('keep', ['dup']);
+
+    expect(survivor.cityHistory).toEqual([{ city: 'New York', until: '2026-01-03' }]);
+    expect(loadMembers()[0]).toEqual(survivor);
+    expect(getMemberLocationOn(survivor, '2026-01-02').city).toBe('New York');
+    expect(getMemberLocationOn(survivor, '2026-01-03').city).toBe('London');
+  });
+
+  it('should keep the survivor\'s own earlier meetings in its city', () => {
+    saveMembers([member('keep', 'Jon Smith', 'Taipei'), member('dup', 'Jon Smith', 'Berlin'), member('other', 'Alice', 'Paris')]);
+    saveMeeting({ id: 'call-2025-03-01', title: 'Call', date: '2025-03-01', participantIds: ['keep'] });
+    saveMeeting({ id: 'call-2026-01-02', title: 'Call', date: '2026-01-02', participantIds: ['other'] });
+
+    const { survivor } = mergeMembers('keep', ['dup']);
+
+    expect(survivor.cityHistory).toEqual([{ city: 'Taipei', until: '2025-03-02' }, { city: 'Berlin', until: '2026-01-02' }]);
+    expect(getMemberLocationOn(survivor, '2025-03-01').city).toBe('Taipei');
+    expect(getMemberLocationOn(survivor, '2026-01-01').city).toBe('Berlin');
+    expect(getMemberLocationOn(survivor, '2026-01-02').city).toBe('Taipei');
+  });
+
+  it('should leave cities on the move dates the members recorded', () => {
+    saveMembers([
+      { ...member('keep', 'Jon Smith', 'Taipei'), cityHistory: [{ city: 'Tokyo', until: '2025-06-01' }] },
+      member('dup', 'Jon Smith', 'New York'),
+      member('other', 'Alice', 'Paris'),
+    ]);
+    saveMeeting({ id: 'call-2025-03-01', title: 'Call', date: '2025-03-01', participantIds: ['keep'] });
+    saveMeeting({ id: 'call-2026-01-02', title: 'Call', date: '2026-01-02', participantIds: ['other'] });
+    saveMeeting({ id: 'call-2026-02-01', title: 'Call', date: '2026-02-01', participantIds: ['keep'] });
+
+    const { survivor } = mergeMembers('keep', ['dup']);
+
+    expect(survivor.cityHistory).toEqual([{ city: 'Tokyo', until: '2025-06-01' }, { city: 'New York', until: '2026-01-02' }]);
+  });
+
+  it('should refuse to merge members who attended from different cities on the same day', () => {
+    saveMembers([member('keep', 'Jon Smith', 'London'), member('dup', 'John Smith', 'New York'), member('other', 'Alice', 'Paris')]);
+
+    expect(() => mergeMembers('keep', ['dup'])).toThrow(MergeInputError);
+    expect(loadMembers()).toHaveLength(3);
+    expect(loadMeeting('call-2026-01-01')?.participantIds).toEqual(['dup', 'other']);
+  });
+
+  it('should not add history when the merged member lived in the same city', () => {
+    expect(mergeMembers('keep', ['dup']).survivor.cityHistory).toBeUndefined();
+  });
+
+  it('should reject unknown IDs and self-merges', () => {
+    expect(() => mergeMembers('missing', ['dup'])).toThrow(MergeInputError);
+    expect(() => mergeMembers('keep', ['missing'])).toThrow('Unknown member IDs: missing');
+    expect(() => mergeMembers('keep', ['keep'])).toThrow(MergeInputError);
+    expect(loadMembers()).toHaveLength(3);
+  });
+});
@@ -0,0 +1,290 @@
+// src/lib/memberMerge.ts
+/**
+ * Duplicate Member Detection & Merging
+ *
+ * findMember only deduplicates exact (name, city) matches, so "Jon Smith, NYC"
+ * and "John Smith, New York", or a member who moved city, end up as separate
+ * members. This module finds likely duplicates and merges them.
+ *
+ * Detection:
+ * - Names are compared after folding case, accents and punctuation, using
+ *   edit-distance similarity (word order is ignored)
+ * - Cities count as equivalent when they are the same string or resolve, via
+ *   cities.json, to places within NEARBY_CITY_KM of each other
+ * - An identical name in a different city is reported as a possible move
+ *
+ * Merging:
+ * - One surviving member ID is kept; every meeting's participantIds is
+ *   rewritten to point at it, then the other members are deleted
+ * - The survivor's cityHistory is rebuilt from where every merged member
+ *   attended from, so all their past meetings keep their city
+ * - A dry run returns the same plan without writing anything
+ */
+import { getCityCoordinates } from './cities';
+import { distanceKm } from './geo';
+import { listMeetings, loadMeeting, saveMeeting } from './meetings';
+import { getMemberLocationOn, loadMembers, saveMembers } from './members';
+import { getMeetingStore, getMemberStore } from './store';
+import { editDistance, foldName } from './textMatch';
+import type { Meeting, Member, PastCity } from './validation';
+
+/** Cities closer than this are treated as the same place */
+const NEARBY_CITY_KM = 50;
+
+/** Default minimum name similarity (0-1) for same-city candidates */
+const DEFAULT_NAME_THRESHOLD = 0.8;
+
+/** Names shorter than this (e.g. initials) are too ambiguous to flag as moves */
+const MIN_MOVE_NAME_LENGTH = 3;
+
+// ===== Name Similarity =====
+
+/**
+ * Similarity of two names from 0 (unrelated) to 1 (identical after folding)
+ * Word order doesn't matter: "Smith Jon" vs "Jon Smith" scores 1
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const foldedA = foldName(a);
+  const foldedB = foldName(b);
+  if (!foldedA || !foldedB) return 0;
+
+  const sortWords = (s: string) => s.split(' ').sort().join(' ');
+  const score = (x: string, y: string) => 1 - editDistance(x, y) / Math.max(x.length, y.length);
+
+  return Math.max(score(foldedA, foldedB), score(sortWords(foldedA), sortWords(foldedB)));
+}
+
+// ===== City Equivalence =====
+
+export type CityMatch = 'same' | 'nearby' | 'different';
+
+/**
+ * Compares two member cities
+ * - same: identical ignoring case/accents
+ * - nearby: both known in cities.json and within NEARBY_CITY_KM
+ * - different: anything else (including unknown cities)
+ */
+export function compareCities(a: string, b: string): CityMatch {
+  if (foldName(a) === foldName(b)) return 'same';
+
+  const coordsA = getCityCoordinates(a);
+  const coordsB = getCityCoordinates(b);
+  if (coordsA && coordsB && distanceKm(coordsA, coordsB) <= NEARBY_CITY_KM) {
+    return 'nearby';
+  }
+
+  return 'different';
+}
+
+// ===== Duplicate Detection =====
+
+/**
+ * A pair of members that probably represent the same person
+ */
+export interface DuplicateCandidate {
+  members: [Member, Member];
+  nameSimilarity: number;
+  cityMatch: CityMatch;
+  reason: string;
+}
+
+export interface DuplicateSearchOptions {
+  /** Minimum name similarity for same/nearby-city pairs (default 0.8) */
+  threshold?: number;
+}
+
+/**
+ * Finds likely duplicate members
+ *
+ * @param members - Members to scan (defaults to the whole registry)
+ * @returns Candidate pairs, most similar first
+ */
+export function findDuplicateMembers(
+  members: Member[] = loadMembers(),
+  { threshold = DEFAULT_NAME_THRESHOLD }: DuplicateSearchOptions = {}
+): DuplicateCandidate[] {
+  const candidates: DuplicateCandidate[] = [];
+
+  for (let i = 0; i < members.length; i++) {
+    for (let j = i + 1; j < members.length; j++) {
+      const a = members[i]!;
+      const b = members[j]!;
+      const similarity = nameSimilarity(a.name, b.name);
+      if (similarity < threshold) continue;
+
+      const cityMatch = compareCities(a.city, b.city);
+      let reason: string;
+
+      if (cityMatch === 'same') {
+        reason = 'Similar name, same city';
+      } else if (cityMatch === 'nearby') {
+        reason = `Similar name, ${a.city} and ${b.city} are the same area`;
+      } else if (similarity === 1 && foldName(a.name).length >= MIN_MOVE_NAME_LENGTH) {
+        reason = `Same name in ${a.city} and ${b.city} - possibly moved`;
+      } else {
+        continue;
+      }
+
+      candidates.push({ members: [a, b], nameSimilarity: similarity, cityMatch, reason });
+    }
+  }
+
+  return candidates.sort((x, y) => y.nameSimilarity - x.nameSimilarity);
+}
+
+// ===== Merging =====
+
+/**
+ * Thrown when merge arguments are invalid (unknown IDs, survivor merged into itself)
+ */
+export class MergeInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MergeInputError';
+  }
+}
+
+/**
+ * What a merge changes (or changed)
+ */
+export interface MergePlan {
+  survivor: Member;
+  removed: Member[];
+  meetings: Array<{ meetingId: string; before: string[]; after: string[] }>;
+  dryRun: boolean;
+}
+
+const dayAfter = (date: string) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().split('T')[0]!;
+};
+
+type Location = { city: string; cityKey?: string };
+
+const sameLocation = (a: Location, b: Location) =>
+  a.city.toLowerCase() === b.city.toLowerCase() && a.cityKey === b.cityKey;
+
+/**
+ * The survivor with a city history covering every merged member's meetings
+ * The history is rebuilt from where each member attended their meetings
+ * from (getMemberLocationOn), in date order, so every past meeting of the
+ * survivor and of the merged members keeps its city. A city is left on a
+ * move date either member recorded between its last and the next city's
+ * first meeting, else the day after its last meeting. Members who attended
+ * nothing add nothing.
+ *
+ * @throws MergeInputError if the members attended from different cities on the same day
+ */
+function withMergedCities(survivor: Member, removed: Member[], meetings: Meeting[]): Member {
+  const attended = (member: Member) => meetings.filter(meeting => meeting.participantIds.includes(member.id));
+  if (!removed.some(member => attended(member).length > 0)) {
+    return survivor;
+  }
+
+  const members = [survivor, ...removed];
+  const visits = members
+    .flatMap(member => attended(member).map(meeting => ({ date: meeting.date, ...getMemberLocationOn(member, meeting.date) })))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  // Consecutive visits from one city, oldest first
+  const stays: Array<{ location: Location; first: string; last: string }> = [];
+  for (const { date, ...location } of visits) {
+    const current = stays[stays.length - 1];
+    if (current && sameLocation(current.location, location)) {
+      current.last = date;
+      continue;
+    }
+    if (current?.last === date) {
+      throw new MergeInputError(
+        `These members attended from both ${current.location.city} and ${location.city} on ${date}, so their cities can't be merged`
+      );
+    }
+    stays.push({ location, first: date, last: date });
+  }
+
+  const moves = members.flatMap(member => member.cityHistory ?? []);
+  const history: PastCity[] = [];
+  stays.forEach(({ location, last }, i) => {
+    const next = stays[i + 1];
+    if (!next && sameLocation(location, survivor)) return;
+
+    const moved = moves.find(
+      move => sameLocation(move, location) && move.until > last && (!next || move.until <= next.first)
+    );
+    history.push({ ...location, until: moved?.until ?? dayAfter(last) });
+  });
+
+  const merged: Member = { ...survivor, cityHistory: history };
+  if (history.length === 0) {
+    delete merged.cityHistory;
+  }
+  return merged;
+}
+
+/**
+ * Merges duplicate members into one surviving member
+ *
+ * Every meeting listing a duplicate is rewritten to list the survivor instead
+ * (once, even if several merged members attended). Meetings are rewritten
+ * before members are deleted, so an interrupted merge never leaves meetings
+ * pointing at missing members. The survivor keeps the merged members' cities
+ * for the meetings they attended (see withMergedCities).
+ *
+ * @param survivorId - Member ID to keep
+ * @param duplicateIds - Member IDs to fold into the survivor
+ * @param options.dryRun - Only compute the plan, don't write anything
+ * @returns The merge plan
+ * @throws MergeInputError if any ID is unknown or the survivor is listed as a duplicate
+ */
+export function mergeMembers(
+  survivorId: string,
+  duplicateIds: string[],
+  { dryRun = false }: { dryRun?: boolean } = {}
+): MergePlan {
+  const mergeIds = new Set(duplicateIds);
+  if (mergeIds.has(survivorId)) {
+    throw new MergeInputError('The surviving member cannot also be merged away');
+  }
+  if (mergeIds.size === 0) {
+    throw new MergeInputError('No members to merge');
+  }
+
+  return getMemberStore().transaction(() => {
+    const members = loadMembers();
+    const survivor = members.find(m => m.id === survivorId);
+    if (!survivor) {
+      throw new MergeInputError(`Unknown member ID: ${survivorId}`);
+    }
+
+    const removed = members.filter(m => mergeIds.has(m.id));
+    const missing = [...mergeIds].filter(id => !removed.some(m => m.id === id));
+    if (missing.length > 0) {
+      throw new MergeInputError(`Unknown member IDs: ${missing.join(', ')}`);
+    }
+
+    const meetings = listMeetings();
+    const merged = withMergedCities(survivor, removed, meetings);
+    const meetingChanges: MergePlan['meetings'] = [];
+    for (const { id: meetingId } of meetings) {
+      // Re-read under the meeting's lock so an edit made meanwhile isn't overwritten
+      getMeetingStore().transaction(meetingId, () => {
+        const meeting = loadMeeting(meetingId);
+        if (!meeting?.participantIds.some(id => mergeIds.has(id))) return;
+
+        const after = [...new Set(meeting.participantIds.map(id => (mergeIds.has(id) ? survivorId : id)))];
+        meetingChanges.push({ meetingId, before: meeting.participantIds, after });
+
+        if (!dryRun) {
+          saveMeeting({ ...meeting, participantIds: after });
+        }
+      });
+    }
+
+    if (!dryRun) {
+      saveMembers(members.filter(m => !mergeIds.has(m.id)).map(m => (m.id === survivorId ? merged : m)));
+    }
+
+    return { survivor: merged, removed, meetings: meetingChanges, dryRun };
+  });
+}
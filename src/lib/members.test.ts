@@ -0,0 +1,161 @@
+// src/lib/members.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createMember,
+  deleteMember,
+  DuplicateMemberError,
+  findMemberById,
+  findOrCreateMember,
+  getMemberCityOn,
+  loadMembers,
+  updateMember,
+} from './members';
+import { setStores } from './store';
+import { createJsonStores } from './jsonStore';
+
+describe('members', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpm-members-'));
+    setStores(createJsonStores(tmpDir));
+  });
+
+  afterEach(() => {
+    setStores(null);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('findOrCreateMember', () => {
+    it('should create a normalized member', () => {
+      const member = findOrCreateMember('  alice  smith ', 'paris');
+
+      expect(member.name).toBe('Alice Smith');
+      expect(member.city).toBe('Paris');
+      expect(loadMembers()).toEqual([member]);
+    });
+
+    it('should reuse an existing member (case-insensitive)', () => {
+      const first = findOrCreateMember('Alice', 'Paris');
+      const second = findOrCreateMember('ALICE', 'paris');
+
+      expect(second.id).toBe(first.id);
+      expect(loadMembers()).toHaveLength(1);
+    });
+
+    it('should pin the city and tell same-named cities apart', () => {
+      const france = findOrCreateMember('Alice', 'Paris');
+      const texas = findOrCreateMember('Alice', 'Paris', 'paris, tx, us');
+
+      expect(france.cityKey).toBe('paris, fr');
+      expect(texas.id).not.toBe(france.id);
+      expect(findOrCreateMember('alice', 'paris', 'paris, tx, us').id).toBe(texas.id);
+    });
+
+    it('should reject blank input', () => {
+      expect(() => findOrCreateMember('  ', 'Paris')).toThrow('Name and city are required');
+    });
+  });
+
+  describe('createMember', () => {
+    it('should create a new member', () => {
+      const member = createMember('Bob', 'london');
+
+      expect(findMemberById(member.id)).toEqual({ ...member, city: 'London' });
+    });
+
+    it('should refuse duplicates', () => {
+      const existing = createMember('Bob', 'London');
+
+      expect(() => createMember('bob', 'LONDON')).toThrow(DuplicateMemberError);
+      try {
+        createMember('bob', 'LONDON');
+      } catch (error) {
+        expect((error as DuplicateMemberError).existing).toEqual(existing);
+      }
+    });
+  });
+
+  describe('updateMember', () => {
+    it('should rename and move a member while keeping the ID', () => {
+      const member = createMember('Bob', 'London');
+      const updated = updateMember(member.id, { name: 'robert', city: 'berlin', retroactive: true });
+
+      expect(updated).toEqual({ ...member, name: 'Robert', city: 'Berlin', cityKey: 'berlin, de' });
+      expect(findMemberById(member.id)).toEqual(updated);
+    });
+
+    it('should allow changing only the city', () => {
+      const member = createMember('Bob', 'London');
+
+      expect(updateMember(member.id, { city: 'Paris' })?.name).toBe('Bob');
+    });
+
+    it('should refuse to collide with another member', () => {
+      createMember('Alice', 'Paris');
+      const bob = createMember('Bob', 'Paris');
+
+      expect(() => updateMember(bob.id, { name: 'Alice' })).toThrow(DuplicateMemberError);
+      expect(findMemberById(bob.id)?.name).toBe('Bob');
+    });
+
+    it('should return null for unknown IDs', () => {
+      expect(updateMember('missing', { name: 'X' })).toBeNull();
+    });
+
+    it('should record the previous city when a member moves', () => {
+      const member = createMember('Bob', 'London');
+      updateMember(member.id, { city: 'Paris', movedOn: '2026-03-01' });
+      const updated = updateMember(member.id, { city: 'Berlin', movedOn: '2026-06-01' });
+
+      expect(updated?.cityHistory).toEqual([
+        { city: 'London', cityKey: 'london, gb', until: '2026-03-01' },
+        { city: 'Paris', cityKey: 'paris, fr', until: '2026-06-01' },
+      ]);
+    });
+
+    it('should not record history for corrections or case-only changes', () => {
+      const member = createMember('Bob', 'Londn');
+      updateMember(member.id, { city: 'London', retroactive: true });
+      const updated = updateMember(member.id, { city: 'LONDON' });
+
+      expect(updated?.cityHistory).toBeUndefined();
+    });
+  });
+
+  describe('getMemberCityOn', () => {
+    const member = {
+      id: 'bob',
+      name: 'Bob',
+      city: 'Berlin',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      cityHistory: [
+        { city: 'Paris', until: '2026-06-01' },
+        { city: 'London', until: '2026-03-01' },
+      ],
+    };
+
+    it('should resolve the city the member lived in on a date', () => {
+      expect(getMemberCityOn(member, '2026-02-15')).toBe('London');
+      expect(getMemberCityOn(member, '2026-03-01')).toBe('Paris');
+      expect(getMemberCityOn(member, '2026-06-01')).toBe('Berlin');
+    });
+
+    it('should fall back to the current city without history', () => {
+      expect(getMemberCityOn({ ...member, cityHistory: undefined }, '2020-01-01')).toBe('Berlin');
+    });
+  });
+
+  describe('deleteMember', () => {
+    it('should delete a member', () => {
+      const member = createMember('Bob', 'London');
+
+      expect(deleteMember(member.id)).toBe(true);
+      expect(findMemberById(member.id)).toBeNull();
+      expect(deleteMember(member.id)).toBe(false);
+    });
+  });
+});
@@ -7,85 +7,81 @@
  * actual coordinates are resolved at runtime from cities.json (single source of truth).
  * 
  * Data Model:
- * - Members are deduplicated by (name, city) pairs
+ * - Members are deduplicated by (name, city) pairs; members whose cities are
+ *   pinned to different city keys (Paris, FR vs Paris, TX, US) are distinct
  * - Each member gets a unique UUID for cross-referencing in meetings
  * - Coordinates are NOT stored (computed from cities.json when needed)
+ * - Moves are kept in cityHistory, so past meetings resolve the city the
+ *   member attended from (see getMemberCityOn)
  * 
- * Storage: src/data/members.json
+ * Storage: the configured MemberStore (see store.ts) - src/data/members.json by default
  */
-import fs from 'fs';
-import path from 'path';
+import { getCityByName, getCityKey } from './cities';
 import { generateId } from './uuid';
-import { safeValidateMembers, type Member } from './validation';
+import { type Member, type PastCity, type UpdateMemberInput } from './validation';
 import { normalizeInput } from './normalize';
+import { getMemberStore } from './store';
 
-const membersFilePath = path.join(process.cwd(), 'src', 'data', 'members.json');
+/**
+ * Thrown when a create/update would give two members the same (name, city)
+ * `existing` is the member that already holds that pair.
+ */
+export class DuplicateMemberError extends Error {
+  constructor(public readonly existing: Member) {
+    super(`A member named ${existing.name} in ${existing.city} already exists`);
+    this.name = 'DuplicateMemberError';
+  }
+}
 
-// ===== File I/O Operations =====
-// These functions handle reading/writing the members.json file
+// ===== Persistence =====
+// These functions read/write the whole registry through the member store
 
 /**
- * Load all members from members.json
- * Validates data structure and handles missing/corrupted files gracefully
+ * Load all members from the member store
  * 
- * @returns Array of members, or empty array if file doesn't exist or is invalid
+ * @returns Array of members, or empty array if none have been stored yet
+ * @throws CorruptDataError if the stored registry can't be read (never treated as empty)
+ * @throws SchemaVersionError if the stored registry needs `npm run migrate`
  */
 export function loadMembers(): Member[] {
-  if (!fs.existsSync(membersFilePath)) {
-    return [];
-  }
-
-  try {
-    const content = fs.readFileSync(membersFilePath, 'utf8');
-    const data = JSON.parse(content) as Member[];
-    const validated = safeValidateMembers(data);
-    return validated ?? data; // Return raw data if validation fails
-  } catch (error) {
-    console.error('Error loading members:', error);
-    return [];
-  }
+  return getMemberStore().list();
 }
 
 /**
- * Save members array to members.json
- * Writes formatted JSON with 2-space indentation for readability
+ * Replace the stored member registry
  * 
  * @param members - Array of members to persist
  */
 export function saveMembers(members: Member[]): void {
-  fs.writeFileSync(membersFilePath, JSON.stringify(members, null, 2), 'utf8');
+  getMemberStore().replaceAll(members);
 }
 
 // ===== Member Lookup =====
 // Functions to find existing members
 
+/**
+ * Whether a member is the one named by name + city (+ city key)
+ * A city key only rules a member out when both have one and they differ.
+ */
+function isSameMember(member: Member, name: string, city: string, cityKey?: string): boolean {
+  return (
+    member.name.toLowerCase() === name.toLowerCase() &&
+    member.city.toLowerCase() === city.toLowerCase() &&
+    (!cityKey || !member.cityKey || member.cityKey === cityKey)
+  );
+}
+
 /**
  * Find a member by name and city (case-insensitive match)
  * Used for deduplication - prevents creating duplicate members
  * 
- * Note: Ensures backward compatibility by auto-generating IDs for old members
- * 
  * @param name - Member name (will be normalized for comparison)
  * @param city - City name (will be normalized for comparison)
+ * @param cityKey - Which city, when the name is shared (see cities.ts)
  * @returns Member object if found, null otherwise
  */
-export function findMember(name: string, city: string): Member | null {
-  const members = loadMembers();
-  const normalizedName = name.toLowerCase();
-  const normalizedCity = city.toLowerCase();
-
-  const found = members.find(
-    m => m.name.toLowerCase() === normalizedName && 
-         m.city.toLowerCase() === normalizedCity
-  ) ?? null;
-  
-  // Ensure member has an ID (backward compatibility)
-  if (found && !found.id) {
-    found.id = generateId();
-    saveMembers(members); // Persist the ID
-  }
-  
-  return found;
+export function findMember(name: string, city: string, cityKey?: string): Member | null {
+  return loadMembers().find(m => isSameMember(m, name, city, cityKey)) ?? null;
 }
 
 /**
@@ -96,8 +92,7 @@ export function findMember(name: string, city: string): Member | null {
  * @returns Member object if found, null otherwise
  */
 export function findMemberById(id: string): Member | null {
-  const members = loadMembers();
-  return members.find(m => m.id === id) ?? null;
+  return getMemberStore().get(id);
 }
 
 // ===== Member Creation & Deduplication =====
@@ -117,10 +112,12 @@ export function findMemberById(id: string): Member | null {
  * 
  * @param name - Member name (will be normalized: "john doe" -> "John Doe")
  * @param city - City name (will be normalized: "new york" -> "New York")
+ * @param cityKey - Which city (default: the only city with that name, if there is one)
  * @returns Member object (existing or newly created)
  * @throws Error if name or city is empty after normalization
+ * @throws CorruptDataError if the stored registry can't be read
  */
-export function findOrCreateMember(name: string, city: string): Member {
+export function findOrCreateMember(name: string, city: string, cityKey: string | undefined = pinCity(city)): Member {
   const normalizedName = normalizeInput(name);
   const normalizedCity = normalizeInput(city);
 
@@ -128,26 +125,177 @@ export function findOrCreateMember(name: string, city: string): Member {
     throw new Error('Name and city are required');
   }
 
-  // Check if member already exists
-  const existing = findMember(normalizedName, normalizedCity);
-  if (existing) {
-    return existing;
+  // Lookup + insert run under the store's write lock so two concurrent
+  // submissions can't both create (or overwrite) the same member
+  return getMemberStore().transaction(() => {
+    // Check if member already exists
+    const existing = findMember(normalizedName, normalizedCity, cityKey);
+    if (existing) {
+      return existing;
+    }
+
+    // Create new member (no coordinates stored)
+    const newMember: Member = {
+      id: generateId(),
+      name: normalizedName,
+      city: normalizedCity,
+      ...(cityKey ? { cityKey } : {}),
+      createdAt: new Date().toISOString(),
+    };
+
+    // Persist (a single append, not a registry rewrite, on stores that support it)
+    getMemberStore().insert(newMember);
+
+    return newMember;
+  });
+}
+
+// ===== Member Administration =====
+// Explicit create/edit/delete used by the /api/members routes
+
+/**
+ * Key of the only known city with this name, if there is exactly one
+ * Pinned on members so they keep their city when a namesake is added.
+ */
+function pinCity(city: string): string | undefined {
+  const known = getCityByName(city);
+  return known ? getCityKey(known) : undefined;
+}
+
+/**
+ * Normalizes name + city input, rejecting blanks
+ * @throws Error if name or city is empty after normalization
+ */
+function normalizeNameAndCity(name: string, city: string) {
+  const normalizedName = normalizeInput(name);
+  const normalizedCity = normalizeInput(city);
+
+  if (!normalizedName || !normalizedCity) {
+    throw new Error('Name and city are required');
   }
+  return { name: normalizedName, city: normalizedCity };
+}
 
-  // Create new member (no coordinates stored)
-  const newMember: Member = {
-    id: generateId(),
-    name: normalizedName,
-    city: normalizedCity,
-    createdAt: new Date().toISOString(),
-  };
+/**
+ * Create a member, refusing duplicates
+ * Unlike findOrCreateMember, an existing (name, city) match is an error
+ * 
+ * @returns Newly created member
+ * @throws DuplicateMemberError if a member with the same name and city exists
+ */
+export function createMember(name: string, city: string): Member {
+  const normalized = normalizeNameAndCity(name, city);
 
-  // Save to file
-  const members = loadMembers();
-  members.push(newMember);
-  saveMembers(members);
+  const cityKey = pinCity(normalized.city);
+
+  return getMemberStore().transaction(() => {
+    const existing = findMember(normalized.name, normalized.city, cityKey);
+    if (existing) {
+      throw new DuplicateMemberError(existing);
+    }
 
-  return newMember;
+    const newMember: Member = {
+      id: generateId(),
+      ...normalized,
+      ...(cityKey ? { cityKey } : {}),
+      createdAt: new Date().toISOString(),
+    };
+    getMemberStore().insert(newMember);
+    return newMember;
+  });
+}
+
+/**
+ * Rename a member and/or change their city
+ * The member keeps their ID, so every meeting they attended follows a rename.
+ * 
+ * A city change is a move by default: the old city is appended to
+ * cityHistory (valid until `movedOn`, default today), so meetings before the
+ * move keep showing the old city. Pass `retroactive: true` for corrections
+ * (e.g. a typo) that should apply to past meetings as well.
+ * 
+ * @param id - Member UUID
+ * @param changes - New name and/or city (normalized like new members)
+ * @returns Updated member, or null if no member has that ID
+ * @throws DuplicateMemberError if another member already has the resulting name + city
+ */
+export function updateMember(id: string, changes: UpdateMemberInput): Member | null {
+  return getMemberStore().transaction(() => {
+    const members = loadMembers();
+    const index = members.findIndex(m => m.id === id);
+    const current = members[index];
+    if (!current) {
+      return null;
+    }
+
+    const next = normalizeNameAndCity(changes.name ?? current.name, changes.city ?? current.city);
+    const moved = next.city.toLowerCase() !== current.city.toLowerCase();
+    const cityKey = moved ? pinCity(next.city) : current.cityKey;
+    const clash = members.find(m => m.id !== id && isSameMember(m, next.name, next.city, cityKey));
+    if (clash) {
+      throw new DuplicateMemberError(clash);
+    }
+
+    const updated: Member = { ...current, ...next, cityKey };
+    if (!cityKey) delete updated.cityKey;
+
+    if (moved && !changes.retroactive) {
+      const until = changes.movedOn ?? new Date().toISOString().split('T')[0]!;
+      const past: PastCity = { city: current.city, ...(current.cityKey ? { cityKey: current.cityKey } : {}), until };
+      updated.cityHistory = [...(current.cityHistory ?? []), past]
+        .sort((a, b) => a.until.localeCompare(b.until));
+    }
+
+    members[index] = updated;
+    saveMembers(members);
+    return updated;
+  });
+}
+
+/**
+ * Remove a member from the registry
+ * Meetings referencing the member are not touched (see removeParticipantFromMeetings)
+ * 
+ * @param id - Member UUID
+ * @returns true if deleted, false if no member has that ID
+ */
+export function deleteMember(id: string): boolean {
+  return getMemberStore().transaction(() => {
+    const members = loadMembers();
+    const remaining = members.filter(m => m.id !== id);
+    if (remaining.length === members.length) {
+      return false;
+    }
+    saveMembers(remaining);
+    return true;
+  });
+}
+
+// ===== Location History =====
+
+/**
+ * Resolve where a member lived on a given date: the city and its key
+ * Used when rendering past meetings so they don't change after a move
+ * 
+ * @param member - Member with optional cityHistory
+ * @param date - Date to resolve (YYYY-MM-DD, e.g. Meeting.date)
+ * @returns The past city whose `until` is after `date`, else the current city
+ */
+export function getMemberLocationOn(member: Member, date: string): { city: string; cityKey?: string } {
+  const history = [...(member.cityHistory ?? [])].sort((a, b) => a.until.localeCompare(b.until));
+  const { city, cityKey } = history.find(entry => date < entry.until) ?? member;
+  return cityKey ? { city, cityKey } : { city };
+}
+
+/**
+ * Resolve the city a member lived in on a given date (its name)
+ * 
+ * @param member - Member with optional cityHistory
+ * @param date - Date to resolve (YYYY-MM-DD, e.g. Meeting.date)
+ * @returns The past city whose `until` is after `date`, else the current city
+ */
+export function getMemberCityOn(member: Member, date: string): string {
+  return getMemberLocationOn(member, date).city;
 }
 
 // ===== Batch Operations =====
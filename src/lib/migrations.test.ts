@@ -0,0 +1,146 @@
+// src/lib/migrations.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CorruptDataError } from './dataFile';
+import { migrateData, migrateDataDir } from './migrations';
+import { assertSchemaVersion, getSchemaVersion, SCHEMA_VERSIONS, SchemaVersionError } from './schemaVersion';
+import { createJsonStores } from './jsonStore';
+
+const legacyMembers = [
+  { id: 'member-alice', name: 'Alice', city: 'Paris', createdAt: '2026-01-10T00:00:00.000Z' },
+  { name: 'Bob', city: 'London', lat: 51.5, lng: -0.12, createdAt: '2026-01-11T00:00:00.000Z' },
+];
+
+const legacyMeeting = {
+  id: 'standup-2026-01-12',
+  title: 'Standup',
+  date: '2026-01-12',
+  participantIds: ['member-alice'],
+};
+
+const legacyCities = {
+  paris: { normalizedName: 'paris', displayName: 'Paris', lat: 48.8566, lng: 2.3522 },
+  london: { displayName: 'London', lat: 51.5074, lng: -0.1278 },
+};
+
+describe('getSchemaVersion', () => {
+  it('should treat unversioned data as version 0', () => {
+    expect(getSchemaVersion([])).toBe(0);
+    expect(getSchemaVersion(legacyCities)).toBe(0);
+    expect(getSchemaVersion({ schemaVersion: 3 })).toBe(3);
+  });
+});
+
+describe('assertSchemaVersion', () => {
+  it('should only accept the current version', () => {
+    expect(() => assertSchemaVersion('members', 'members.json', { schemaVersion: SCHEMA_VERSIONS.members })).not.toThrow();
+    expect(() => assertSchemaVersion('members', 'members.json', [])).toThrow(SchemaVersionError);
+    expect(() => assertSchemaVersion('members', 'members.json', { schemaVersion: 99 })).toThrow('only supports');
+  });
+});
+
+describe('migrateData', () => {
+  it('should wrap members, backfill IDs and drop coordinates', () => {
+    const { data, from, to } = migrateData('members', legacyMembers);
+    const { members } = data as { members: Array<Record<string, unknown>> };
+
+    expect(from).toBe(0);
+    expect(to).toBe(SCHEMA_VERSIONS.members);
+    expect(getSchemaVersion(data)).toBe(SCHEMA_VERSIONS.members);
+    expect(members[0]).toEqual(legacyMembers[0]);
+    expect(members[1]?.id).toEqual(expect.any(String));
+    expect(members[1]).not.toHaveProperty('lat');
+  });
+
+  it('should key cities by their normalized name', () => {
+    const { data } = migrateData('cities', legacyCities);
+
+    expect((data as { cities: Record<string, { normalizedName: string }> }).cities.london?.normalizedName).toBe('london');
+  });
+
+  it('should key cities by name and country', () => {
+    const { data } = migrateData('cities', {
+      schemaVersion: 1,
+      cities: {
+        paris: { normalizedName: 'paris', displayName: 'Paris', lat: 48.8566, lng: 2.3522, countryCode: 'FR', lastUpdated: '2026-01-01' },
+        'paris-tx': { normalizedName: 'paris', displayName: 'Paris', lat: 33.6609, lng: -95.5555, region: 'TX', countryCode: 'US', lastUpdated: '2026-01-01' },
+      },
+    });
+
+    expect(Object.keys((data as { cities: Record<string, unknown> }).cities)).toEqual(['paris, fr', 'paris, tx, us']);
+  });
+
+  it('should pin members to their city only when the name is unambiguous', () => {
+    const cities = [
+      { normalizedName: 'london', displayName: 'London', lat: 51.5074, lng: -0.1278, countryCode: 'GB', lastUpdated: '2026-01-01' },
+      { normalizedName: 'paris', displayName: 'Paris', lat: 48.8566, lng: 2.3522, countryCode: 'FR', lastUpdated: '2026-01-01' },
+      { normalizedName: 'paris', displayName: 'Paris', lat: 33.6609, lng: -95.5555, region: 'TX', countryCode: 'US', lastUpdated: '2026-01-01' },
+    ];
+    const { data } = migrateData('members', legacyMembers, 'members.json', { cities });
+    const { members } = data as { members: Array<Record<string, unknown>> };
+
+    expect(members[0]).not.toHaveProperty('cityKey');
+    expect(members[1]?.cityKey).toBe('london, gb');
+  });
+
+  it('should leave current data untouched', () => {
+    const current = { schemaVersion: SCHEMA_VERSIONS.meetings, ...legacyMeeting };
+    const result = migrateData('meetings', current);
+
+    expect(result.data).toBe(current);
+    expect(result.applied).toEqual([]);
+  });
+
+  it('should reject an unversioned members file that is not a members array', () => {
+    expect(() => migrateData('members', { alice: legacyMembers[0] }, 'members.json')).toThrow(CorruptDataError);
+  });
+
+  it('should refuse data from a newer app', () => {
+    expect(() => migrateData('meetings', { ...legacyMeeting, schemaVersion: 99 })).toThrow(SchemaVersionError);
+  });
+});
+
+describe('migrateDataDir', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpm-migrate-'));
+    fs.mkdirSync(path.join(tmpDir, 'meetings'));
+    fs.writeFileSync(path.join(tmpDir, 'members.json'), JSON.stringify(legacyMembers));
+    fs.writeFileSync(path.join(tmpDir, 'cities.json'), JSON.stringify(legacyCities));
+    fs.writeFileSync(path.join(tmpDir, 'meetings', `${legacyMeeting.id}.json`), JSON.stringify(legacyMeeting));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should only report changes on a dry run', () => {
+    const results = migrateDataDir(tmpDir, { dryRun: true });
+
+    expect(results.map(r => r.kind)).toEqual(['members', 'cities', 'meetings']);
+    expect(results.every(r => r.from === 0 && !r.backupPath)).toBe(true);
+    expect(JSON.parse(fs.readFileSync(path.join(tmpDir, 'members.json'), 'utf8'))).toEqual(legacyMembers);
+  });
+
+  it('should back up and upgrade every file so the store can read it', () => {
+    const results = migrateDataDir(tmpDir);
+
+    for (const result of results) {
+      expect(path.dirname(result.backupPath!)).toBe(path.join(path.dirname(result.filePath), 'backups'));
+      expect(fs.readFileSync(result.backupPath!, 'utf8')).not.toContain('schemaVersion');
+    }
+    const stores = createJsonStores(tmpDir);
+    expect(stores.members.list().map(m => m.name)).toEqual(['Alice', 'Bob']);
+    expect(stores.meetings.get(legacyMeeting.id)).toEqual(legacyMeeting);
+  });
+
+  it('should do nothing on a second run', () => {
+    migrateDataDir(tmpDir);
+    const results = migrateDataDir(tmpDir);
+
+    expect(results.every(r => r.from === r.to && !r.backupPath)).toBe(true);
+  });
+});
@@ -0,0 +1,289 @@
+// src/lib/migrations.ts
+/**
+ * Data Schema Versions & Migrations
+ *
+ * Every JSON data file records the schema version it was written with:
+ * - members.json           - { schemaVersion, members: Member[] }
+ * - cities.json            - { schemaVersion, cities: { [cityKey]: City } }
+ * - meetings/{id}.json     - { schemaVersion, ...Meeting }
+ *
+ * Files written before versioning (a bare members array, a bare cities map,
+ * a meeting without schemaVersion) are version 0.
+ *
+ * The read path only accepts the current version (see schemaVersion.ts) and
+ * throws SchemaVersionError otherwise. Older files are upgraded with
+ * `npm run migrate`, which applies each step in order and backs up every file
+ * it rewrites to a backups/ directory next to it (see backups.ts).
+ *
+ * Changing the data model:
+ * 1. Bump the version in SCHEMA_VERSIONS (schemaVersion.ts)
+ * 2. Append a step to the matching list in MIGRATIONS that upgrades the
+ *    previous version's data
+ * Don't add compatibility fallbacks to the read path.
+ *
+ * Steps that need to know the cities (pinning member cities to a city key)
+ * get them in the MigrationContext.
+ */
+import fs from 'fs';
+import path from 'path';
+import { getBackupDir, writeBackup } from './backups';
+import { getCityKey, matchCities } from './cities';
+import { CorruptDataError, readJsonFile, withFileLock, writeJsonFileAtomic } from './dataFile';
+import { getSchemaVersion, SCHEMA_VERSIONS, SchemaVersionError, type DataKind } from './schemaVersion';
+import { generateId } from './uuid';
+import { CitySchema, type City } from './validation';
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (data: unknown): data is JsonObject =>
+  typeof data === 'object' && data !== null && !Array.isArray(data);
+
+
+// ===== Migration Steps =====
+
+/**
+ * What a migration step may need besides the file it upgrades
+ */
+export interface MigrationContext {
+  /** Known cities (current schema), for steps that resolve city names */
+  cities: City[];
+}
+
+/**
+ * One upgrade step: turns data at version `to - 1` into data at version `to`
+ * (including the new schemaVersion)
+ */
+export interface Migration {
+  to: number;
+  description: string;
+  /** @throws CorruptDataError if the data isn't what the previous version wrote */
+  up: (data: unknown, context: MigrationContext, filePath: string) => unknown;
+}
+
+/**
+ * Key of the only city with this name, if exactly one is known
+ */
+function pinCityKey(cities: City[], city: unknown): string | undefined {
+  const matches = typeof city === 'string' ? matchCities(cities, { name: city }) : [];
+  return matches.length === 1 ? getCityKey(matches[0]!) : undefined;
+}
+
+/**
+ * Adds a cityKey to a member or past city whose name matches exactly one city
+ * Entries that already have one, or whose city is unknown or ambiguous, are left as they are.
+ */
+export function pinMemberCity<T extends { city?: unknown; cityKey?: unknown }>(entry: T, cities: City[]): T {
+  if (entry.cityKey) return entry;
+  const cityKey = pinCityKey(cities, entry.city);
+  return cityKey ? { ...entry, cityKey } : entry;
+}
+
+export const MIGRATIONS: Record<DataKind, Migration[]> = {
+  members: [
+    {
+      to: 1,
+      description: 'Wrap members in a versioned file, give every member an ID and drop stored coordinates',
+      up(data, _context, filePath) {
+        // Unversioned registries were bare arrays; anything else isn't one
+        if (!Array.isArray(data)) {
+          throw new CorruptDataError(filePath, 'expected an array of members');
+        }
+        const now = new Date().toISOString();
+        const members = data as JsonObject[];
+        return {
+          schemaVersion: 1,
+          members: members.map(member => ({
+            id: typeof member.id === 'string' && member.id ? member.id : generateId(),
+            name: member.name,
+            city: member.city,
+            ...(member.cityHistory ? { cityHistory: member.cityHistory } : {}),
+            createdAt: member.createdAt ?? now,
+          })),
+        };
+      },
+    },
+    {
+      to: 2,
+      description: 'Pin every member city (and past city) that names exactly one city to its city key',
+      up(data, { cities }) {
+        const members = ((data as JsonObject).members ?? []) as JsonObject[];
+        return {
+          ...(data as JsonObject),
+          schemaVersion: 2,
+          members: members.map(member => {
+            const pinned = pinMemberCity(member, cities);
+            const history = Array.isArray(member.cityHistory) ? (member.cityHistory as JsonObject[]) : null;
+            return history ? { ...pinned, cityHistory: history.map(past => pinMemberCity(past, cities)) } : pinned;
+          }),
+        };
+      },
+    },
+  ],
+  meetings: [
+    {
+      to: 1,
+      description: 'Add schemaVersion to meeting files',
+      up(data) {
+        return { schemaVersion: 1, ...(data as JsonObject) };
+      },
+    },
+  ],
+  cities: [
+    {
+      to: 1,
+      description: 'Wrap cities in a versioned file and key every city by its normalizedName',
+      up(data) {
+        const cities = Object.entries(isObject(data) ? data : {}).map(([key, city]) => {
+          const entry = city as JsonObject;
+          const normalizedName = typeof entry.normalizedName === 'string' ? entry.normalizedName : key;
+          return [normalizedName, { ...entry, normalizedName }] as const;
+        });
+        return { schemaVersion: 1, cities: Object.fromEntries(cities) };
+      },
+    },
+    {
+      to: 2,
+      description: 'Key cities by name and country code ("paris, fr") so cities can share a name',
+      up(data) {
+        const cities = Object.values(((data as JsonObject).cities ?? {}) as Record<string, City>);
+        return {
+          ...(data as JsonObject),
+          schemaVersion: 2,
+          cities: Object.fromEntries(
+            cities.map(city => [getCityKey(city), city] as const).sort(([a], [b]) => a.localeCompare(b))
+          ),
+        };
+      },
+    },
+  ],
+};
+
+/**
+ * Upgrades parsed file content to the current schema version
+ *
+ * @param kind - Which kind of data file the content came from
+ * @param data - Parsed file content
+ * @param filePath - Used in error messages
+ * @param context - Cities for steps that need them (default: none known)
+ * @returns Upgraded data plus the versions it went from/to and the steps applied
+ * @throws CorruptDataError if the data isn't a data file of this kind
+ * @throws SchemaVersionError if the data is newer than this app supports
+ */
+export function migrateData(
+  kind: DataKind,
+  data: unknown,
+  filePath: string = kind,
+  context: MigrationContext = { cities: [] }
+) {
+  const from = getSchemaVersion(data);
+  const to = SCHEMA_VERSIONS[kind];
+  if (from > to) {
+    throw new SchemaVersionError(filePath, from, to);
+  }
+
+  const steps = MIGRATIONS[kind].filter(step => step.to > from && step.to <= to);
+  const migrated = steps.reduce((current, step) => step.up(current, context, filePath), data);
+
+  return { data: migrated, from, to, applied: steps.map(step => step.description) };
+}
+
+// ===== Migration Runner =====
+
+/**
+ * Outcome of migrating one file
+ */
+export interface MigrationResult {
+  filePath: string;
+  kind: DataKind;
+  from: number;
+  to: number;
+  applied: string[];
+  backupPath?: string;
+}
+
+/**
+ * Reads the cities in cities.json files, upgraded in memory to the current schema
+ * Missing files are skipped; invalid entries are left out.
+ *
+ * @throws CorruptDataError if a file can't be parsed
+ * @throws SchemaVersionError if a file is newer than this app supports
+ */
+export function readCitiesForMigration(filePaths: string[]): City[] {
+  return filePaths.flatMap(filePath => {
+    const content = readJsonFile(filePath);
+    if (content === undefined) {
+      return [];
+    }
+    const { data } = migrateData('cities', content, filePath);
+    return Object.values(((data as JsonObject).cities ?? {}) as Record<string, unknown>).flatMap(city => {
+      const parsed = CitySchema.safeParse(city);
+      return parsed.success ? [parsed.data] : [];
+    });
+  });
+}
+
+/**
+ * Migrates one data file in place, backing it up first
+ * Files already at the current version are left untouched.
+ *
+ * @param kind - Kind of data file
+ * @param filePath - File to migrate
+ * @param options.dryRun - Report what would change without writing
+ * @param options.context - Cities for steps that need them
+ * @returns The result, or null if the file doesn't exist
+ * @throws CorruptDataError if the file can't be parsed or upgraded
+ * @throws SchemaVersionError if the file is newer than this app supports
+ */
+export function migrateFile(
+  kind: DataKind,
+  filePath: string,
+  { dryRun = false, context }: { dryRun?: boolean; context?: MigrationContext } = {}
+): MigrationResult | null {
+  return withFileLock(filePath, () => {
+    const content = readJsonFile(filePath);
+    if (content === undefined) {
+      return null;
+    }
+
+    const { data, from, to, applied } = migrateData(kind, content, filePath, context);
+    const result: MigrationResult = { filePath, kind, from, to, applied };
+    if (from === to || dryRun) {
+      return result;
+    }
+
+    result.backupPath = writeBackup(getBackupDir(filePath), path.basename(filePath), fs.readFileSync(filePath));
+    writeJsonFileAtomic(filePath, data);
+    return result;
+  });
+}
+
+/**
+ * Migrates every data file in a data directory
+ * (members.json, cities.json and meetings/*.json; missing files are skipped)
+ * Member cities are pinned against the directory's cities.json plus
+ * `citiesFiles` (e.g. the bundled src/data/cities.json).
+ *
+ * @param dataDir - Directory holding the data files (e.g. src/data)
+ * @param options.dryRun - Report what would change without writing
+ * @param options.citiesFiles - Other cities.json files members may refer to
+ */
+export function migrateDataDir(
+  dataDir: string,
+  { dryRun = false, citiesFiles = [] }: { dryRun?: boolean; citiesFiles?: string[] } = {}
+): MigrationResult[] {
+  const meetingsDir = path.join(dataDir, 'meetings');
+  const meetingFiles = fs.existsSync(meetingsDir)
+    ? fs.readdirSync(meetingsDir).filter(f => f.endsWith('.json')).sort()
+    : [];
+
+  const targets: Array<[DataKind, string]> = [
+    ['members', path.join(dataDir, 'members.json')],
+    ['cities', path.join(dataDir, 'cities.json')],
+    ...meetingFiles.map((f): [DataKind, string] => ['meetings', path.join(meetingsDir, f)]),
+  ];
+
+  const context = { cities: readCitiesForMigration([path.join(dataDir, 'cities.json'), ...citiesFiles]) };
+  return targets
+    .map(([kind, filePath]) => migrateFile(kind, filePath, { dryRun, context }))
+    .filter((result): result is MigrationResult => result !== null);
+}
@@ -0,0 +1,123 @@
+// src/lib/ogImage.ts
+/**
+ * Link Preview Cards (Open Graph images)
+ *
+ * A 1200x630 PNG per meeting - title, date, participant/city/country counts
+ * over a small map - for the og:image / twitter:image tags, so export links
+ * pasted into Slack or Discord show a preview.
+ *
+ * Cards are rendered when an export is published (exportPublisher.ts) and
+ * saved next to the HTML, so they work on static hosting. They can also be
+ * fetched with GET /api/meetings/{id}/export?format=og.
+ */
+import { escapeXml } from './escape';
+import { exportFilename } from './exportRenderer';
+import { siteConfig } from './siteConfig';
+import { MAP_BACKGROUND, renderMapLayers, svgToPng, type MapImage } from './mapRenderer';
+import {
+  describeMeeting,
+  getMeetingVisualization,
+  getVisualizationStats,
+  type MeetingVisualization,
+} from './visualization';
+
+export const OG_IMAGE_WIDTH = 1200;
+export const OG_IMAGE_HEIGHT = 630;
+
+/** Width of the map on the card (2:1) */
+const MAP_WIDTH = 1000;
+
+/** Longest title line before wrapping, in characters */
+const TITLE_LINE_LENGTH = 26;
+
+/**
+ * Splits a title into at most two lines on word boundaries,
+ * shortening the second with an ellipsis if needed
+ */
+function wrapTitle(title: string): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of title.split(/\s+/).filter(Boolean)) {
+    if (current && `${current} ${word}`.length > TITLE_LINE_LENGTH) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  lines.push(current);
+
+  if (lines.length <= 2) {
+    return lines;
+  }
+  const second = lines.slice(1).join(' ');
+  return [lines[0]!, `${second.slice(0, TITLE_LINE_LENGTH - 1).trimEnd()}…`];
+}
+
+/**
+ * Builds the card as SVG
+ */
+export function renderOgCardSvg(visualization: MeetingVisualization): string {
+  const { meeting } = visualization;
+  const summary = describeMeeting(getVisualizationStats(visualization));
+  const titleLines = wrapTitle(meeting.title);
+
+  const text = (y: number, size: number, content: string, weight = 'normal', opacity = 1) =>
+    `<text x="64" y="${y}" font-family="sans-serif" font-size="${size}" font-weight="${weight}" fill="#ffffff" fill-opacity="${opacity}">${escapeXml(content)}</text>`;
+
+  // Map on the right, faded into the text panel on the left
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${OG_IMAGE_WIDTH}" height="${OG_IMAGE_HEIGHT}" viewBox="0 0 ${OG_IMAGE_WIDTH} ${OG_IMAGE_HEIGHT}">
+  <defs>
+    <linearGradient id="fade" x1="0" x2="1" y1="0" y2="0">
+      <stop offset="0.35" stop-color="${MAP_BACKGROUND}" stop-opacity="0.95"/>
+      <stop offset="0.7" stop-color="${MAP_BACKGROUND}" stop-opacity="0"/>
+    </linearGradient>
+  </defs>
+  <rect width="100%" height="100%" fill="${MAP_BACKGROUND}"/>
+  <g transform="translate(${OG_IMAGE_WIDTH - MAP_WIDTH}, ${(OG_IMAGE_HEIGHT - MAP_WIDTH / 2) / 2})">
+    ${renderMapLayers(visualization, { width: MAP_WIDTH, height: MAP_WIDTH / 2 })}
+  </g>
+  <rect width="100%" height="100%" fill="url(#fade)"/>
+  ${titleLines.map((line, i) => text(190 + i * 72, 64, line, 'bold')).join('\n  ')}
+  ${text(190 + titleLines.length * 72 + 10, 36, meeting.date, 'normal', 0.85)}
+  ${text(190 + titleLines.length * 72 + 70, 32, summary, 'normal', 0.85)}
+  ${text(OG_IMAGE_HEIGHT - 48, 26, siteConfig.communityName, 'bold', 0.6)}
+</svg>
+`;
+}
+
+/**
+ * Renders the card as a PNG (palette-quantized, ~60KB)
+ */
+export async function renderOgCardPng(visualization: MeetingVisualization): Promise<Buffer> {
+  return svgToPng(renderOgCardSvg(visualization), { palette: true });
+}
+
+/**
+ * File name for a meeting's card: "{Title}-{date}.og.png"
+ */
+export function ogImageFilename(meeting: MeetingVisualization['meeting']): string {
+  return exportFilename(meeting, 'og.png');
+}
+
+/**
+ * Renders a stored meeting's link preview card
+ *
+ * @param meetingId - Meeting ID
+ * @returns The PNG card, or null if the meeting doesn't exist
+ */
+export async function renderMeetingOgImage(meetingId: string): Promise<MapImage | null> {
+  const visualization = getMeetingVisualization(meetingId);
+  if (!visualization) {
+    return null;
+  }
+
+  return {
+    meetingId: visualization.meeting.id,
+    filename: ogImageFilename(visualization.meeting),
+    contentType: 'image/png',
+    body: await renderOgCardPng(visualization),
+    unknownCities: visualization.unknownCities,
+  };
+}
@@ -0,0 +1,62 @@
+// src/lib/schemaVersion.ts
+/**
+ * Data File Schema Versions
+ *
+ * The versions the app reads and writes, and the read-path check. Kept free
+ * of Node imports so cities.ts can use it from client components; the
+ * upgrade steps and file runner live in migrations.ts.
+ */
+
+export type DataKind = 'members' | 'meetings' | 'cities';
+
+/**
+ * Schema version the app reads and writes, per data file kind
+ */
+export const SCHEMA_VERSIONS: Record<DataKind, number> = {
+  members: 2,
+  meetings: 1,
+  cities: 2,
+};
+
+/**
+ * Thrown when a data file was written with a different schema version
+ * Older files need `npm run migrate`; newer ones need a newer app.
+ */
+export class SchemaVersionError extends Error {
+  constructor(
+    public readonly filePath: string,
+    public readonly found: number,
+    public readonly expected: number
+  ) {
+    super(
+      found < expected
+        ? `Data file ${filePath} has schema version ${found}, expected ${expected}. Run "npm run migrate" to upgrade it.`
+        : `Data file ${filePath} has schema version ${found}, but this app only supports up to ${expected}`
+    );
+    this.name = 'SchemaVersionError';
+  }
+}
+
+// ===== Version Helpers =====
+
+/**
+ * Reads the schema version of parsed file content (0 when unversioned)
+ */
+export function getSchemaVersion(data: unknown): number {
+  if (typeof data === 'object' && data !== null && !Array.isArray(data) && 'schemaVersion' in data) {
+    return typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+  }
+  return 0;
+}
+
+/**
+ * Ensures parsed file content is at the current schema version
+ *
+ * @throws SchemaVersionError if it isn't
+ */
+export function assertSchemaVersion(kind: DataKind, filePath: string, data: unknown): void {
+  const found = getSchemaVersion(data);
+  if (found !== SCHEMA_VERSIONS[kind]) {
+    throw new SchemaVersionError(filePath, found, SCHEMA_VERSIONS[kind]);
+  }
+}
@@ -0,0 +1,52 @@
+// src/lib/siteConfig.test.ts
+import { describe, it, expect } from 'vitest';
+import { resolveSiteConfig, siteConfig } from './siteConfig';
+
+describe('resolveSiteConfig', () => {
+  it('should fill in defaults for everything but the public URL', () => {
+    const config = resolveSiteConfig({ publicUrl: 'https://maps.example.org' });
+
+    expect(config).toMatchObject({
+      communityName: 'Global Presence Map',
+      publicUrl: 'https://maps.example.org/',
+      exportsUrl: 'https://maps.example.org/exports/',
+      exportDir: 'public/exports',
+      defaultMeetingTitle: 'Untitled Meeting',
+      embedFrameAncestors: '*',
+      colors: { point: 'orange', arcStart: '#ffaa00', arcEnd: '#ff6600', country: '#ff9900', countryLight: '#ea580c' },
+    });
+    expect(config.textures.globe).toMatch(/earth-blue-marble\.jpg$/);
+  });
+
+  it('should put exports under the public URL path', () => {
+    expect(resolveSiteConfig({ publicUrl: 'https://example.github.io/Presence/' }).exportsUrl).toBe(
+      'https://example.github.io/Presence/exports/'
+    );
+    expect(
+      resolveSiteConfig({ publicUrl: 'https://example.org/', exportsUrl: 'https://cdn.example.org/globes' }).exportsUrl
+    ).toBe('https://cdn.example.org/globes/');
+  });
+
+  it('should let the environment override the public URL', () => {
+    const config = resolveSiteConfig(
+      { publicUrl: 'https://example.github.io/Presence/' },
+      { publicUrl: 'https://presence.example.org/' }
+    );
+
+    expect(config.exportsUrl).toBe('https://presence.example.org/exports/');
+  });
+
+  it('should name the invalid fields', () => {
+    expect(() => resolveSiteConfig({})).toThrow(/publicUrl/);
+    expect(() => resolveSiteConfig({ publicUrl: 'https://example.org/', colors: { point: 'red" onload="x' } })).toThrow(
+      'Invalid site.config.json - colors.point: Expected a CSS color'
+    );
+    expect(() => resolveSiteConfig({ publicUrl: 'https://example.org/', colors: { country: 'orange' } })).toThrow(
+      'Invalid site.config.json - colors.country: Expected a hex color'
+    );
+  });
+
+  it('should load the bundled site.config.json', () => {
+    expect(siteConfig.exportsUrl).toBe(new URL('exports/', siteConfig.publicUrl).href);
+  });
+});
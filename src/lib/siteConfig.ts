@@ -0,0 +1,96 @@
+// src/lib/siteConfig.ts
+/**
+ * Site Configuration
+ *
+ * The settings a team changes to run the map for its own community, kept in
+ * site.config.json at the repo root:
+ * - communityName: shown in page titles, link previews and the gallery
+ * - publicUrl: where the site is served (the static export's basePath comes
+ *   from its path); exportsUrl defaults to "{publicUrl}exports/"
+ * - exportDir: where published exports are written (default public/exports)
+ * - defaultMeetingTitle: used when a meeting is saved without a name
+ * - embedFrameAncestors: sites allowed to frame /embed/* (next.config.js)
+ * - colors and textures: the globe in the app, exports and map images
+ *
+ * Deployment-specific values can be overridden from the environment
+ * (validated by src/env.js, read through its env): NEXT_PUBLIC_SITE_URL for publicUrl, EXPORT_DIR
+ * for exportDir (see defaultExportDir) and EMBED_FRAME_ANCESTORS.
+ *
+ * Client components import this too, so it only holds public settings.
+ */
+import { z } from 'zod';
+import { env } from '~/env';
+import siteConfigFile from '../../site.config.json';
+
+// CSS colors ("orange", "#ff9900", "rgb(255, 153, 0)"); they go into SVG attributes and styles unescaped
+const ColorSchema = z
+  .string()
+  .trim()
+  .regex(/^[#\w(),.%\s-]+$/, 'Expected a CSS color');
+
+// Hex colors ("#f90", "#ff9900"), for colors the globe shades with its own opacity
+const HexColorSchema = z
+  .string()
+  .trim()
+  .regex(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i, 'Expected a hex color');
+
+export const SiteConfigSchema = z.object({
+  communityName: z.string().trim().min(1).default('Global Presence Map'),
+  publicUrl: z.string().url(),
+  exportsUrl: z.string().url().optional(),
+  exportDir: z.string().trim().min(1).default('public/exports'),
+  defaultMeetingTitle: z.string().trim().min(1).max(200).default('Untitled Meeting'),
+  embedFrameAncestors: z.string().trim().min(1).default('*'),
+  colors: z
+    .object({
+      point: ColorSchema.default('orange'),
+      arcStart: ColorSchema.default('#ffaa00'),
+      arcEnd: ColorSchema.default('#ff6600'),
+      accent: ColorSchema.default('#ff9900'),
+      // Countries with participants on the dark and light globe
+      country: HexColorSchema.default('#ff9900'),
+      countryLight: HexColorSchema.default('#ea580c'),
+    })
+    .default({}),
+  textures: z
+    .object({
+      globe: z.string().url().default('https://unpkg.com/three-globe/example/img/earth-blue-marble.jpg'),
+      globeLight: z.string().url().default('https://unpkg.com/three-globe/example/img/earth-day.jpg'),
+      background: z.string().url().default('https://unpkg.com/three-globe/example/img/night-sky.png'),
+    })
+    .default({}),
+});
+
+export type SiteConfig = Omit<z.infer<typeof SiteConfigSchema>, 'exportsUrl'> & {
+  /** Public address of the exports directory (always ends in "/") */
+  exportsUrl: string;
+};
+
+const withTrailingSlash = (url: string) => (url.endsWith('/') ? url : `${url}/`);
+
+/**
+ * Validates a site config and applies environment overrides
+ *
+ * @throws Error naming the invalid fields
+ */
+export function resolveSiteConfig(input: unknown, overrides: { publicUrl?: string } = {}): SiteConfig {
+  const parsed = SiteConfigSchema.safeParse({
+    ...(input as Record<string, unknown>),
+    ...(overrides.publicUrl ? { publicUrl: overrides.publicUrl } : {}),
+  });
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid site.config.json - ${problems.join('; ')}`);
+  }
+
+  const publicUrl = withTrailingSlash(parsed.data.publicUrl);
+  return {
+    ...parsed.data,
+    publicUrl,
+    exportsUrl: withTrailingSlash(parsed.data.exportsUrl ?? new URL('exports/', publicUrl).href),
+  };
+}
+
+export const siteConfig: SiteConfig = resolveSiteConfig(siteConfigFile, {
+  publicUrl: env.NEXT_PUBLIC_SITE_URL,
+});
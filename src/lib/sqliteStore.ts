@@ -0,0 +1,441 @@
+// src/lib/sqliteStore.ts
+/**
+ * SQLite Storage Backend
+ *
+ * Stores members, meetings and runtime-added cities in a single SQLite
+ * database via better-sqlite3.
+ * Unlike the JSON backend, adding a member is a single-row INSERT instead of
+ * rewriting the whole registry, and the database can live anywhere writable.
+ *
+ * Tables:
+ * - members(id, name, city, city_history, created_at, city_key) - insertion order = rowid,
+ *   city_history is a JSON array (NULL when the member never moved)
+ * - meetings(id, title, date, participant_ids, created_at) - participant_ids is a JSON array
+ * - cities(key, normalized_name, display_name, lat, lng, region, country_code, last_updated, source, aliases) -
+ *   cities added or edited at runtime, by city key; the curated ones stay in
+ *   src/data/cities.json. aliases is a JSON array (NULL when there are none)
+ *
+ * Enable with DATA_STORE=sqlite (see store.ts).
+ */
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { getBackupDir, writeBackup } from './backups';
+import { getBundledCities, getCityKey } from './cities';
+import { pinMemberCity } from './migrations';
+import { SCHEMA_VERSIONS } from './schemaVersion';
+import { CitySchema, validateMeeting, validateMember, type City, type Meeting, type Member } from './validation';
+import type { CityStore, MeetingStore, MemberStore, Stores } from './store';
+
+interface MemberRow {
+  id: string;
+  name: string;
+  city: string;
+  city_history: string | null;
+  created_at: string;
+  city_key: string | null;
+}
+
+interface MeetingRow {
+  id: string;
+  title: string;
+  date: string;
+  participant_ids: string;
+  created_at: string | null;
+}
+
+interface CityRow {
+  key: string;
+  normalized_name: string;
+  display_name: string;
+  lat: number;
+  lng: number;
+  region: string | null;
+  country_code: string | null;
+  last_updated: string | null;
+  source: string | null;
+  aliases: string | null;
+}
+
+/**
+ * Schema migrations, applied in order on open
+ * PRAGMA user_version records how many have run. Databases created before
+ * versioning report 0 but may already have the tables, hence IF NOT EXISTS
+ * and the column check.
+ */
+const SQLITE_MIGRATIONS: Array<(db: Database.Database) => void> = [
+  // 1: initial tables
+  db => db.exec(`
+    CREATE TABLE IF NOT EXISTS members (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      city TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS meetings (
+      id TEXT PRIMARY KEY,
+      title TEXT NOT NULL,
+      date TEXT NOT NULL,
+      participant_ids TEXT NOT NULL,
+      created_at TEXT
+    );
+  `),
+  // 2: location history
+  db => {
+    const memberColumns = db.prepare<[], { name: string }>('PRAGMA table_info(members)').all();
+    if (!memberColumns.some(column => column.name === 'city_history')) {
+      db.exec('ALTER TABLE members ADD COLUMN city_history TEXT');
+    }
+  },
+  // 3: runtime-added cities
+  db => db.exec(`
+    CREATE TABLE IF NOT EXISTS cities (
+      normalized_name TEXT PRIMARY KEY,
+      display_name TEXT NOT NULL,
+      lat REAL NOT NULL,
+      lng REAL NOT NULL,
+      country_code TEXT,
+      last_updated TEXT,
+      source TEXT
+    );
+  `),
+  // 4: cities keyed by name + country, member cities pinned to a city key
+  db => {
+    const cities = db.prepare<[], CityRow>('SELECT * FROM cities').all().map(rowToCity);
+    db.exec(`
+      DROP TABLE cities;
+      CREATE TABLE cities (
+        key TEXT PRIMARY KEY,
+        normalized_name TEXT NOT NULL,
+        display_name TEXT NOT NULL,
+        lat REAL NOT NULL,
+        lng REAL NOT NULL,
+        region TEXT,
+        country_code TEXT,
+        last_updated TEXT,
+        source TEXT
+      );
+      ALTER TABLE members ADD COLUMN city_key TEXT;
+    `);
+    const insert = db.prepare<
+      [string, string, string, number, number, string | null, string | null, string | null, string | null]
+    >(`
+      INSERT OR REPLACE INTO cities (key, normalized_name, display_name, lat, lng, region, country_code, last_updated, source)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const city of cities) {
+      insert.run(
+        getCityKey(city),
+        city.normalizedName,
+        city.displayName,
+        city.lat,
+        city.lng,
+        city.region ?? null,
+        city.countryCode ?? null,
+        city.lastUpdated ?? null,
+        city.source ?? null
+      );
+    }
+
+    const known = [...getBundledCities(), ...cities];
+    const pin = db.prepare<[string | null, string | null, string]>(
+      'UPDATE members SET city_key = ?, city_history = ? WHERE id = ?'
+    );
+    for (const row of db.prepare<[], MemberRow>('SELECT * FROM members').all()) {
+      const member = pinMemberCity(rowToMember(row), known);
+      const history = member.cityHistory?.map(past => pinMemberCity(past, known));
+      pin.run(member.cityKey ?? null, history?.length ? JSON.stringify(history) : null, member.id);
+    }
+  },
+  // 5: city aliases
+  db => db.exec('ALTER TABLE cities ADD COLUMN aliases TEXT'),
+];
+
+// ===== Row Mapping =====
+
+function rowToMember(row: MemberRow): Member {
+  return validateMember({
+    id: row.id,
+    name: row.name,
+    city: row.city,
+    ...(row.city_key ? { cityKey: row.city_key } : {}),
+    ...(row.city_history ? { cityHistory: JSON.parse(row.city_history) as unknown } : {}),
+    createdAt: row.created_at,
+  });
+}
+
+/**
+ * @throws Error (incl. ZodError) if the row doesn't hold a valid meeting
+ */
+function parseMeetingRow(row: MeetingRow): Meeting {
+  return validateMeeting({
+    id: row.id,
+    title: row.title,
+    date: row.date,
+    participantIds: JSON.parse(row.participant_ids) as unknown,
+    ...(row.created_at ? { createdAt: row.created_at } : {}),
+  });
+}
+
+function rowToCity(row: CityRow): City {
+  return CitySchema.parse({
+    normalizedName: row.normalized_name,
+    displayName: row.display_name,
+    lat: row.lat,
+    lng: row.lng,
+    ...(row.region ? { region: row.region } : {}),
+    ...(row.country_code ? { countryCode: row.country_code } : {}),
+    ...(row.last_updated ? { lastUpdated: row.last_updated } : {}),
+    ...(row.source ? { source: row.source } : {}),
+    ...(row.aliases ? { aliases: JSON.parse(row.aliases) as unknown } : {}),
+  });
+}
+
+function rowToMeeting(row: MeetingRow): Meeting | null {
+  try {
+    return parseMeetingRow(row);
+  } catch (error) {
+    console.error(`Error loading meeting ${row.id}:`, error);
+    return null;
+  }
+}
+
+// ===== Database =====
+
+/**
+ * Opens (or creates) the database and migrates it to the current schema
+ * An existing database file is backed up to a backups/ directory next to
+ * it before pending migrations run.
+ *
+ * @param dbPath - Database file path, or ":memory:" for a throwaway database
+ * @throws Error if the database was created by a newer version of the app
+ */
+export function openDatabase(dbPath: string): Database.Database {
+  const isFile = dbPath !== ':memory:';
+  if (isFile) {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  }
+  const existed = isFile && fs.existsSync(dbPath);
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL');
+
+  const version = db.pragma('user_version', { simple: true }) as number;
+  if (version > SQLITE_MIGRATIONS.length) {
+    db.close();
+    throw new Error(
+      `Database ${dbPath} has schema version ${version}, but this app only supports up to ${SQLITE_MIGRATIONS.length}`
+    );
+  }
+
+  if (version < SQLITE_MIGRATIONS.length) {
+    if (existed) {
+      writeBackup(getBackupDir(dbPath), path.basename(dbPath), db.serialize());
+    }
+    db.transaction(() => {
+      SQLITE_MIGRATIONS.slice(version).forEach(migrate => migrate(db));
+      db.pragma(`user_version = ${SQLITE_MIGRATIONS.length}`);
+    })();
+  }
+
+  return db;
+}
+
+/**
+ * Creates a member store on an open database
+ */
+export function createSqliteMemberStore(db: Database.Database): MemberStore {
+  const selectAll = db.prepare<[], MemberRow>('SELECT * FROM members ORDER BY rowid');
+  const selectOne = db.prepare<[string], MemberRow>('SELECT * FROM members WHERE id = ?');
+  const insertOne = db.prepare<[string, string, string, string | null, string, string | null]>(
+    'INSERT INTO members (id, name, city, city_history, created_at, city_key) VALUES (?, ?, ?, ?, ?, ?)'
+  );
+  const deleteAll = db.prepare('DELETE FROM members');
+
+  const insert = (member: Member) => {
+    insertOne.run(
+      member.id,
+      member.name,
+      member.city,
+      member.cityHistory?.length ? JSON.stringify(member.cityHistory) : null,
+      member.createdAt,
+      member.cityKey ?? null
+    );
+  };
+
+  const replaceAll = db.transaction((members: Member[]) => {
+    deleteAll.run();
+    members.forEach(insert);
+  });
+
+  return {
+    list() {
+      return selectAll.all().map(rowToMember);
+    },
+    get(id) {
+      const row = selectOne.get(id);
+      return row ? rowToMember(row) : null;
+    },
+    insert,
+    replaceAll(members) {
+      replaceAll(members);
+    },
+    transaction(fn) {
+      // IMMEDIATE takes the write lock up front, so concurrent processes queue
+      return db.transaction(fn).immediate();
+    },
+  };
+}
+
+/**
+ * Creates a meeting store on an open database
+ */
+export function createSqliteMeetingStore(db: Database.Database): MeetingStore {
+  const selectAll = db.prepare<[], MeetingRow>('SELECT * FROM meetings');
+  const selectOne = db.prepare<[string], MeetingRow>('SELECT * FROM meetings WHERE id = ?');
+  const upsert = db.prepare<[string, string, string, string, string | null]>(`
+    INSERT INTO meetings (id, title, date, participant_ids, created_at) VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      title = excluded.title,
+      date = excluded.date,
+      participant_ids = excluded.participant_ids,
+      created_at = excluded.created_at
+  `);
+  const insertNew = db.prepare<[string, string, string, string, string | null]>(`
+    INSERT INTO meetings (id, title, date, participant_ids, created_at) VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO NOTHING
+  `);
+  const deleteOne = db.prepare<[string]>('DELETE FROM meetings WHERE id = ?');
+
+  const toParams = (meeting: Meeting) =>
+    [
+      meeting.id,
+      meeting.title,
+      meeting.date,
+      JSON.stringify(meeting.participantIds),
+      meeting.createdAt ?? null,
+    ] as const;
+
+  return {
+    list() {
+      return selectAll
+        .all()
+        .map(rowToMeeting)
+        .filter((m): m is Meeting => m !== null);
+    },
+    get(id) {
+      const row = selectOne.get(id);
+      return row ? rowToMeeting(row) : null;
+    },
+    save(meeting) {
+      upsert.run(...toParams(meeting));
+    },
+    insert(meeting) {
+      return insertNew.run(...toParams(meeting)).changes > 0;
+    },
+    delete(id) {
+      return deleteOne.run(id).changes > 0;
+    },
+    listInvalid() {
+      return selectAll.all().flatMap(row => {
+        try {
+          parseMeetingRow(row);
+          return [];
+        } catch (error) {
+          return [{ id: row.id, reason: error instanceof Error ? error.message : String(error) }];
+        }
+      });
+    },
+    transaction(_meetingId, fn) {
+      return db.transaction(fn).immediate();
+    },
+  };
+}
+
+/** How often watch() checks the database for changes by other connections */
+const WATCH_INTERVAL_MS = 1000;
+
+/**
+ * Creates a city store on an open database
+ */
+export function createSqliteCityStore(db: Database.Database): CityStore {
+  const selectAll = db.prepare<[], CityRow>('SELECT * FROM cities ORDER BY key');
+  const remove = db.prepare<[string]>('DELETE FROM cities WHERE key = ?');
+  const upsert = db.prepare<
+    [string, string, string, number, number, string | null, string | null, string | null, string | null, string | null]
+  >(`
+    INSERT INTO cities (key, normalized_name, display_name, lat, lng, region, country_code, last_updated, source, aliases)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(key) DO UPDATE SET
+      normalized_name = excluded.normalized_name,
+      display_name = excluded.display_name,
+      lat = excluded.lat,
+      lng = excluded.lng,
+      region = excluded.region,
+      country_code = excluded.country_code,
+      last_updated = excluded.last_updated,
+      source = excluded.source,
+      aliases = excluded.aliases
+  `);
+
+  return {
+    list() {
+      return selectAll.all().map(rowToCity);
+    },
+    upsert(city) {
+      upsert.run(
+        getCityKey(city),
+        city.normalizedName,
+        city.displayName,
+        city.lat,
+        city.lng,
+        city.region ?? null,
+        city.countryCode ?? null,
+        city.lastUpdated ?? null,
+        city.source ?? null,
+        city.aliases?.length ? JSON.stringify(city.aliases) : null
+      );
+    },
+    delete(key) {
+      return remove.run(key).changes > 0;
+    },
+    backup() {
+      // Written as a cities.json, so it can also be restored into a JSON store
+      if (db.memory) return null;
+      const cities = Object.fromEntries(selectAll.all().map(row => [row.key, rowToCity(row)]));
+      const content = JSON.stringify({ schemaVersion: SCHEMA_VERSIONS.cities, cities }, null, 2);
+      return writeBackup(getBackupDir(db.name), 'cities.json', content);
+    },
+    watch(onChange) {
+      // data_version changes when another connection commits (to any table)
+      const dataVersion = () => db.pragma('data_version', { simple: true }) as number;
+      let version = dataVersion();
+      const timer = setInterval(() => {
+        if (!db.open) {
+          clearInterval(timer);
+          return;
+        }
+        const current = dataVersion();
+        if (current !== version) {
+          version = current;
+          onChange();
+        }
+      }, WATCH_INTERVAL_MS);
+      timer.unref();
+      return () => clearInterval(timer);
+    },
+  };
+}
+
+/**
+ * Creates the SQLite stores sharing one database connection
+ *
+ * @param dbPath - Database file path, or ":memory:"
+ */
+export function createSqliteStores(dbPath: string): Stores {
+  const db = openDatabase(dbPath);
+  return {
+    members: createSqliteMemberStore(db),
+    meetings: createSqliteMeetingStore(db),
+    cities: createSqliteCityStore(db),
+  };
+}
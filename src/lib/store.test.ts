@@ -0,0 +1,389 @@
+// src/lib/store.test.ts
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createStores, getStoreConfig, type Stores, type StoreKind } from './store';
+import { createJsonStores } from './jsonStore';
+import { CorruptDataError } from './dataFile';
+import { SCHEMA_VERSIONS, SchemaVersionError } from './schemaVersion';
+import { createSqliteMemberStore, openDatabase } from './sqliteStore';
+import Database from 'better-sqlite3';
+import type { City, Meeting, Member } from './validation';
+
+const alice: Member = {
+  id: 'member-alice',
+  name: 'Alice',
+  city: 'Paris',
+  createdAt: '2026-01-10T00:00:00.000Z',
+};
+
+const bob: Member = {
+  id: 'member-bob',
+  name: 'Bob',
+  city: 'London',
+  createdAt: '2026-01-11T00:00:00.000Z',
+};
+
+const meeting: Meeting = {
+  id: 'standup-2026-01-12',
+  title: 'Standup',
+  date: '2026-01-12',
+  participantIds: ['member-alice', 'member-bob'],
+  createdAt: '2026-01-12T09:00:00.000Z',
+};
+
+const lagos: City = {
+  normalizedName: 'lagos',
+  displayName: 'Lagos',
+  lat: 6.455,
+  lng: 3.3941,
+  countryCode: 'NG',
+  lastUpdated: '2026-01-12T09:00:00.000Z',
+  source: 'geocoded',
+};
+
+describe.each<StoreKind>(['json', 'sqlite'])('%s store', (kind) => {
+  let tmpDir: string;
+  let stores: Stores;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpm-store-'));
+    stores = createStores({
+      kind,
+      dataDir: tmpDir,
+      sqlitePath: path.join(tmpDir, 'db.sqlite'),
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('members', () => {
+    it('should start empty', () => {
+      expect(stores.members.list()).toEqual([]);
+    });
+
+    it('should insert and list members in insertion order', () => {
+      stores.members.insert(bob);
+      stores.members.insert(alice);
+
+      expect(stores.members.list()).toEqual([bob, alice]);
+    });
+
+    it('should get a member by ID', () => {
+      stores.members.insert(alice);
+
+      expect(stores.members.get('member-alice')).toEqual(alice);
+      expect(stores.members.get('missing')).toBeNull();
+    });
+
+    it('should round-trip city history', () => {
+      const moved = { ...alice, cityHistory: [{ city: 'London', until: '2026-03-01' }] };
+      stores.members.insert(moved);
+
+      expect(stores.members.get(moved.id)).toEqual(moved);
+    });
+
+    it('should replace the whole registry', () => {
+      stores.members.insert(alice);
+      stores.members.replaceAll([bob]);
+
+      expect(stores.members.list()).toEqual([bob]);
+    });
+
+    it('should return the transaction result and keep its writes', () => {
+      const result = stores.members.transaction(() => {
+        stores.members.insert(alice);
+        return stores.members.list().length;
+      });
+
+      expect(result).toBe(1);
+      expect(stores.members.list()).toEqual([alice]);
+    });
+  });
+
+  describe('meetings', () => {
+    it('should save and get a meeting', () => {
+      stores.meetings.save(meeting);
+
+      expect(stores.meetings.get(meeting.id)).toEqual(meeting);
+      expect(stores.meetings.get('missing')).toBeNull();
+    });
+
+    it('should overwrite a meeting with the same ID', () => {
+      stores.meetings.save(meeting);
+      stores.meetings.save({ ...meeting, title: 'Renamed' });
+
+      expect(stores.meetings.list()).toHaveLength(1);
+      expect(stores.meetings.get(meeting.id)?.title).toBe('Renamed');
+    });
+
+    it('should insert only when the ID is free', () => {
+      expect(stores.meetings.insert(meeting)).toBe(true);
+      expect(stores.meetings.insert({ ...meeting, title: 'Other' })).toBe(false);
+
+      expect(stores.meetings.get(meeting.id)?.title).toBe('Standup');
+    });
+
+    it('should keep meetings without createdAt', () => {
+      const legacy: Meeting = {
+        id: meeting.id,
+        title: meeting.title,
+        date: meeting.date,
+        participantIds: meeting.participantIds,
+      };
+      stores.meetings.save(legacy);
+
+      expect(stores.meetings.get(meeting.id)).toEqual(legacy);
+    });
+
+    it('should delete a meeting', () => {
+      stores.meetings.save(meeting);
+
+      expect(stores.meetings.delete(meeting.id)).toBe(true);
+      expect(stores.meetings.delete(meeting.id)).toBe(false);
+      expect(stores.meetings.list()).toEqual([]);
+    });
+
+    it('should return the transaction result and keep its writes', () => {
+      stores.meetings.save(meeting);
+
+      const result = stores.meetings.transaction(meeting.id, () => {
+        stores.meetings.save({ ...meeting, title: 'Renamed' });
+        return stores.meetings.get(meeting.id)?.title;
+      });
+
+      expect(result).toBe('Renamed');
+      expect(stores.meetings.get(meeting.id)?.title).toBe('Renamed');
+    });
+  });
+
+  describe('cities', () => {
+    it('should save and list cities', () => {
+      expect(stores.cities.list()).toEqual([]);
+
+      stores.cities.upsert(lagos);
+
+      expect(stores.cities.list()).toEqual([lagos]);
+    });
+
+    it('should replace a city with the same name', () => {
+      stores.cities.upsert(lagos);
+      stores.cities.upsert({ ...lagos, lat: 6.5 });
+
+      expect(stores.cities.list()).toEqual([{ ...lagos, lat: 6.5 }]);
+    });
+
+    it('should keep same-named cities in different places apart', () => {
+      const paris: City = { normalizedName: 'paris', displayName: 'Paris', lat: 48.8566, lng: 2.3522, countryCode: 'FR', lastUpdated: lagos.lastUpdated };
+      const parisTexas: City = { ...paris, lat: 33.6609, lng: -95.5555, region: 'TX', countryCode: 'US' };
+      stores.cities.upsert(paris);
+      stores.cities.upsert(parisTexas);
+
+      expect(stores.cities.list()).toHaveLength(2);
+      expect(stores.cities.list()).toContainEqual(parisTexas);
+    });
+
+    it('should keep aliases', () => {
+      const withAliases: City = { ...lagos, aliases: [{ name: 'Eko', kind: 'local' }] };
+      stores.cities.upsert(withAliases);
+
+      expect(stores.cities.list()).toEqual([withAliases]);
+    });
+
+    it('should keep cities without a country or source', () => {
+      const plain: City = { normalizedName: 'x', displayName: 'X', lat: 1, lng: 2, lastUpdated: lagos.lastUpdated };
+      stores.cities.upsert(plain);
+
+      expect(stores.cities.list()).toEqual([plain]);
+    });
+
+    it('should delete a city by key', () => {
+      stores.cities.upsert(lagos);
+
+      expect(stores.cities.delete('lagos, ng')).toBe(true);
+      expect(stores.cities.list()).toEqual([]);
+      expect(stores.cities.delete('lagos, ng')).toBe(false);
+    });
+
+    it('should back up the cities, keeping only the newest backups', () => {
+      if (kind === 'json') {
+        expect(stores.cities.backup()).toBeNull();
+      }
+      stores.cities.upsert(lagos);
+
+      const backups = [1, 2, 3, 4].map(() => stores.cities.backup()!);
+
+      expect(fs.readdirSync(path.join(tmpDir, 'backups')).sort()).toEqual(backups.slice(1).map(file => path.basename(file)).sort());
+      const saved = JSON.parse(fs.readFileSync(backups[3]!, 'utf8')) as { schemaVersion: number; cities: unknown };
+      expect(saved).toEqual({ schemaVersion: SCHEMA_VERSIONS.cities, cities: { 'lagos, ng': lagos } });
+    });
+
+    it('should notice cities changed by another process', async () => {
+      stores.cities.upsert(lagos);
+      const onChange = vi.fn();
+      const stop = stores.cities.watch(onChange);
+
+      try {
+        // Let the watcher take its first look before anything changes
+        await new Promise(resolve => setTimeout(resolve, 100));
+        // A second set of stores on the same files stands in for the other process
+        createStores({ kind, dataDir: tmpDir, sqlitePath: path.join(tmpDir, 'db.sqlite') }).cities.upsert({ ...lagos, lat: 6.5 });
+
+        await vi.waitFor(() => expect(onChange).toHaveBeenCalled(), { timeout: 5000, interval: 100 });
+      } finally {
+        stop();
+      }
+    });
+  });
+});
+
+describe('json store safety', () => {
+  let tmpDir: string;
+  let stores: Stores;
+  let membersPath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpm-store-'));
+    stores = createJsonStores(tmpDir);
+    membersPath = path.join(tmpDir, 'members.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should report a half-written members.json instead of returning []', () => {
+    fs.writeFileSync(membersPath, '[{"id": "member-alice", "name": "Al');
+
+    expect(() => stores.members.list()).toThrow(CorruptDataError);
+  });
+
+  it('should not overwrite a corrupted members.json on insert', () => {
+    const corrupted = '[{"id": "member-alice", "name": "Al';
+    fs.writeFileSync(membersPath, corrupted);
+
+    expect(() => stores.members.insert(bob)).toThrow(CorruptDataError);
+    expect(fs.readFileSync(membersPath, 'utf8')).toBe(corrupted);
+  });
+
+  it('should reject an unversioned members.json until it is migrated', () => {
+    fs.writeFileSync(membersPath, JSON.stringify([alice]));
+
+    expect(() => stores.members.list()).toThrow(SchemaVersionError);
+    expect(() => stores.members.list()).toThrow('npm run migrate');
+  });
+
+  it('should reject invalid members instead of returning them unvalidated', () => {
+    fs.writeFileSync(membersPath, JSON.stringify({ schemaVersion: SCHEMA_VERSIONS.members, members: [{ ...alice, name: '' }] }));
+
+    expect(() => stores.members.list()).toThrow(CorruptDataError);
+  });
+
+  it('should write the schema version into every file', () => {
+    stores.members.insert(alice);
+    stores.meetings.save(meeting);
+
+    expect(JSON.parse(fs.readFileSync(membersPath, 'utf8'))).toEqual({ schemaVersion: SCHEMA_VERSIONS.members, members: [alice] });
+    expect(JSON.parse(fs.readFileSync(path.join(tmpDir, 'meetings', `${meeting.id}.json`), 'utf8')))
+      .toEqual({ schemaVersion: 1, ...meeting });
+    expect(stores.meetings.get(meeting.id)).toEqual(meeting);
+  });
+
+  it('should reject an unversioned meeting file', () => {
+    fs.mkdirSync(path.join(tmpDir, 'meetings'));
+    fs.writeFileSync(path.join(tmpDir, 'meetings', `${meeting.id}.json`), JSON.stringify(meeting));
+
+    expect(() => stores.meetings.get(meeting.id)).toThrow(SchemaVersionError);
+  });
+
+  it('should never resolve meeting IDs outside the meetings directory', () => {
+    stores.members.insert(alice);
+
+    expect(stores.meetings.get('../members')).toBeNull();
+    expect(stores.meetings.delete('../members')).toBe(false);
+    expect(() => stores.meetings.save({ ...meeting, id: '../members' })).toThrow('Invalid meeting ID');
+    expect(stores.members.list()).toEqual([alice]);
+  });
+
+  it('should lock a meeting file for the length of a transaction', () => {
+    const lockPath = path.join(tmpDir, 'meetings', `${meeting.id}.json.lock`);
+
+    stores.meetings.transaction(meeting.id, () => {
+      expect(fs.existsSync(lockPath)).toBe(true);
+    });
+
+    expect(fs.existsSync(lockPath)).toBe(false);
+  });
+
+  it('should leave no lock or temp files after writing', () => {
+    stores.members.insert(alice);
+    stores.meetings.save(meeting);
+
+    expect(fs.readdirSync(tmpDir).sort()).toEqual(['meetings', 'members.json']);
+    expect(fs.readdirSync(path.join(tmpDir, 'meetings'))).toEqual([`${meeting.id}.json`]);
+  });
+});
+
+describe('sqlite schema migrations', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpm-sqlite-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should upgrade a database created before versioning and back it up', () => {
+    const dbPath = path.join(tmpDir, 'db.sqlite');
+    const legacy = new Database(dbPath);
+    legacy.exec('CREATE TABLE members (id TEXT PRIMARY KEY, name TEXT NOT NULL, city TEXT NOT NULL, created_at TEXT NOT NULL)');
+    legacy.prepare('INSERT INTO members VALUES (?, ?, ?, ?)').run(alice.id, alice.name, alice.city, alice.createdAt);
+    legacy.close();
+
+    const db = openDatabase(dbPath);
+
+    expect(db.pragma('user_version', { simple: true })).toBeGreaterThan(0);
+    // Members get pinned to the city they meant along the way
+    expect(createSqliteMemberStore(db).list()).toEqual([{ ...alice, cityKey: 'paris, fr' }]);
+    expect(fs.readdirSync(path.join(tmpDir, 'backups')).some(f => f.startsWith('db.sqlite.bak.'))).toBe(true);
+    db.close();
+  });
+});
+
+describe('getStoreConfig', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('should default to the JSON store in src/data', () => {
+    const config = getStoreConfig({});
+    expect(config.kind).toBe('json');
+    expect(config.dataDir).toBe(path.join(process.cwd(), 'src', 'data'));
+    expect(config.sqlitePath).toBe(path.join(config.dataDir, 'db.sqlite'));
+  });
+
+  it('should read backend and paths from the environment', () => {
+    const settings = { DATA_STORE: 'sqlite', DATA_DIR: '/srv/data', SQLITE_PATH: '/srv/db/presence.sqlite' } as const;
+
+    expect(getStoreConfig(settings)).toEqual({
+      kind: 'sqlite',
+      dataDir: '/srv/data',
+      sqlitePath: '/srv/db/presence.sqlite',
+    });
+  });
+
+  it('should reject unknown backends when the environment is validated', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.stubEnv('SKIP_ENV_VALIDATION', '');
+    vi.stubEnv('DATA_STORE', 'sqllite');
+    vi.resetModules();
+
+    await expect(import('~/env')).rejects.toThrow('Invalid environment variables');
+  });
+});
@@ -0,0 +1,225 @@
+// src/lib/store.ts
+/**
+ * Storage Backend Selection
+ *
+ * Members, meetings and runtime-added cities are persisted through the
+ * MemberStore / MeetingStore / CityStore interfaces below. meetings.ts,
+ * members.ts and cityCache.ts never touch the filesystem directly; they ask
+ * this module for the configured backend.
+ *
+ * Backends:
+ * - json (default): src/data/members.json + src/data/meetings/{id}.json +
+ *   src/data/cities.json
+ * - sqlite: a single better-sqlite3 database file
+ *
+ * cities.ts looks cities up among the curated ones (src/data/cities.json,
+ * read at runtime) and those in the active CityStore, so a city geocoded
+ * once is known from then on. Both are watched: when another process
+ * changes them (e.g. `npm run fill-cities`), the next lookup reloads.
+ *
+ * Configuration (environment variables, validated by src/env.js):
+ * - DATA_STORE  - "json" or "sqlite" (default: "json")
+ * - DATA_DIR    - directory holding the JSON data files (default: src/data)
+ * - SQLITE_PATH - database file for the sqlite backend (default: {DATA_DIR}/db.sqlite)
+ *
+ * Pointing DATA_DIR / SQLITE_PATH outside the repo allows running on a host
+ * where the checkout is read-only. A typo like DATA_STORE=sqllite fails
+ * validation at startup instead of falling back to JSON.
+ */
+import fs from 'fs';
+import path from 'path';
+import { env } from '~/env';
+import { getBundledCities, invalidateCities, setCitiesLoader } from './cities';
+import { createJsonCityStore, createJsonStores } from './jsonStore';
+import { createSqliteStores } from './sqliteStore';
+import type { City, Meeting, Member } from './validation';
+
+// ===== Store Interfaces =====
+
+/**
+ * Persistence operations for the member registry
+ */
+export interface MemberStore {
+  /** All members in insertion order */
+  list(): Member[];
+  /** A single member by ID, or null if unknown */
+  get(id: string): Member | null;
+  /** Appends a new member */
+  insert(member: Member): void;
+  /** Replaces the whole registry (used by bulk edits) */
+  replaceAll(members: Member[]): void;
+  /**
+   * Runs fn with exclusive write access to the registry, so a
+   * load-modify-save sequence can't interleave with another writer
+   */
+  transaction<T>(fn: () => T): T;
+}
+
+/**
+ * Persistence operations for meeting records
+ */
+export interface MeetingStore {
+  /** All valid meetings, in no particular order */
+  list(): Meeting[];
+  /** A single meeting by ID, or null if missing or invalid */
+  get(id: string): Meeting | null;
+  /** Creates or overwrites a meeting */
+  save(meeting: Meeting): void;
+  /** Creates a meeting only if its ID is unused; returns false if taken */
+  insert(meeting: Meeting): boolean;
+  /** Removes a meeting; returns false if it didn't exist */
+  delete(id: string): boolean;
+  /** Stored meetings that list/get skip because they can't be loaded */
+  listInvalid(): InvalidMeeting[];
+  /**
+   * Runs fn with exclusive write access to one meeting, so a
+   * load-modify-save sequence can't interleave with another writer
+   */
+  transaction<T>(meetingId: string, fn: () => T): T;
+}
+
+/**
+ * Persistence for cities added at runtime (e.g. geocoded on first use)
+ * The curated src/data/cities.json is always known; with the JSON backend
+ * in the default data directory this store writes to that same file.
+ */
+export interface CityStore {
+  /** All stored cities */
+  list(): City[];
+  /** Adds a city, or replaces the one with the same key (see getCityKey) */
+  upsert(city: City): void;
+  /** Removes the city with this key; false if it wasn't stored */
+  delete(key: string): boolean;
+  /**
+   * Saves a copy of all stored cities in a backups/ directory next to the
+   * store (see backups.ts)
+   * @returns The backup's path, or null if there's nothing to back up
+   */
+  backup(): string | null;
+  /**
+   * Calls onChange after the stored cities change, also when another
+   * process (e.g. `npm run fill-cities`) changes them
+   * @returns Stops watching
+   */
+  watch(onChange: () => void): () => void;
+}
+
+/**
+ * A stored meeting that can't be loaded, and why
+ */
+export interface InvalidMeeting {
+  id: string;
+  reason: string;
+}
+
+export interface Stores {
+  members: MemberStore;
+  meetings: MeetingStore;
+  cities: CityStore;
+}
+
+export type StoreKind = 'json' | 'sqlite';
+
+// ===== Configuration =====
+
+/**
+ * Resolved storage configuration
+ */
+export interface StoreConfig {
+  kind: StoreKind;
+  dataDir: string;
+  sqlitePath: string;
+}
+
+/** The environment variables storage is configured with */
+export type StoreEnv = Partial<Pick<typeof env, 'DATA_STORE' | 'DATA_DIR' | 'SQLITE_PATH'>>;
+
+/**
+ * Reads storage configuration from the (validated) environment
+ */
+export function getStoreConfig(settings: StoreEnv = env): StoreConfig {
+  const dataDir = settings.DATA_DIR
+    ? path.resolve(settings.DATA_DIR)
+    : path.join(process.cwd(), 'src', 'data');
+  const sqlitePath = settings.SQLITE_PATH
+    ? path.resolve(settings.SQLITE_PATH)
+    : path.join(dataDir, 'db.sqlite');
+
+  // Without validation (SKIP_ENV_VALIDATION) the default isn't applied
+  return { kind: settings.DATA_STORE ?? 'json', dataDir, sqlitePath };
+}
+
+// ===== Active Stores =====
+
+let activeStores: Stores | null = null;
+
+// ===== City Data =====
+
+/** Curated cities, as deployed; the copy bundled into cities.ts is a build-time snapshot */
+const CURATED_CITIES_FILE = path.join(process.cwd(), 'src', 'data', 'cities.json');
+
+let curatedCities: CityStore | null = null;
+let stopWatchingCities: (() => void) | null = null;
+
+/**
+ * Every city for cities.ts: the curated ones as they are on disk (as
+ * bundled where src/data isn't deployed), then the active store's
+ * Starts watching both on first use, so changes from other processes
+ * invalidate the loaded cities.
+ */
+function loadCities(): City[] {
+  const cities = getStores().cities;
+  curatedCities ??= createJsonCityStore(CURATED_CITIES_FILE);
+  if (!stopWatchingCities) {
+    const stops = [curatedCities.watch(invalidateCities), cities.watch(invalidateCities)];
+    stopWatchingCities = () => stops.forEach(stop => stop());
+  }
+
+  const curated = fs.existsSync(CURATED_CITIES_FILE) ? curatedCities.list() : getBundledCities();
+  return [...curated, ...cities.list()];
+}
+
+// cities.ts stays free of Node imports (client components use it), so the
+// server's cities are handed to it from here
+setCitiesLoader(loadCities);
+
+/**
+ * Creates the stores described by a configuration
+ */
+export function createStores(config: StoreConfig): Stores {
+  return config.kind === 'sqlite'
+    ? createSqliteStores(config.sqlitePath)
+    : createJsonStores(config.dataDir);
+}
+
+/**
+ * Returns the active stores, creating them from the environment on first use
+ */
+export function getStores(): Stores {
+  activeStores ??= createStores(getStoreConfig());
+  return activeStores;
+}
+
+/**
+ * Overrides the active stores (tests, scripts)
+ * Pass null to fall back to the environment configuration again
+ */
+export function setStores(stores: Stores | null): void {
+  activeStores = stores;
+  // Forget the cities read from the previous stores
+  stopWatchingCities?.();
+  stopWatchingCities = null;
+  setCitiesLoader(loadCities);
+}
+
+export function getMemberStore(): MemberStore {
+  return getStores().members;
+}
+
+export function getMeetingStore(): MeetingStore {
+  return getStores().meetings;
+}
+
+export function getCityStore(): CityStore {
+  return getStores().cities;
+}
@@ -0,0 +1,49 @@
+// src/lib/textMatch.ts
+/**
+ * Text Matching Helpers
+ *
+ * Folding and edit distance for typo-tolerant comparisons of names
+ * (duplicate members in memberMerge.ts, city suggestions in citySearch.ts,
+ * regions in cities.ts, country names in worldMap.ts). Folding keeps
+ * letters of every script, so "Москва" or "東京" match as typed.
+ */
+
+/**
+ * Folds a name for comparison: lowercase, no accents, letters/digits only
+ * Example: "José  O'Neil" -> "jose oneil"
+ */
+export function foldName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/\p{Diacritic}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Folds a name with its spaces dropped too
+ * Example: "New  York" -> "newyork", "D.C." -> "dc"
+ */
+export function foldCompact(name: string): string {
+  return foldName(name).replace(/ /g, '');
+}
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length]!;
+}
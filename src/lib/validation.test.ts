@@ -6,6 +6,8 @@ import {
   safeValidateMembers,
   validateCityCoord,
   validateAddMemberInput,
+  validateListMeetingsQuery,
+  validateUpdateMeetingInput,
 } from './validation';
 import { ZodError } from 'zod';
 
@@ -180,3 +182,33 @@ describe('validateAddMemberInput', () => {
     expect(() => validateAddMemberInput({ name: 'Alice', city: '' })).toThrow(ZodError);
   });
 });
+
+describe('validateListMeetingsQuery', () => {
+  it('should apply pagination defaults', () => {
+    expect(validateListMeetingsQuery({})).toEqual({ page: 1, pageSize: 20 });
+  });
+
+  it('should coerce numeric strings', () => {
+    expect(validateListMeetingsQuery({ page: '3', pageSize: '5' })).toMatchObject({ page: 3, pageSize: 5 });
+  });
+
+  it('should reject malformed dates and oversized pages', () => {
+    expect(() => validateListMeetingsQuery({ from: '10/01/2026' })).toThrow(ZodError);
+    expect(() => validateListMeetingsQuery({ pageSize: '1000' })).toThrow(ZodError);
+  });
+});
+
+describe('validateUpdateMeetingInput', () => {
+  it('should accept a partial update', () => {
+    expect(validateUpdateMeetingInput({ title: 'New Title' })).toEqual({ title: 'New Title' });
+  });
+
+  it('should accept participants by name and city', () => {
+    const input = { addParticipants: [{ name: 'Alice', city: 'Paris' }] };
+    expect(validateUpdateMeetingInput(input)).toEqual(input);
+  });
+
+  it('should reject an empty update', () => {
+    expect(() => validateUpdateMeetingInput({})).toThrow(ZodError);
+  });
+});
@@ -1,15 +1,44 @@
 // src/lib/validation.ts
 import { z } from 'zod';
 
+/**
+ * Calendar date in YYYY-MM-DD form, as stored in Meeting.date
+ */
+export const IsoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+/**
+ * Key of a city in cities.json, e.g. "paris, fr" (see cities.ts)
+ * Pins a member's city when its name alone is ambiguous.
+ */
+const CityKeySchema = z.string().min(1).max(200);
+
+/**
+ * A city a member used to live in
+ * `until` is the first date they were no longer there (the move date)
+ */
+export const PastCitySchema = z.object({
+  city: z.string().min(1, 'City is required').max(100, 'City too long'),
+  cityKey: CityKeySchema.optional(),
+  until: IsoDateSchema,
+});
+
+export type PastCity = z.infer<typeof PastCitySchema>;
+
 /**
  * Schema for Member entity (Phase 3 - No coordinates stored)
  * This represents a community member's identity and location preference
  * Coordinates are computed at runtime from cities.json
+ * 
+ * `city` is the current city; `cityHistory` keeps earlier ones so meetings
+ * held before a move still show where the member attended from.
+ * `cityKey` says which city `city` is when several share the name.
  */
 export const MemberSchema = z.object({
   id: z.string().min(1),
   name: z.string().min(1, 'Name is required').max(100, 'Name too long'),
   city: z.string().min(1, 'City is required').max(100, 'City too long'),
+  cityKey: CityKeySchema.optional(),
+  cityHistory: z.array(PastCitySchema).optional(),
   createdAt: z.string().datetime(),
 });
 
@@ -26,6 +55,38 @@ export const CityCoordSchema = z.object({
 
 export type CityCoord = z.infer<typeof CityCoordSchema>;
 
+/**
+ * Where a city's coordinates came from
+ * - static: curated in cities.json (also assumed when missing)
+ * - geocoded: looked up by a geocoder (see geocode.ts) when first used
+ * - manual: entered or corrected by hand (city admin page, /api/cities)
+ */
+export const CitySourceSchema = z.enum(['static', 'geocoded', 'manual']);
+
+export type CitySource = z.infer<typeof CitySourceSchema>;
+
+/**
+ * Kinds of other names a city goes by:
+ * - abbreviation: "NYC", "SF"
+ * - local: the name in the local language, "Lisboa"
+ * - former: a name the city used to have, "Reval"
+ * - misspelling: a common typo, "Talin"
+ */
+export const CityAliasKindSchema = z.enum(['abbreviation', 'local', 'former', 'misspelling']);
+
+export type CityAliasKind = z.infer<typeof CityAliasKindSchema>;
+
+/**
+ * Another name a city can be looked up by
+ */
+export const CityAliasSchema = z.object({
+  // Commas separate name, region and country in city references
+  name: z.string().trim().min(1).max(100).regex(/^[^,]+$/, 'Aliases cannot contain commas'),
+  kind: CityAliasKindSchema,
+});
+
+export type CityAlias = z.infer<typeof CityAliasSchema>;
+
 /**
  * Schema for City entity (Phase 2)
  * Represents geographic data with metadata
@@ -35,8 +96,13 @@ export const CitySchema = z.object({
   displayName: z.string().min(1),
   lat: z.number().min(-90).max(90),
   lng: z.number().min(-180).max(180),
+  /** State/province, for telling apart cities with the same name in one country */
+  region: z.string().min(1).optional(),
   countryCode: z.string().optional(),
   lastUpdated: z.string().datetime().optional(),
+  source: CitySourceSchema.optional(),
+  /** Other names it's found by (see cities.ts) */
+  aliases: z.array(CityAliasSchema).optional(),
 });
 
 export type City = z.infer<typeof CitySchema>;
@@ -57,17 +123,183 @@ export type Meeting = z.infer<typeof MeetingSchema>;
 
 /**
  * Schema for creating a new meeting
+ * `country` (ISO code or English name) and `region` pick between cities
+ * that share a name.
  */
 export const CreateMeetingInputSchema = z.object({
   title: z.string().min(1, 'Title is required').max(200, 'Title too long'),
   participants: z.array(z.object({
     name: z.string().min(1, 'Name is required'),
     city: z.string().min(1, 'City is required'),
+    region: z.string().trim().min(1).max(100).optional(),
+    country: z.string().trim().min(1).max(100).optional(),
   })).min(1, 'At least one participant required'),
 });
 
 export type CreateMeetingInput = z.infer<typeof CreateMeetingInputSchema>;
 
+/**
+ * Schema for GET /api/cities/search query parameters
+ */
+export const CitySearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  region: z.string().trim().min(1).max(100).optional(),
+  country: z.string().trim().min(1).max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+});
+
+export type CitySearchQuery = z.infer<typeof CitySearchQuerySchema>;
+
+/**
+ * Schema for POST /api/cities/aliases
+ */
+export const AddCityAliasInputSchema = CityAliasSchema.extend({
+  /** Key of the city, e.g. "new york, us" */
+  city: CityKeySchema,
+});
+
+export type AddCityAliasInput = z.infer<typeof AddCityAliasInputSchema>;
+
+/**
+ * Schema for POST /api/cities
+ * The server fills in normalizedName (from displayName unless given),
+ * lastUpdated and source. Aliases are added through /api/cities/aliases.
+ */
+export const CreateCityInputSchema = CitySchema.omit({ lastUpdated: true, source: true, aliases: true }).extend({
+  // Commas separate name, region and country in city keys
+  normalizedName: CitySchema.shape.normalizedName.regex(/^[^,]+$/, 'City names cannot contain commas').optional(),
+  displayName: CitySchema.shape.displayName.regex(/^[^,]+$/, 'City names cannot contain commas'),
+  countryCode: z.string().regex(/^[A-Za-z]{2}$/, 'Country must be a two-letter code').optional(),
+});
+
+export type CreateCityInput = z.infer<typeof CreateCityInputSchema>;
+
+/**
+ * Schema for PATCH /api/cities/[key]
+ * Name, region and country make up the key, so they can't change here;
+ * add the city under its new key and delete the old one instead.
+ * Strict, so attempts to change them get a 400.
+ */
+export const UpdateCityInputSchema = CitySchema.pick({ displayName: true, lat: true, lng: true })
+  .partial()
+  .strict()
+  .refine(input => Object.values(input).some(value => value !== undefined), {
+    message: 'At least one change is required',
+  });
+
+export type UpdateCityInput = z.infer<typeof UpdateCityInputSchema>;
+
+/**
+ * Schema for POST /api/cities/geocode: a participant's city fields
+ */
+export const GeocodeCityInputSchema = CreateMeetingInputSchema.shape.participants.element.omit({ name: true });
+
+export type GeocodeCityInput = z.infer<typeof GeocodeCityInputSchema>;
+
+/**
+ * Schema for GET /api/meetings query parameters
+ * Values arrive as strings, so numbers are coerced
+ */
+export const ListMeetingsQuerySchema = z.object({
+  from: IsoDateSchema.optional(),
+  to: IsoDateSchema.optional(),
+  q: z.string().trim().min(1).max(200).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type ListMeetingsQuery = z.infer<typeof ListMeetingsQuerySchema>;
+
+/**
+ * Schema for PATCH /api/meetings/[id]
+ * Renames, re-dates, or adds/removes participants (by member ID or by name + city)
+ */
+export const UpdateMeetingInputSchema = z
+  .object({
+    title: z.string().min(1, 'Title is required').max(200, 'Title too long').optional(),
+    date: IsoDateSchema.optional(),
+    addParticipantIds: z.array(z.string().min(1)).optional(),
+    addParticipants: CreateMeetingInputSchema.shape.participants.element.array().optional(),
+    removeParticipantIds: z.array(z.string().min(1)).optional(),
+  })
+  .refine(input => Object.values(input).some(value => value !== undefined), {
+    message: 'At least one change is required',
+  });
+
+export type UpdateMeetingInput = z.infer<typeof UpdateMeetingInputSchema>;
+
+/**
+ * "true"/"false" query parameter
+ */
+const QueryBooleanSchema = z.enum(['true', 'false']).transform(value => value === 'true');
+
+/**
+ * Schema for GET /api/meetings/[id]/export query parameters
+ */
+export const ExportQuerySchema = z.object({
+  format: z.enum(['html', 'geojson', 'kml', 'csv', 'svg', 'png', 'og']).default('html'),
+  arcs: QueryBooleanSchema.optional(),
+  projection: z.enum(['equirectangular', 'orthographic']).optional(),
+  width: z.coerce.number().int().min(200).max(4000).optional(),
+  height: z.coerce.number().int().min(200).max(4000).optional(),
+  autoRotate: QueryBooleanSchema.optional(),
+  showTitle: QueryBooleanSchema.optional(),
+  offline: QueryBooleanSchema.optional(),
+  textures: z.enum(['full', 'low']).optional(),
+  download: QueryBooleanSchema.default('false'),
+});
+
+export type ExportQuery = z.infer<typeof ExportQuerySchema>;
+
+/**
+ * Schema for /embed/[meetingId] query parameters
+ * An iframe has nowhere to show a 400, so bad values fall back to defaults.
+ */
+export const EmbedQuerySchema = z.object({
+  autoRotate: QueryBooleanSchema.catch(true).default('true'),
+  theme: z.enum(['dark', 'light']).catch('dark').default('dark'),
+  labels: QueryBooleanSchema.catch(false).default('false'),
+  hideNames: QueryBooleanSchema.catch(false).default('false'),
+});
+
+export type EmbedQuery = z.infer<typeof EmbedQuerySchema>;
+
+const EmbedParticipantsSchema = CreateMeetingInputSchema.shape.participants.element.array().max(500);
+
+/**
+ * Schema for postMessage commands a host page sends to an embedded globe
+ */
+export const EmbedMessageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('gpm:addParticipants'), participants: EmbedParticipantsSchema }),
+  z.object({ type: z.literal('gpm:setParticipants'), participants: EmbedParticipantsSchema }),
+  z.object({
+    type: z.literal('gpm:flyTo'),
+    city: z.string().min(1).optional(),
+    lat: z.number().min(-90).max(90).optional(),
+    lng: z.number().min(-180).max(180).optional(),
+    altitude: z.number().positive().max(10).optional(),
+  }),
+]);
+
+export type EmbedMessage = z.infer<typeof EmbedMessageSchema>;
+
+/**
+ * Schema for POST /api/save-meeting (publish a server-rendered export)
+ * Strict, so clients still sending { html, filename } get a 400.
+ */
+export const SaveExportInputSchema = z
+  .object({
+    meetingId: z.string().min(1, 'Meeting ID is required'),
+    autoRotate: z.boolean().optional(),
+    showTitle: z.boolean().optional(),
+    offline: z.boolean().optional(),
+    textures: z.enum(['full', 'low']).optional(),
+    overwrite: z.boolean().default(false),
+  })
+  .strict();
+
+export type SaveExportInput = z.infer<typeof SaveExportInputSchema>;
+
 /**
  * Schema for the entire members array
  */
@@ -77,12 +309,42 @@ export const MembersArraySchema = z.array(MemberSchema);
  * Schema for input when adding a new member
  */
 export const AddMemberInputSchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  city: z.string().min(1, 'City is required'),
+  name: z.string().min(1, 'Name is required').max(100, 'Name too long'),
+  city: z.string().min(1, 'City is required').max(100, 'City too long'),
 });
 
 export type AddMemberInput = z.infer<typeof AddMemberInputSchema>;
 
+/**
+ * Schema for PATCH /api/members/[id] (rename and/or change city)
+ * 
+ * A city change is recorded as a move (effective `movedOn`, default today)
+ * unless `retroactive` is set, which treats it as a correction that also
+ * applies to past meetings.
+ */
+export const UpdateMemberInputSchema = AddMemberInputSchema.partial()
+  .extend({
+    movedOn: IsoDateSchema.optional(),
+    retroactive: z.boolean().optional(),
+  })
+  .refine(
+    input => input.name !== undefined || input.city !== undefined,
+    { message: 'At least one change is required' }
+  );
+
+export type UpdateMemberInput = z.infer<typeof UpdateMemberInputSchema>;
+
+/**
+ * Schema for POST /api/members/merge
+ */
+export const MergeMembersInputSchema = z.object({
+  survivorId: z.string().min(1),
+  mergeIds: z.array(z.string().min(1)).min(1, 'At least one member to merge is required'),
+  dryRun: z.boolean().default(false),
+});
+
+export type MergeMembersInput = z.infer<typeof MergeMembersInputSchema>;
+
 /**
  * Validates members data and returns parsed result
  * Throws ZodError if validation fails
@@ -128,6 +390,22 @@ export function validateAddMemberInput(data: unknown): AddMemberInput {
   return AddMemberInputSchema.parse(data);
 }
 
+/**
+ * Validates update member input
+ * Throws ZodError if validation fails
+ */
+export function validateUpdateMemberInput(data: unknown): UpdateMemberInput {
+  return UpdateMemberInputSchema.parse(data);
+}
+
+/**
+ * Validates merge members input
+ * Throws ZodError if validation fails
+ */
+export function validateMergeMembersInput(data: unknown): MergeMembersInput {
+  return MergeMembersInputSchema.parse(data);
+}
+
 /**
  * Validates meeting data
  * Throws ZodError if validation fails
@@ -144,6 +422,78 @@ export function validateCreateMeetingInput(data: unknown): CreateMeetingInput {
   return CreateMeetingInputSchema.parse(data);
 }
 
+/**
+ * Validates meeting list query parameters
+ * Throws ZodError if validation fails
+ */
+export function validateListMeetingsQuery(data: unknown): ListMeetingsQuery {
+  return ListMeetingsQuerySchema.parse(data);
+}
+
+/**
+ * Validates city search query parameters
+ * Throws ZodError if validation fails
+ */
+export function validateCitySearchQuery(data: unknown): CitySearchQuery {
+  return CitySearchQuerySchema.parse(data);
+}
+
+/**
+ * Validates add city alias input
+ * Throws ZodError if validation fails
+ */
+export function validateAddCityAliasInput(data: unknown): AddCityAliasInput {
+  return AddCityAliasInputSchema.parse(data);
+}
+
+/**
+ * Validates create city input
+ * Throws ZodError if validation fails
+ */
+export function validateCreateCityInput(data: unknown): CreateCityInput {
+  return CreateCityInputSchema.parse(data);
+}
+
+/**
+ * Validates update city input
+ * Throws ZodError if validation fails
+ */
+export function validateUpdateCityInput(data: unknown): UpdateCityInput {
+  return UpdateCityInputSchema.parse(data);
+}
+
+/**
+ * Validates geocode city input
+ * Throws ZodError if validation fails
+ */
+export function validateGeocodeCityInput(data: unknown): GeocodeCityInput {
+  return GeocodeCityInputSchema.parse(data);
+}
+
+/**
+ * Validates export query parameters
+ * Throws ZodError if validation fails
+ */
+export function validateExportQuery(data: unknown): ExportQuery {
+  return ExportQuerySchema.parse(data);
+}
+
+/**
+ * Validates save (publish) export input
+ * Throws ZodError if validation fails
+ */
+export function validateSaveExportInput(data: unknown): SaveExportInput {
+  return SaveExportInputSchema.parse(data);
+}
+
+/**
+ * Validates update meeting input
+ * Throws ZodError if validation fails
+ */
+export function validateUpdateMeetingInput(data: unknown): UpdateMeetingInput {
+  return UpdateMeetingInputSchema.parse(data);
+}
+
 /**
  * Validates city data
  * Throws ZodError if validation fails
@@ -0,0 +1,127 @@
+// src/lib/visualization.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  buildMeetingVisualization,
+  countByCountry,
+  describeMeeting,
+  getMeetingVisualization,
+  getVisualizationStats,
+} from './visualization';
+import { saveMembers } from './members';
+import { setStores } from './store';
+import { createJsonStores } from './jsonStore';
+import type { Meeting, Member } from './validation';
+
+const member = (id: string, name: string, city: string): Member => ({
+  id,
+  name,
+  city,
+  createdAt: '2026-01-10T00:00:00.000Z',
+});
+
+const meeting = (participantIds: string[], date = '2026-03-01'): Meeting => ({
+  id: `call-${date}`,
+  title: 'Call',
+  date,
+  participantIds,
+});
+
+describe('visualization', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpm-viz-'));
+    setStores(createJsonStores(tmpDir));
+    saveMembers([
+      member('alice', 'Alice', 'Paris'),
+      member('bob', 'Bob', 'London'),
+      member('carol', 'Carol', 'Nowhere Town'),
+    ]);
+  });
+
+  afterEach(() => {
+    setStores(null);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should place known participants and connect every pair', () => {
+    const viz = buildMeetingVisualization(meeting(['alice', 'bob']));
+
+    expect(viz.points.map(p => p.memberName)).toEqual(['Alice', 'Bob']);
+    expect(viz.arcs).toHaveLength(1);
+    expect(viz.arcs[0]).toEqual({
+      startLat: viz.points[0]!.lat,
+      startLng: viz.points[0]!.lng,
+      endLat: viz.points[1]!.lat,
+      endLng: viz.points[1]!.lng,
+    });
+    expect(viz.unknownCities).toEqual([]);
+  });
+
+  it('should report participants in unknown cities instead of placing them', () => {
+    const viz = buildMeetingVisualization(meeting(['alice', 'carol']));
+
+    expect(viz.points.map(p => p.memberId)).toEqual(['alice']);
+    expect(viz.arcs).toEqual([]);
+    expect(viz.unplaced).toEqual([{ memberId: 'carol', memberName: 'Carol', cityName: 'Nowhere Town' }]);
+    expect(viz.unknownCities).toEqual(['Nowhere Town']);
+  });
+
+  it('should use the city a member lived in on the meeting date', () => {
+    saveMembers([{ ...member('alice', 'Alice', 'Paris'), cityHistory: [{ city: 'London', until: '2026-02-01' }] }]);
+
+    expect(buildMeetingVisualization(meeting(['alice'], '2026-01-15')).points[0]!.cityName).toBe('London');
+    expect(buildMeetingVisualization(meeting(['alice'], '2026-03-01')).points[0]!.cityName).toBe('Paris');
+  });
+
+  it('should return null for an unknown meeting', () => {
+    expect(getMeetingVisualization('missing')).toBeNull();
+  });
+
+  it('should count participants, cities and countries', () => {
+    saveMembers([
+      member('alice', 'Alice', 'Paris'),
+      member('bob', 'Bob', 'London'),
+      member('dan', 'Dan', 'paris'),
+      member('carol', 'Carol', 'Nowhere Town'),
+    ]);
+    const stats = getVisualizationStats(buildMeetingVisualization(meeting(['alice', 'bob', 'dan', 'carol'])));
+
+    expect(stats).toEqual({ participants: 4, cities: 3, countries: 2 });
+    expect(describeMeeting(stats)).toBe('4 participants from 3 cities in 2 countries');
+    expect(describeMeeting({ participants: 1, cities: 1, countries: 0 })).toBe('1 participant from 1 city');
+  });
+
+  it('should count placed participants per country and continent', () => {
+    saveMembers([
+      member('alice', 'Alice', 'Paris'),
+      member('bob', 'Bob', 'London'),
+      member('dan', 'Dan', 'paris'),
+      member('erin', 'Erin', 'Nairobi'),
+      member('carol', 'Carol', 'Nowhere Town'),
+    ]);
+    const viz = buildMeetingVisualization(meeting(['alice', 'bob', 'dan', 'erin', 'carol']));
+
+    expect(viz.points.map(p => p.countryCode)).toEqual(['FR', 'GB', 'FR', 'KE']);
+    expect(viz.countries).toEqual([
+      { countryCode: 'FR', name: 'France', continent: 'Europe', count: 2 },
+      { countryCode: 'KE', name: 'Kenya', continent: 'Africa', count: 1 },
+      { countryCode: 'GB', name: 'United Kingdom', continent: 'Europe', count: 1 },
+    ]);
+    expect(viz.continents).toEqual([
+      { continent: 'Europe', count: 3, countries: 2 },
+      { continent: 'Africa', count: 1, countries: 1 },
+    ]);
+  });
+
+  it('should count countries without a bundled outline by code', () => {
+    const point = { memberId: 'ann', memberName: 'Ann', cityName: 'Singapore', lat: 1.29, lng: 103.85 };
+
+    expect(countByCountry([{ ...point, countryCode: 'SG' }, point])).toEqual([
+      { countryCode: 'SG', name: 'SG', continent: null, count: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,224 @@
+// src/lib/visualization.ts
+/**
+ * Meeting Visualization Data
+ *
+ * Turns a stored meeting into the points and arcs drawn on the globe. Used by
+ * the visualization API, the in-app globe and the HTML export, so all three
+ * place participants the same way.
+ *
+ * - Participants are resolved from the member registry by ID
+ * - Each member is placed at the city they lived in on the meeting date
+ *   (cityHistory), so historical globes don't move when a member relocates
+ * - Coordinates come from cities.json (by the member's city key when pinned);
+ *   members in unknown or ambiguous cities are left off the globe and
+ *   reported in unplaced/unknownCities
+ * - Arcs connect every pair of points
+ * - Placed participants are counted per country (the city's country code,
+ *   or the bundled outline the city lies in) and per continent
+ */
+import { getLocationCity } from './cities';
+import { arcsBetween } from './geo';
+import { loadMeeting } from './meetings';
+import { getMemberLocationOn, getMembersByIds } from './members';
+import type { Meeting } from './validation';
+import { findCountryAt, findCountryByCode } from './worldMap';
+
+export interface VisualizationParticipant {
+  memberId: string;
+  memberName: string;
+  /** City the member lived in on the meeting date */
+  cityName: string;
+}
+
+export interface VisualizationPoint extends VisualizationParticipant {
+  lat: number;
+  lng: number;
+  /** ISO 3166-1 alpha-2; missing when the city has none and lies outside every outline */
+  countryCode?: string;
+}
+
+export interface VisualizationArc {
+  startLat: number;
+  startLng: number;
+  endLat: number;
+  endLng: number;
+}
+
+/**
+ * Placed participants from one country
+ */
+export interface CountryCount {
+  /** ISO 3166-1 alpha-2 */
+  countryCode: string;
+  /** Name from the bundled outlines; the code for countries without one */
+  name: string;
+  /** null for countries without a bundled outline */
+  continent: string | null;
+  count: number;
+}
+
+/**
+ * Placed participants from one continent
+ */
+export interface ContinentCount {
+  continent: string;
+  count: number;
+  /** Distinct countries among them */
+  countries: number;
+}
+
+export interface MeetingVisualization {
+  meeting: Pick<Meeting, 'id' | 'title' | 'date'>;
+  points: VisualizationPoint[];
+  arcs: VisualizationArc[];
+  /** Participants whose city has no coordinates */
+  unplaced: VisualizationParticipant[];
+  /** Cities of participants that couldn't be placed */
+  unknownCities: string[];
+  /** Placed participants per country, most first */
+  countries: CountryCount[];
+  /** Placed participants per continent, most first */
+  continents: ContinentCount[];
+}
+
+/**
+ * Computes globe points and arcs for a meeting
+ *
+ * @param meeting - Stored meeting
+ * @returns Visualization data (participants without coordinates are listed in unplaced)
+ */
+export function buildMeetingVisualization(meeting: Meeting): MeetingVisualization {
+  const members = getMembersByIds(meeting.participantIds);
+  const points: VisualizationPoint[] = [];
+  const unplaced: VisualizationParticipant[] = [];
+  const unknownCities = new Set<string>();
+
+  for (const member of members) {
+    // City valid on the meeting date, then coordinates from cities service
+    const location = getMemberLocationOn(member, meeting.date);
+    const city = location.city;
+    const known = getLocationCity(location);
+
+    if (!known) {
+      unplaced.push({ memberId: member.id, memberName: member.name, cityName: city });
+      unknownCities.add(city);
+      continue;
+    }
+
+    const countryCode = known.countryCode?.toUpperCase() ?? findCountryAt(known.lat, known.lng)?.iso;
+    points.push({
+      memberId: member.id,
+      memberName: member.name,
+      cityName: city,
+      lat: known.lat,
+      lng: known.lng,
+      ...(countryCode ? { countryCode } : {}),
+    });
+  }
+
+  // All-to-all connections
+  const arcs: VisualizationArc[] = arcsBetween(points);
+  const countries = countByCountry(points);
+
+  return {
+    meeting: { id: meeting.id, title: meeting.title, date: meeting.date },
+    points,
+    arcs,
+    unplaced,
+    unknownCities: [...unknownCities],
+    countries,
+    continents: countByContinent(countries),
+  };
+}
+
+// Most first, ties by name
+const byCount = <T extends { count: number }>(name: (entry: T) => string) =>
+  (a: T, b: T) => b.count - a.count || name(a).localeCompare(name(b));
+
+/**
+ * Counts placed participants per country
+ * Points without a country code aren't counted.
+ */
+export function countByCountry(points: VisualizationPoint[]): CountryCount[] {
+  const counts = new Map<string, CountryCount>();
+  for (const { countryCode } of points) {
+    if (!countryCode) continue;
+    const entry = counts.get(countryCode);
+    if (entry) {
+      entry.count++;
+      continue;
+    }
+    const country = findCountryByCode(countryCode);
+    counts.set(countryCode, {
+      countryCode,
+      name: country?.name ?? countryCode,
+      continent: country?.continent ?? null,
+      count: 1,
+    });
+  }
+  return [...counts.values()].sort(byCount(entry => entry.name));
+}
+
+/**
+ * Sums country counts per continent
+ * Countries without a bundled outline have no continent and aren't counted.
+ */
+export function countByContinent(countries: CountryCount[]): ContinentCount[] {
+  const counts = new Map<string, ContinentCount>();
+  for (const { continent, count } of countries) {
+    if (!continent) continue;
+    const entry = counts.get(continent) ?? { continent, count: 0, countries: 0 };
+    entry.count += count;
+    entry.countries++;
+    counts.set(continent, entry);
+  }
+  return [...counts.values()].sort(byCount(entry => entry.continent));
+}
+
+/**
+ * Headline numbers for a meeting (used in link previews)
+ */
+export interface VisualizationStats {
+  participants: number;
+  cities: number;
+  /** Countries of placed participants (see MeetingVisualization.countries) */
+  countries: number;
+}
+
+/**
+ * Counts participants, distinct cities and distinct countries
+ */
+export function getVisualizationStats(visualization: MeetingVisualization): VisualizationStats {
+  const participants = [...visualization.points, ...visualization.unplaced];
+  const cities = new Set(participants.map(participant => participant.cityName.trim().toLowerCase()));
+
+  return { participants: participants.length, cities: cities.size, countries: visualization.countries.length };
+}
+
+const count = (n: number, one: string, many: string) => `${n} ${n === 1 ? one : many}`;
+
+/**
+ * One-line summary, e.g. "12 participants from 9 cities in 6 countries"
+ * Used for link preview cards (ogImage.ts) and the og:description.
+ */
+export function describeMeeting(stats: VisualizationStats): string {
+  const parts = [count(stats.participants, 'participant', 'participants')];
+  if (stats.cities > 0) {
+    parts.push(`from ${count(stats.cities, 'city', 'cities')}`);
+  }
+  if (stats.countries > 0) {
+    parts.push(`in ${count(stats.countries, 'country', 'countries')}`);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Loads a meeting and computes its visualization
+ *
+ * @param meetingId - Meeting ID
+ * @returns Visualization data, or null if the meeting doesn't exist
+ */
+export function getMeetingVisualization(meetingId: string): MeetingVisualization | null {
+  const meeting = loadMeeting(meetingId);
+  return meeting ? buildMeetingVisualization(meeting) : null;
+}
@@ -0,0 +1,40 @@
+// src/lib/worldMap.test.ts
+import { describe, it, expect } from 'vitest';
+import { findCountryAt, findCountryByCode, findCountryCode, getCountries } from './worldMap';
+
+describe('worldMap', () => {
+  it('should bundle every country with an outline', () => {
+    const countries = getCountries();
+
+    expect(countries.length).toBeGreaterThan(150);
+    expect(countries.every(country => country.polygons.length > 0)).toBe(true);
+  });
+
+  it('should find the country containing a point', () => {
+    expect(findCountryAt(48.86, 2.35)?.iso).toBe('FR');
+    expect(findCountryAt(-1.29, 36.82)?.iso).toBe('KE');
+    expect(findCountryAt(39.9, -98.6)?.iso).toBe('US');
+  });
+
+  it('should return null at sea', () => {
+    expect(findCountryAt(0, -30)).toBeNull();
+  });
+
+  it('should treat a hole as outside the surrounding country', () => {
+    // Lesotho sits inside South Africa's outline
+    expect(findCountryAt(-29.5, 28.2)?.iso).toBe('LS');
+  });
+
+  it('should find a country by its ISO code', () => {
+    expect(findCountryByCode('fr')).toMatchObject({ name: 'France', continent: 'Europe' });
+    expect(findCountryByCode('SG')).toBeNull();
+  });
+
+  it('should turn country names and codes into ISO codes', () => {
+    expect(findCountryCode('fr')).toBe('FR');
+    expect(findCountryCode('France')).toBe('FR');
+    expect(findCountryCode('united states')).toBe('US');
+    expect(findCountryCode('UK')).toBe('GB');
+    expect(findCountryCode('Texas')).toBeNull();
+  });
+});
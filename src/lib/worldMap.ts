@@ -0,0 +1,106 @@
+// src/lib/worldMap.ts
+/**
+ * Bundled World Outlines
+ *
+ * Country polygons from Natural Earth's 1:110m Admin 0 dataset (public
+ * domain), trimmed to name, ISO 3166-1 alpha-2 code and continent, with
+ * coordinates rounded to 0.01 degrees. Bundled so server-side map rendering
+ * never needs the network. MeetingGlobe imports this module on demand for
+ * its country layer.
+ *
+ * Data Source: src/data/geo/countries-110m.json
+ */
+import countriesFile from '~/data/geo/countries-110m.json';
+import { foldName } from './textMatch';
+
+/** Closed ring of [lng, lat] positions */
+export type Ring = Array<[number, number]>;
+
+/** Outer ring followed by any holes */
+export type Polygon = Ring[];
+
+export interface Country {
+  name: string;
+  /** ISO 3166-1 alpha-2; null for territories without one */
+  iso: string | null;
+  continent: string;
+  polygons: Polygon[];
+}
+
+/**
+ * All bundled countries, sorted by name
+ */
+export function getCountries(): Country[] {
+  // JSON imports type positions as number[]; the file holds [lng, lat] pairs
+  return countriesFile.countries as Country[];
+}
+
+/**
+ * Country with an ISO code ("FR")
+ *
+ * @returns The country, or null if the bundled outlines don't include it
+ */
+export function findCountryByCode(iso: string): Country | null {
+  const code = iso.trim().toUpperCase();
+  return getCountries().find(country => country.iso === code) ?? null;
+}
+
+/**
+ * Whether a point lies inside a ring (ray casting on lng/lat)
+ */
+function ringContains(ring: Ring, lat: number, lng: number): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i]!;
+    const [xj, yj] = ring[j]!;
+    if (yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Country containing a point
+ * The outlines are coarse (1:110m), so coastal cities and small islands can
+ * fall outside every polygon.
+ *
+ * @returns The country, or null if the point is at sea (or too close to a coast)
+ */
+export function findCountryAt(lat: number, lng: number): Country | null {
+  return (
+    getCountries().find(country =>
+      country.polygons.some(
+        ([outer, ...holes]) =>
+          outer !== undefined && ringContains(outer, lat, lng) && !holes.some(hole => ringContains(hole, lat, lng))
+      )
+    ) ?? null
+  );
+}
+
+// Common names that differ from the Natural Earth ones
+const COUNTRY_ALIASES: Record<string, string> = {
+  usa: 'US',
+  'united states': 'US',
+  uk: 'GB',
+  'great britain': 'GB',
+};
+
+/**
+ * ISO code for a country typed by a person ("FR", "France", "USA")
+ * Any two-letter code other than an alias ("UK") is accepted as is, since
+ * not every country is in the bundled outlines.
+ *
+ * @returns Upper-case ISO 3166-1 alpha-2 code, or null if the name isn't known
+ */
+export function findCountryCode(country: string): string | null {
+  const folded = foldName(country);
+  const alias = COUNTRY_ALIASES[folded];
+  if (alias) {
+    return alias;
+  }
+  if (/^[a-z]{2}$/.test(folded)) {
+    return folded.toUpperCase();
+  }
+  return getCountries().find(candidate => candidate.iso && foldName(candidate.name) === folded)?.iso ?? null;
+}